@@ -0,0 +1,78 @@
+// Renders a sample invoice with the same generator the app uses and writes it to disk, to show (and check)
+// that PDFs can be produced in Node without a browser. Usage: npm run pdf:sample [-- <output directory>]
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { InvoiceFormData } from '@/types/invoice';
+import { DEFAULT_COMPANY_DETAILS } from '@/lib/company';
+import { buildInvoiceFromForm } from '@/lib/invoice-builder';
+import { generateInvoicePDF } from '@/lib/pdf-export';
+import { getDocumentFileName } from '@/lib/utils';
+
+const SAMPLE_FORM: InvoiceFormData = {
+  invoiceNumber: 'DA/SAMPLE/0001',
+  invoiceDate: '2026-04-01',
+  dueDate: '2026-04-11',
+  creditDays: 10,
+  poNumber: 'PO-1024',
+  poDate: '2026-03-25',
+  displayName: 'Summer Campaign',
+  duration: '30',
+  startDate: '2026-04-01',
+  billingParty: {
+    name: 'Sample Client Pvt Ltd',
+    address: '12 Civil Lines',
+    city: 'Raipur',
+    state: 'Chhattisgarh',
+    pincode: '492001',
+    gstin: '22AAACS1234A1Z5'
+  },
+  items: [
+    {
+      id: 'sample-1',
+      sno: 1,
+      town: 'Raipur',
+      location: 'Jaistambh Chowk',
+      hsn: '998366',
+      media: 'Hoarding',
+      size: '20x10',
+      area: 200,
+      type: 'Front Lit',
+      ratePM: 30000,
+      period: '01/04/2026 to 30/04/2026',
+      amount: 30000
+    },
+    {
+      id: 'sample-2',
+      sno: 2,
+      town: 'Bilaspur',
+      location: 'Old Bus Stand',
+      hsn: '998366',
+      media: 'Unipole',
+      size: '30x15',
+      area: 450,
+      type: 'Back Lit',
+      ratePM: 45000,
+      period: '01/04/2026 to 30/04/2026',
+      amount: 45000
+    }
+  ],
+  gstRate: 18,
+  isInterstate: false,
+  termsAndConditions: DEFAULT_COMPANY_DETAILS.termsAndConditions.join('\n')
+};
+
+async function main() {
+  const outputDir = process.argv[2] || '.';
+  const invoice = buildInvoiceFromForm(SAMPLE_FORM, DEFAULT_COMPANY_DETAILS);
+  const bytes = await generateInvoicePDF(invoice, DEFAULT_COMPANY_DETAILS);
+
+  await mkdir(outputDir, { recursive: true });
+  const file = path.join(outputDir, getDocumentFileName(invoice, 'pdf'));
+  await writeFile(file, bytes);
+  console.log(`Wrote ${file} (${bytes.length} bytes)`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,74 @@
+import { createHash, createHmac } from 'crypto';
+import { NextResponse } from 'next/server';
+import { EInvoicePayload, validateEInvoicePayload } from '@/lib/e-invoice';
+import { getFinancialYear } from '@/lib/invoice-numbering';
+
+// Test stand-in for the NIC IRP: it signs with a fixed key, so its IRNs and QR codes are not legally valid
+const MOCK_SIGNING_KEY = 'deshkar-mock-irp';
+
+function base64Url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function signToken(data: object): string {
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: 'MOCK-IRP' }));
+  const body = base64Url(JSON.stringify({ data: JSON.stringify(data), iss: 'MOCK IRP' }));
+  const signature = createHmac('sha256', MOCK_SIGNING_KEY).update(`${header}.${body}`).digest('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+function errorResponse(errors: { ErrorCode: string; ErrorMessage: string }[]) {
+  return NextResponse.json({ Status: 0, Data: null, ErrorDetails: errors }, { status: 400 });
+}
+
+export async function POST(request: Request) {
+  if (process.env.NODE_ENV === 'production' && process.env.ENABLE_MOCK_IRP !== 'true') {
+    return NextResponse.json({ Status: 0, ErrorDetails: [{ ErrorCode: '404', ErrorMessage: 'Mock IRP is disabled' }] }, { status: 404 });
+  }
+
+  let payload: EInvoicePayload;
+  try {
+    payload = await request.json();
+  } catch {
+    return errorResponse([{ ErrorCode: '2000', ErrorMessage: 'Request body is not valid JSON' }]);
+  }
+
+  const errors = validateEInvoicePayload(payload);
+  if (errors.length > 0) {
+    return errorResponse(errors.map(error => ({ ErrorCode: '2150', ErrorMessage: `${error.field}: ${error.message}` })));
+  }
+
+  // Real IRNs are the SHA-256 of supplier GSTIN, financial year, document type and number
+  const [day, month, year] = payload.DocDtls.Dt.split('/');
+  const irn = createHash('sha256')
+    .update(`${payload.SellerDtls.Gstin}${getFinancialYear(`${year}-${month}-${day}`)}${payload.DocDtls.Typ}${payload.DocDtls.No}`)
+    .digest('hex');
+  const ackNo = `1${String(Date.now()).padStart(14, '0')}`;
+  const ackDate = new Date().toISOString().replace('T', ' ').slice(0, 19);
+
+  const signedQrCode = signToken({
+    SellerGstin: payload.SellerDtls.Gstin,
+    BuyerGstin: payload.BuyerDtls.Gstin,
+    DocNo: payload.DocDtls.No,
+    DocTyp: payload.DocDtls.Typ,
+    DocDt: payload.DocDtls.Dt,
+    TotInvVal: payload.ValDtls.TotInvVal,
+    ItemCnt: payload.ItemList.length,
+    MainHsnCode: payload.ItemList[0].HsnCd,
+    Irn: irn,
+    IrnDt: ackDate
+  });
+
+  return NextResponse.json({
+    Status: 1,
+    Data: {
+      AckNo: ackNo,
+      AckDt: ackDate,
+      Irn: irn,
+      SignedInvoice: signToken({ ...payload, Irn: irn, AckNo: ackNo, AckDt: ackDate }),
+      SignedQRCode: signedQrCode,
+      Status: 'ACT'
+    },
+    ErrorDetails: null
+  });
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, ChevronRight, ChevronDown, FileSpreadsheet, FolderOpen } from 'lucide-react';
+import { InvoiceRecord } from '@/types/invoice';
+import { formatCurrency } from '@/lib/utils';
+import { AgeingReport as AgeingReportData, AGEING_BUCKETS, loadAgeingReport, exportAgeingExcel } from '@/lib/ageing';
+
+interface AgeingReportProps {
+  onOpen: (record: InvoiceRecord) => void;
+  onClose: () => void;
+}
+
+export default function AgeingReport({ onOpen, onClose }: AgeingReportProps) {
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [report, setReport] = useState<AgeingReportData | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAgeingReport(asOf)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not build the ageing report'));
+  }, [asOf]);
+
+  const toggleGroup = useCallback((id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleOpen = useCallback((record: InvoiceRecord) => {
+    onOpen(record);
+    onClose();
+  }, [onOpen, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Outstanding Ageing</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 p-4 border-b bg-gray-50">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As on</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={() => report && exportAgeingExcel(report)}
+            disabled={!report || report.groups.length === 0}
+            className="flex items-center px-4 py-2 text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Export Excel
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {report && report.groups.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">Nothing outstanding as on {asOf}</p>
+          ) : report && (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700 text-left">Party / Invoice</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">GSTIN / Due</th>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <th key={bucket.key} className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">{bucket.label}</th>
+                  ))}
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.groups.map(group => (
+                  <React.Fragment key={group.id}>
+                    <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggleGroup(group.id)}>
+                      <td className="border border-gray-300 px-2 py-2 font-medium">
+                        <span className="flex items-center">
+                          {expanded.has(group.id)
+                            ? <ChevronDown className="w-4 h-4 mr-1 text-gray-500" />
+                            : <ChevronRight className="w-4 h-4 mr-1 text-gray-500" />}
+                          {group.name || '—'} ({group.rows.length})
+                        </span>
+                      </td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{group.gstin || '—'}</td>
+                      {AGEING_BUCKETS.map(bucket => (
+                        <td key={bucket.key} className="border border-gray-300 px-2 py-2 text-right">
+                          {formatCurrency(group.buckets[bucket.key])}
+                        </td>
+                      ))}
+                      <td className="border border-gray-300 px-2 py-2 text-right font-semibold">{formatCurrency(group.total)}</td>
+                    </tr>
+                    {expanded.has(group.id) && group.rows.map(row => (
+                      <tr key={row.record.id} className="bg-blue-50/40 text-xs">
+                        <td className="border border-gray-300 px-2 py-1 pl-8">
+                          <button
+                            onClick={() => handleOpen(row.record)}
+                            className="flex items-center text-blue-600 hover:text-blue-800 transition-colors"
+                            title="Open Invoice"
+                          >
+                            <FolderOpen className="w-3 h-3 mr-1" />
+                            {row.record.invoice.invoiceNumber} dated {row.record.invoice.invoiceDate}
+                          </button>
+                        </td>
+                        <td className="border border-gray-300 px-2 py-1 text-center">
+                          {row.dueDate}{row.daysOverdue > 0 ? ` (${row.daysOverdue}d)` : ''}
+                        </td>
+                        {AGEING_BUCKETS.map(bucket => (
+                          <td key={bucket.key} className="border border-gray-300 px-2 py-1 text-right">
+                            {row.bucket === bucket.key ? formatCurrency(row.outstanding) : ''}
+                          </td>
+                        ))}
+                        <td className="border border-gray-300 px-2 py-1 text-right">{formatCurrency(row.outstanding)}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+                <tr className="bg-gray-50 font-bold">
+                  <td className="border border-gray-300 px-2 py-2" colSpan={2}>Total</td>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <td key={bucket.key} className="border border-gray-300 px-2 py-2 text-right">
+                      {formatCurrency(report.buckets[bucket.key]) || '0'}
+                    </td>
+                  ))}
+                  <td className="border border-gray-300 px-2 py-2 text-right text-blue-600">{formatCurrency(report.total) || '0'}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
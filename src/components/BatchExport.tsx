@@ -0,0 +1,315 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, Upload, Download, Archive } from 'lucide-react';
+import { Client, CompanyDetails, InvoiceRecord } from '@/types/invoice';
+import { formatCurrency, downloadBlob } from '@/lib/utils';
+import { listInvoiceRecords, getInvoiceNumberLabel } from '@/lib/invoice-register';
+import { listClients } from '@/lib/client-directory';
+import {
+  BatchError,
+  BatchInvoice,
+  BatchProgress,
+  exportInvoicesZip,
+  importBatchFile,
+  downloadBatchTemplate,
+  formatBatchLabel
+} from '@/lib/batch-export';
+
+interface BatchExportProps {
+  companies: CompanyDetails[];
+  onClose: () => void;
+}
+
+export default function BatchExport({ companies, onClose }: BatchExportProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [source, setSource] = useState<'register' | 'upload'>('register');
+  const [from, setFrom] = useState(`${today.slice(0, 7)}-01`);
+  const [to, setTo] = useState(today);
+  const [records, setRecords] = useState<InvoiceRecord[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [uploaded, setUploaded] = useState<BatchInvoice[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [includeExcel, setIncludeExcel] = useState(true);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [errors, setErrors] = useState<BatchError[]>([]);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isRunning = !!progress && progress.done < progress.total;
+
+  useEffect(() => {
+    listClients()
+      .then(setClients)
+      .catch(err => setMessage(err instanceof Error ? err.message : 'Could not load clients'));
+  }, []);
+
+  // Month-end runs are of issued invoices, so those in the range start selected
+  const loadRecords = useCallback(() => {
+    listInvoiceRecords()
+      .then(all => {
+        const inRange = all
+          .filter(record => record.invoice.invoiceDate >= from && record.invoice.invoiceDate <= to)
+          .sort((a, b) => a.invoice.invoiceNumber.localeCompare(b.invoice.invoiceNumber));
+        setRecords(inRange);
+        setSelected(new Set(inRange.filter(record => record.status === 'issued').map(record => record.id)));
+      })
+      .catch(err => setMessage(err instanceof Error ? err.message : 'Could not load the invoice register'));
+  }, [from, to]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const toggleRecord = useCallback((id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importBatchFile(file, companies, clients)
+      .then(result => {
+        setUploaded(result.invoices);
+        setErrors(result.errors);
+        setMessage(`Read ${result.invoices.length} invoice(s) from ${file.name}`);
+      })
+      .catch(err => setMessage(`Import failed: ${err instanceof Error ? err.message : err}`));
+  }, [companies, clients]);
+
+  const batch: BatchInvoice[] = source === 'register'
+    ? records
+        .filter(record => selected.has(record.id))
+        .map(record => ({
+          label: formatBatchLabel(record.invoice),
+          invoice: record.invoice,
+          recordId: record.id,
+          formData: record.status === 'draft' ? record.formData : undefined
+        }))
+    : uploaded;
+
+  const handleExport = useCallback(() => {
+    const unissued = batch.filter(item => item.formData).length;
+    if (unissued > 0 && !window.confirm(
+      `${unissued} invoice(s) are not issued yet. Exporting issues them and takes their numbers from the series. Continue?`
+    )) return;
+    setErrors([]);
+    setMessage('');
+    exportInvoicesZip(batch, companies, { includeExcel, onProgress: setProgress })
+      .then(result => {
+        setErrors(result.errors);
+        // Drafts and uploaded invoices have been issued into the register by now
+        if (unissued > 0) {
+          loadRecords();
+          setUploaded([]);
+        }
+        if (result.fileCount === 0) {
+          setMessage('No files were produced');
+          return;
+        }
+        downloadBlob(new Blob([result.zip], { type: 'application/zip' }), `Invoices_${from}_to_${to}.zip`);
+        setMessage(`Saved ${result.fileCount} file(s)${result.errors.length ? `; ${result.errors.length} invoice(s) failed` : ''}`);
+      })
+      .catch(err => setMessage(`Export failed: ${err instanceof Error ? err.message : err}`))
+      .finally(() => setProgress(null));
+  }, [batch, companies, includeExcel, from, to, loadRecords]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Batch Export</h2>
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="text-gray-500 hover:text-gray-700 disabled:opacity-50 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex border-b">
+          {(['register', 'upload'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              className={`px-4 py-2 text-sm font-medium ${source === option ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-600'}`}
+            >
+              {option === 'register' ? 'From Register' : 'From CSV/XLSX'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4 p-4 border-b bg-gray-50">
+          {source === 'register' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Upload Invoices
+              </button>
+              <button
+                onClick={downloadBatchTemplate}
+                className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Blank Sheet
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handleUpload}
+                className="hidden"
+              />
+            </>
+          )}
+          <div className="flex-1 flex flex-col gap-1 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={includeExcel}
+                onChange={(e) => setIncludeExcel(e.target.checked)}
+                className="mr-2"
+              />
+              Include Excel files
+            </label>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={batch.length === 0 || isRunning}
+            className="flex items-center px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <Archive className="w-4 h-4 mr-2" />
+            Export {batch.length} as ZIP
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {progress && (
+            <div className="mb-4">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>{progress.current || 'Packing ZIP'}</span>
+                <span>{progress.done} / {progress.total}</span>
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded">
+                <div
+                  className="h-2 bg-blue-600 rounded transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {message && <p className="text-sm text-blue-700 mb-4">{message}</p>}
+          {errors.length > 0 && (
+            <div className="mb-4 p-3 border border-red-200 bg-red-50 rounded">
+              <p className="text-sm font-medium text-red-700 mb-1">{errors.length} invoice(s) could not be exported</p>
+              <ul className="text-sm text-red-600 list-disc pl-5">
+                {errors.map((error, index) => (
+                  <li key={index}><strong>{error.label}:</strong> {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {source === 'register' && (records.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No invoices between {from} and {to}</p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.size === records.length}
+                      onChange={(e) => setSelected(new Set(e.target.checked ? records.map(record => record.id) : []))}
+                    />
+                  </th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Invoice No.</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Date</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Client</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Status</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Grand Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {records.map(record => (
+                  <tr key={record.id}>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(record.id)}
+                        onChange={() => toggleRecord(record.id)}
+                      />
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{getInvoiceNumberLabel(record.invoice)}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{record.invoice.invoiceDate}</td>
+                    <td className="border border-gray-300 px-2 py-2">{record.invoice.billingParty.name}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center capitalize">{record.status}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(record.invoice.grandTotal) || '0'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ))}
+
+          {source === 'upload' && (uploaded.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">
+              Upload a sheet with one row per line item; rows with the same invoiceRef make one invoice, numbered from the series when it is exported
+            </p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Invoice</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Lines</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Grand Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {uploaded.map(({ label, invoice }) => (
+                  <tr key={label}>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{label}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{invoice.items.length}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(invoice.grandTotal) || '0'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, Search, Plus, Pencil, Trash2, Upload, Download, UserCheck } from 'lucide-react';
+import { Client, InvoiceTemplate, TdsSection } from '@/types/invoice';
+import { GST_STATE_CODES, getStateFromGSTIN } from '@/lib/utils';
+import { TDS_SECTIONS } from '@/lib/tds';
+import { listClients, searchClients, saveClient, deleteClient, exportClientsExcel, importClientsFile } from '@/lib/client-directory';
+import { BUILT_IN_TEMPLATES, STANDARD_TEMPLATE, listInvoiceTemplates } from '@/lib/invoice-templates';
+
+interface ClientDirectoryProps {
+  onSelect: (client: Client) => void;
+  onClose: () => void;
+}
+
+type ClientDraft = Omit<Client, 'id'> & { id?: string };
+
+const EMPTY_CLIENT: ClientDraft = {
+  name: '',
+  address: '',
+  city: '',
+  state: '',
+  pincode: '',
+  gstin: '',
+  phone: '',
+  email: '',
+  creditDays: 0,
+  termsAndConditions: ''
+};
+
+export default function ClientDirectory({ onSelect, onClose }: ClientDirectoryProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>(BUILT_IN_TEMPLATES);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<ClientDraft | null>(null);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadClients = useCallback(() => {
+    listClients()
+      .then(setClients)
+      .catch(err => setMessage(err instanceof Error ? err.message : 'Could not load clients'));
+  }, []);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  useEffect(() => {
+    listInvoiceTemplates()
+      .then(setTemplates)
+      .catch(err => console.warn('Could not load invoice templates', err));
+  }, []);
+
+  const updateEditing = useCallback((field: keyof ClientDraft, value: string | number) => {
+    setEditing(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, [field]: value };
+      if (field === 'gstin') {
+        const stateInfo = getStateFromGSTIN(String(value));
+        if (stateInfo) next.state = stateInfo.state;
+      }
+      // Without a rate of its own the client gets the section's rate for the issuing company
+      if (field === 'tdsSection') {
+        next.tdsSection = (value as TdsSection) || undefined;
+        next.tdsRate = undefined;
+      }
+      if (field === 'tdsRate') {
+        next.tdsRate = value === '' ? undefined : Number(value);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!editing) return;
+    saveClient(editing)
+      .then(() => {
+        setEditing(null);
+        loadClients();
+      })
+      .catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+  }, [editing, loadClients]);
+
+  const handleDelete = useCallback((client: Client) => {
+    if (!window.confirm(`Delete ${client.name} from the client directory?`)) return;
+    deleteClient(client.id).then(loadClients);
+  }, [loadClients]);
+
+  const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importClientsFile(file)
+      .then(count => {
+        setMessage(`Imported ${count} client${count === 1 ? '' : 's'}`);
+        loadClients();
+      })
+      .catch(err => setMessage(`Import failed: ${err instanceof Error ? err.message : err}`));
+  }, [loadClients]);
+
+  const visibleClients = searchClients(clients, search);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[95vh] overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Client Directory</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3 p-4 border-b bg-gray-50">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Search by name or GSTIN"
+            />
+          </div>
+          <button
+            onClick={() => setEditing({ ...EMPTY_CLIENT })}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Client
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </button>
+          <button
+            onClick={() => exportClientsExcel(clients)}
+            disabled={clients.length === 0}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        <div className="p-4 overflow-y-auto max-h-[70vh]">
+          {message && <p className="text-sm text-blue-700 mb-4">{message}</p>}
+
+          {editing && (
+            <div className="mb-6 p-4 border border-blue-200 bg-blue-50 rounded-lg">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Company Name *</label>
+                  <input
+                    type="text"
+                    value={editing.name}
+                    onChange={(e) => updateEditing('name', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">GSTIN</label>
+                  <input
+                    type="text"
+                    value={editing.gstin}
+                    onChange={(e) => updateEditing('gstin', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="27AAAAA0000A1Z5"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                  <textarea
+                    value={editing.address}
+                    onChange={(e) => updateEditing('address', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={2}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                  <input
+                    type="text"
+                    value={editing.city}
+                    onChange={(e) => updateEditing('city', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                  <select
+                    value={editing.state}
+                    onChange={(e) => updateEditing('state', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select State</option>
+                    {Object.values(GST_STATE_CODES).map(({ state }) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pincode</label>
+                  <input
+                    type="text"
+                    value={editing.pincode}
+                    onChange={(e) => updateEditing('pincode', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                  <input
+                    type="tel"
+                    value={editing.phone}
+                    onChange={(e) => updateEditing('phone', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={editing.email}
+                    onChange={(e) => updateEditing('email', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default Credit Days</label>
+                  <input
+                    type="number"
+                    value={editing.creditDays}
+                    onChange={(e) => updateEditing('creditDays', Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    max="365"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">TDS Deducted Under</label>
+                  <select
+                    value={editing.tdsSection || ''}
+                    onChange={(e) => updateEditing('tdsSection', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No TDS</option>
+                    {(Object.keys(TDS_SECTIONS) as TdsSection[]).map(section => (
+                      <option key={section} value={section}>{TDS_SECTIONS[section].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">TDS Rate (%)</label>
+                    <input
+                      type="number"
+                      value={editing.tdsRate ?? ''}
+                      onChange={(e) => updateEditing('tdsRate', e.target.value)}
+                      disabled={!editing.tdsSection}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                      min="0"
+                      max="30"
+                      step="0.1"
+                      placeholder={editing.tdsSection ? 'Default for our PAN' : ''}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Client TAN</label>
+                    <input
+                      type="text"
+                      value={editing.tan || ''}
+                      onChange={(e) => updateEditing('tan', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="NGPD01234E"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Layout</label>
+                  <select
+                    value={editing.templateId || ''}
+                    onChange={(e) => updateEditing('templateId', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Standard</option>
+                    {templates.filter(template => template.id !== STANDARD_TEMPLATE.id).map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Default Terms <span className="text-xs text-gray-500">(one per line, leave empty to keep the standard terms)</span>
+                  </label>
+                  <textarea
+                    value={editing.termsAndConditions || ''}
+                    onChange={(e) => updateEditing('termsAndConditions', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={3}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3 mt-4">
+                <button
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Save Client
+                </button>
+              </div>
+            </div>
+          )}
+
+          {visibleClients.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No clients found</p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Name</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">GSTIN</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">State</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Credit Days</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">TDS</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleClients.map(client => (
+                  <tr key={client.id}>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{client.name}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{client.gstin || '—'}</td>
+                    <td className="border border-gray-300 px-2 py-2">{client.state}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{client.creditDays}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      {client.tdsSection ? `${client.tdsSection}${client.tdsRate !== undefined ? ` @ ${client.tdsRate}%` : ''}` : '—'}
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => onSelect(client)}
+                          className="text-green-600 hover:text-green-800 transition-colors"
+                          title="Use for this Invoice"
+                        >
+                          <UserCheck className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditing({ ...client })}
+                          className="text-blue-600 hover:text-blue-800 transition-colors"
+                          title="Edit Client"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(client)}
+                          className="text-red-600 hover:text-red-800 transition-colors"
+                          title="Delete Client"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
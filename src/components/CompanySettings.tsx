@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { X, Save, Upload, Trash2, Plus } from 'lucide-react';
+import { BankDetails, CompanyDetails, RoundingPolicy } from '@/types/invoice';
+import { GST_STATE_CODES } from '@/lib/utils';
+import { DEFAULT_ROUNDING_POLICY, ROUNDING_POLICY_LABELS } from '@/lib/money';
+import {
+  listCompanies,
+  createCompanyDetails,
+  saveCompanyDetails,
+  deleteCompany,
+  readImageFile,
+  COMPANY_PROFILE_ID
+} from '@/lib/company';
+
+interface CompanySettingsProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type ImageField = 'logo' | 'headerImage' | 'footerImage' | 'signature';
+
+const IMAGE_FIELDS: { field: ImageField; label: string; hint: string }[] = [
+  { field: 'logo', label: 'Logo', hint: 'Used when no header image is set, and on receipts' },
+  { field: 'headerImage', label: 'Header Image', hint: 'Full-width banner above the invoice' },
+  { field: 'footerImage', label: 'Footer Image', hint: 'Full-width banner below the invoice' },
+  { field: 'signature', label: 'Signature', hint: 'Printed above Authorised Signatory; a transparent PNG or SVG works best' }
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function CompanySettings({ onClose, onChanged }: CompanySettingsProps) {
+  const [companies, setCompanies] = useState<CompanyDetails[]>([]);
+  const [company, setCompany] = useState<CompanyDetails | null>(null);
+  const [terms, setTerms] = useState('');
+  const [error, setError] = useState('');
+
+  const selectCompany = useCallback((selected: CompanyDetails) => {
+    setCompany(selected);
+    setTerms(selected.termsAndConditions.join('\n'));
+    setError('');
+  }, []);
+
+  useEffect(() => {
+    listCompanies()
+      .then(loaded => {
+        setCompanies(loaded);
+        selectCompany(loaded[0]);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [selectCompany]);
+
+  const setField = useCallback((field: keyof CompanyDetails, value: string) => {
+    setCompany(prev => prev && { ...prev, [field]: value });
+  }, []);
+
+  const setBankField = useCallback((field: keyof BankDetails, value: string) => {
+    setCompany(prev => prev && { ...prev, bank: { ...prev.bank, [field]: value } });
+  }, []);
+
+  const handleImage = useCallback((field: ImageField, file: File | undefined) => {
+    if (!file) return;
+    readImageFile(file)
+      .then(dataUrl => {
+        setError('');
+        setCompany(prev => prev && { ...prev, [field]: dataUrl });
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!company) return;
+    saveCompanyDetails({ ...company, termsAndConditions: terms.split('\n') })
+      .then(() => {
+        onChanged();
+        onClose();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [company, terms, onChanged, onClose]);
+
+  const handleDelete = useCallback(() => {
+    if (!company || !window.confirm(`Delete ${company.name || 'this company'}?`)) return;
+    deleteCompany(company.id)
+      .then(() => listCompanies())
+      .then(loaded => {
+        setCompanies(loaded);
+        selectCompany(loaded[0]);
+        onChanged();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [company, selectCompany, onChanged]);
+
+  if (!company) return null;
+
+  const isSaved = companies.some(other => other.id === company.id);
+
+  const textField = (field: keyof CompanyDetails, label: string, placeholder = '') => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={(company[field] as string | undefined) || ''}
+        onChange={(e) => setField(field, e.target.value)}
+        className={INPUT_CLASS}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  const bankField = (field: keyof BankDetails, label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={company.bank[field]}
+        onChange={(e) => setBankField(field, e.target.value)}
+        className={INPUT_CLASS}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Companies &amp; Branches</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          <aside className="w-56 border-r bg-gray-50 p-3 overflow-y-auto space-y-1">
+            {companies.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectCompany(option)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                  option.id === company.id ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <span className="block font-medium truncate">{option.name}</span>
+                <span className="block text-xs opacity-75">{option.code} · {option.gstin}</span>
+              </button>
+            ))}
+            {!isSaved && (
+              <p className="px-3 py-2 rounded-md text-sm bg-blue-600 text-white">New company</p>
+            )}
+            <button
+              onClick={() => selectCompany(createCompanyDetails())}
+              className="w-full flex items-center px-3 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Company / Branch
+            </button>
+          </aside>
+
+          <div className="p-6 overflow-y-auto flex-1 space-y-6">
+            <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">{textField('name', 'Company Name')}</div>
+              {textField('code', 'Series Code', 'DA')}
+              {textField('gstin', 'GSTIN', '22AAAAA0000A1Z5')}
+              {textField('pan', 'PAN', 'AAAAA0000A')}
+              {textField('website', 'Website')}
+              <div className="md:col-span-3">{textField('address', 'Address')}</div>
+              {textField('city', 'City')}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                <select
+                  value={company.state}
+                  onChange={(e) => setField('state', e.target.value)}
+                  className={INPUT_CLASS}
+                >
+                  <option value="">Select State</option>
+                  {Object.values(GST_STATE_CODES).map(({ state }) => (
+                    <option key={state} value={state}>{state}</option>
+                  ))}
+                </select>
+              </div>
+              {textField('pincode', 'Pincode')}
+              {textField('phone', 'Phone')}
+              {textField('email', 'Email')}
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">GST Rounding</label>
+                <select
+                  value={company.roundingPolicy || DEFAULT_ROUNDING_POLICY}
+                  onChange={(e) => setCompany({ ...company, roundingPolicy: e.target.value as RoundingPolicy })}
+                  className={INPUT_CLASS}
+                >
+                  {Object.entries(ROUNDING_POLICY_LABELS).map(([policy, label]) => (
+                    <option key={policy} value={policy}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-800 mb-3">Bank Details</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {bankField('bankName', 'Bank Name')}
+                {bankField('branch', 'Branch')}
+                {bankField('ifsc', 'IFSC')}
+                {bankField('accountName', 'Account Name')}
+                {bankField('accountNumber', 'Account Number')}
+              </div>
+            </section>
+
+            <section>
+              <label className="block text-sm font-semibold text-gray-800 mb-1">
+                Default Terms &amp; Conditions <span className="text-xs font-normal text-gray-500">(one per line, used for new invoices)</span>
+              </label>
+              <textarea
+                value={terms}
+                onChange={(e) => setTerms(e.target.value)}
+                rows={7}
+                className={INPUT_CLASS}
+              />
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-800 mb-3">Branding</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMAGE_FIELDS.map(({ field, label, hint }) => (
+                  <div key={field} className="border border-gray-300 rounded-md p-3 space-y-2">
+                    <p className="text-sm font-medium text-gray-700">{label}</p>
+                    <div className="h-20 flex items-center justify-center bg-gray-50 rounded">
+                      {company[field] ? (
+                        <Image
+                          src={company[field]!}
+                          alt={label}
+                          width={240}
+                          height={80}
+                          unoptimized={company[field]!.startsWith('data:')}
+                          className="max-h-20 w-auto object-contain"
+                        />
+                      ) : (
+                        <span className="text-xs text-gray-400">None</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">{hint}</p>
+                    <div className="flex gap-2">
+                      <label className="flex items-center px-3 py-1 text-xs font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 cursor-pointer">
+                        <Upload className="w-3 h-3 mr-1" />
+                        Upload
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg,image/svg+xml"
+                          className="hidden"
+                          onChange={(e) => {
+                            handleImage(field, e.target.files?.[0]);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                      {company[field] && (
+                        <button
+                          onClick={() => setCompany({ ...company, [field]: undefined })}
+                          className="flex items-center px-3 py-1 text-xs font-semibold text-red-600 border border-gray-300 rounded-md hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
+          {isSaved && company.id !== COMPANY_PROFILE_ID && (
+            <button
+              onClick={handleDelete}
+              className="mr-auto flex items-center px-4 py-2 text-red-600 border border-gray-300 rounded-md hover:bg-red-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2 inline" />
+            Save Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
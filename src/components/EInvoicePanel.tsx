@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useState, useCallback, useRef } from 'react';
+import { X, Download, Upload, Send, CheckCircle } from 'lucide-react';
+import { CompanyDetails, EInvoiceDetails, InvoiceRecord } from '@/types/invoice';
+import { formatCurrency } from '@/lib/utils';
+import { attachEInvoice } from '@/lib/invoice-register';
+import {
+  buildEInvoicePayload,
+  validateEInvoicePayload,
+  downloadEInvoiceJson,
+  readIrpResponseFile,
+  requestMockIrn
+} from '@/lib/e-invoice';
+import QrCode from './QrCode';
+
+interface EInvoicePanelProps {
+  record: InvoiceRecord;
+  company: CompanyDetails;
+  onClose: () => void;
+  onRegistered: (record: InvoiceRecord) => void;
+}
+
+export default function EInvoicePanel({ record, company, onClose, onRegistered }: EInvoicePanelProps) {
+  const [eInvoice, setEInvoice] = useState<EInvoiceDetails | undefined>(record.invoice.eInvoice);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const payload = buildEInvoicePayload(record.invoice, company);
+  const errors = validateEInvoicePayload(payload);
+
+  const handleRegistered = useCallback(async (details: Promise<EInvoiceDetails>) => {
+    setBusy(true);
+    setError('');
+    try {
+      const updated = await attachEInvoice(record.id, await details);
+      setEInvoice(updated.invoice.eInvoice);
+      onRegistered(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not register the e-invoice');
+    } finally {
+      setBusy(false);
+    }
+  }, [record.id, onRegistered]);
+
+  const handleDownload = useCallback(() => {
+    try {
+      downloadEInvoiceJson(record.invoice, company);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the e-invoice JSON');
+    }
+  }, [record.invoice, company]);
+
+  const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleRegistered(readIrpResponseFile(file));
+  }, [handleRegistered]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">E-Invoice — {record.invoice.invoiceNumber}</h2>
+            <p className="text-sm text-gray-500">
+              {record.invoice.billingParty.name} · ₹{formatCurrency(record.invoice.grandTotal) || '0'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          {eInvoice && (
+            <div className="flex gap-4 p-3 border border-green-200 bg-green-50 rounded-md">
+              <QrCode value={eInvoice.signedQrCode} size={120} />
+              <div className="text-sm space-y-1 min-w-0">
+                <p className="flex items-center font-semibold text-green-700">
+                  <CheckCircle className="w-4 h-4 mr-1" /> Registered with IRP
+                </p>
+                <p className="break-all"><span className="font-medium">IRN:</span> {eInvoice.irn}</p>
+                <p><span className="font-medium">Ack No:</span> {eInvoice.ackNo}</p>
+                <p><span className="font-medium">Ack Date:</span> {eInvoice.ackDate}</p>
+              </div>
+            </div>
+          )}
+
+          {errors.length > 0 ? (
+            <div>
+              <p className="text-sm font-semibold text-red-600 mb-2">
+                Fix {errors.length} field error(s) in the invoice before generating the e-invoice JSON
+              </p>
+              <table className="w-full border-collapse border border-gray-300 text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Field</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {errors.map((fieldError, index) => (
+                    <tr key={`${fieldError.field}-${index}`}>
+                      <td className="border border-gray-300 px-2 py-2 font-mono text-xs">{fieldError.field}</td>
+                      <td className="border border-gray-300 px-2 py-2">{fieldError.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-green-700">
+              The invoice passes the e-invoice schema checks ({payload.ItemList.length} item(s), total ₹{formatCurrency(payload.ValDtls.TotInvVal) || '0'}).
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600 whitespace-pre-line">{error}</p>}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 p-4 border-t bg-gray-50">
+          <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={handleDownload}
+            disabled={errors.length > 0}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download JSON
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={busy}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import IRP Response
+          </button>
+          <button
+            onClick={() => handleRegistered(requestMockIrn(record.invoice, company))}
+            disabled={busy || errors.length > 0}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-xl hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {busy ? 'Registering…' : 'Request IRN (Mock IRP)'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { CompanyDetails, Invoice } from '@/types/invoice';
+import { SheetPreview, getInvoiceSheetPreview } from '@/lib/excel-export';
+
+interface ExcelPreviewProps {
+  invoice: Invoice;
+  company: CompanyDetails;
+}
+
+// Rebuilt this long after the last change to the form, as the PDF preview is
+const PREVIEW_DELAY_MS = 500;
+
+// Roughly how wide one character of Excel's column width is on screen
+const CHAR_WIDTH_PX = 7;
+
+export default function ExcelPreview({ invoice, company }: ExcelPreviewProps) {
+  const [sheet, setSheet] = useState<SheetPreview | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      try {
+        setSheet(getInvoiceSheetPreview(invoice, company));
+        setError('');
+      } catch (err) {
+        setError(`Could not build the workbook: ${err instanceof Error ? err.message : err}`);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [invoice, company]);
+
+  if (error) {
+    return <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>;
+  }
+  if (!sheet) {
+    return <p className="text-sm text-gray-500">Building the workbook…</p>;
+  }
+
+  return (
+    <div className="border border-gray-300 rounded-md overflow-hidden">
+      <div className="overflow-auto max-h-[70vh]">
+        <table className="border-collapse text-xs text-black" style={{ tableLayout: 'fixed' }}>
+          <colgroup>
+            <col style={{ width: '40px' }} />
+            {sheet.columns.map(column => (
+              <col key={column.label} style={{ width: `${column.width * CHAR_WIDTH_PX + 8}px` }} />
+            ))}
+          </colgroup>
+          <thead className="sticky top-0 z-10">
+            <tr className="bg-gray-100">
+              <th className="border border-gray-300"></th>
+              {sheet.columns.map(column => (
+                <th key={column.label} className="border border-gray-300 px-1 py-0.5 font-normal text-gray-600">{column.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map((row, rowIndex) => (
+              // Text runs on over the empty cells to its right, as it does in Excel
+              <tr key={rowIndex}>
+                <td className="border border-gray-300 bg-gray-100 px-1 text-center text-gray-600">{rowIndex + 1}</td>
+                {row.map((cell, colIndex) => (
+                  <td
+                    key={colIndex}
+                    className={`border border-gray-200 px-1 py-0.5 whitespace-nowrap ${cell.numeric ? 'text-right overflow-hidden' : 'text-left overflow-visible'}`}
+                  >
+                    {cell.text}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="bg-gray-100 border-t border-gray-300 px-3 py-1 text-xs">
+        <span className="bg-white border border-gray-300 border-t-0 px-3 py-0.5 font-medium text-green-700">{sheet.name}</span>
+      </div>
+    </div>
+  );
+}
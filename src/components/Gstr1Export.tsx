@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, FileJson, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
+import { CompanyDetails } from '@/types/invoice';
+import { formatCurrency } from '@/lib/utils';
+import { listCompanies, COMPANY_PROFILE_ID } from '@/lib/company';
+import { Gstr1Result, loadGstr1, exportGstr1Json, exportGstr1Csv } from '@/lib/gstr1';
+
+interface Gstr1ExportProps {
+  onClose: () => void;
+}
+
+// Previous month is the usual filing period
+function getDefaultPeriod(): string {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return date.toISOString().slice(0, 7);
+}
+
+export default function Gstr1Export({ onClose }: Gstr1ExportProps) {
+  const [period, setPeriod] = useState(getDefaultPeriod);
+  const [companies, setCompanies] = useState<CompanyDetails[]>([]);
+  const [companyId, setCompanyId] = useState(COMPANY_PROFILE_ID);
+  const [result, setResult] = useState<Gstr1Result | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    listCompanies()
+      .then(setCompanies)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load companies'));
+  }, []);
+
+  useEffect(() => {
+    if (!period) return;
+    loadGstr1(period, companyId)
+      .then(loaded => {
+        setResult(loaded);
+        setError('');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not build GSTR-1'));
+  }, [period, companyId]);
+
+  const handleExport = useCallback((exporter: (result: Gstr1Result) => void) => {
+    if (!result) return;
+    try {
+      exporter(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [result]);
+
+  const sections = result ? [
+    { label: 'B2B Invoices', count: result.data.b2b.reduce((sum, entry) => sum + entry.inv.length, 0) },
+    { label: 'B2C Large', count: result.data.b2cl.reduce((sum, entry) => sum + entry.inv.length, 0) },
+    { label: 'B2C Small (rows)', count: result.data.b2cs.length },
+    { label: 'Exports', count: result.data.exp.reduce((sum, entry) => sum + entry.inv.length, 0) },
+    { label: 'Credit/Debit Notes', count: result.data.cdnr.reduce((sum, entry) => sum + entry.nt.length, 0) },
+    { label: 'Unregistered Notes (B2CL/Export)', count: result.data.cdnur.length },
+    { label: 'HSN Rows', count: result.data.hsn.data.length }
+  ] : [];
+  const isValid = !!result && result.errors.length === 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">GSTR-1 Export</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Return Period</label>
+              <input
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {companies.length > 1 && (
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">GSTIN</label>
+                <select
+                  value={companyId}
+                  onChange={(e) => setCompanyId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {companies.map(company => (
+                    <option key={company.id} value={company.id}>{company.name} — {company.gstin}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {result && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                {sections.map(section => (
+                  <div key={section.label} className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-gray-500">{section.label}</p>
+                    <p className="text-lg font-bold">{section.count}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">Taxable Value</p>
+                  <p className="font-semibold">{formatCurrency(result.totals.txval) || '0'}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">IGST</p>
+                  <p className="font-semibold">{formatCurrency(result.totals.igst) || '0'}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">CGST</p>
+                  <p className="font-semibold">{formatCurrency(result.totals.cgst) || '0'}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">SGST</p>
+                  <p className="font-semibold">{formatCurrency(result.totals.sgst) || '0'}</p>
+                </div>
+              </div>
+
+              {isValid ? (
+                <p className="flex items-center text-sm text-green-700">
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Totals verified against the HSN summary
+                </p>
+              ) : (
+                <div className="p-3 border border-red-200 bg-red-50 rounded-lg text-sm text-red-700">
+                  <p className="flex items-center font-semibold mb-2">
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    Fix these before filing
+                  </p>
+                  <ul className="list-disc pl-6 space-y-1">
+                    {result.errors.map(problem => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600 whitespace-pre-line">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
+          <button
+            onClick={() => handleExport(exportGstr1Csv)}
+            disabled={!isValid}
+            className="flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Download CSV
+          </button>
+          <button
+            onClick={() => handleExport(exportGstr1Json)}
+            disabled={!isValid}
+            className="flex items-center px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileJson className="w-4 h-4 mr-2" />
+            Download JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, FileSpreadsheet } from 'lucide-react';
+import { CompanyDetails } from '@/types/invoice';
+import { formatCurrency } from '@/lib/utils';
+import { listCompanies } from '@/lib/company';
+import { HsnReport as HsnReportData, loadHsnReport, exportHsnReportExcel } from '@/lib/hsn-summary';
+
+interface HsnReportProps {
+  onClose: () => void;
+}
+
+export default function HsnReport({ onClose }: HsnReportProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [from, setFrom] = useState(`${today.slice(0, 7)}-01`);
+  const [to, setTo] = useState(today);
+  const [companies, setCompanies] = useState<CompanyDetails[]>([]);
+  const [companyId, setCompanyId] = useState('');
+  const [report, setReport] = useState<HsnReportData | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    listCompanies()
+      .then(setCompanies)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load companies'));
+  }, []);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    loadHsnReport(from, to, companyId || undefined)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not build the HSN summary'));
+  }, [from, to, companyId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">HSN/SAC Summary</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4 p-4 border-b bg-gray-50">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {companies.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Company</label>
+              <select
+                value={companyId}
+                onChange={(e) => setCompanyId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All companies</option>
+                {companies.map(company => (
+                  <option key={company.id} value={company.id}>{company.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex-1 text-sm text-gray-500">
+            {report && `${report.documentCount} issued invoice(s) and note(s)`}
+          </div>
+          <button
+            onClick={() => report && exportHsnReportExcel(report)}
+            disabled={!report || report.rows.length === 0}
+            className="flex items-center px-4 py-2 text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Export Excel
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {report && report.rows.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No issued invoices between {from} and {to}</p>
+          ) : report && (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">HSN/SAC</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Description</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Rate</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Taxable Value</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">CGST</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">SGST</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">IGST</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Total Tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={`${row.hsn}-${row.rate}`}>
+                    <td className="border border-gray-300 px-2 py-2 text-center font-medium">{row.hsn || '—'}</td>
+                    <td className="border border-gray-300 px-2 py-2">{row.description}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{row.rate}%</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.taxableValue) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.cgst) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.sgst) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.igst) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.totalTax) || '0'}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-bold">
+                  <td className="border border-gray-300 px-2 py-2" colSpan={3}>Total</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.taxableValue) || '0'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.cgst) || '0'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.sgst) || '0'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.igst) || '0'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right text-blue-600">{formatCurrency(report.totals.totalTax) || '0'}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
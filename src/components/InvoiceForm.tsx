@@ -1,12 +1,38 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import { Plus, Trash2, Download, FileSpreadsheet, Eye, X, Copy } from 'lucide-react';
-import { InvoiceFormData, InvoiceItem, BillingParty, Invoice } from '@/types/invoice';
-import { formatCurrency, numberToWords, calculateGST, getStateFromGSTIN, GST_STATE_CODES } from '@/lib/utils';
-import { generateInvoicePDF, generateCompactInvoicePDF, generateOptimalInvoicePDF, canFitOnOnePage } from '@/lib/pdf-export';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Download, FileSpreadsheet, Eye, X, Copy, FolderOpen, Save, FilePlus, CheckCircle, Settings, Users, UserPlus, MapPin, BarChart3, Landmark, Sigma, Building2, Receipt, Repeat, Archive, LayoutTemplate } from 'lucide-react';
+import { InvoiceFormData, InvoiceItem, BillingParty, Invoice, InvoiceRecord, InvoiceStatus, Client, HoardingSite, CompanyDetails, InvoiceTemplate, RoundingPolicy, Discount, DiscountType, TdsSection } from '@/types/invoice';
+import { formatCurrency, numberToWords, getStateFromGSTIN, calculateAreaFromSize, calculatePeriodFromDates, calculateAmountFromDuration, GST_STATE_CODES } from '@/lib/utils';
+import { downloadInvoicePDF, canFitOnOnePage } from '@/lib/pdf-export';
 import { generateInvoiceExcel } from '@/lib/excel-export';
-import InvoicePreview from './InvoicePreview';
+import { buildInvoice } from '@/lib/invoice-builder';
+import { generateDueRecurringInvoices } from '@/lib/recurring-invoices';
+import { getLatestDraft, saveInvoiceRecord, issueInvoiceRecord } from '@/lib/invoice-register';
+import { saveClientFromBillingParty, billingPartyFromClient } from '@/lib/client-directory';
+import { itemFieldsFromSite } from '@/lib/site-inventory';
+import { peekNextInvoiceNumber, ensureUniqueInvoiceNumber, INVOICE_SERIES_ID } from '@/lib/invoice-numbering';
+import { listCompanies, findCompany, getCompanySeriesId, DEFAULT_COMPANY_DETAILS } from '@/lib/company';
+import { roundMoney, DEFAULT_ROUNDING_POLICY, ROUNDING_POLICY_LABELS } from '@/lib/money';
+import { applyDeductions, getDeductionLines, getNetPayable, AGENCY_COMMISSION_RATE } from '@/lib/discounts';
+import { getClientTdsTerms, getDefaultTdsRate, getExpectedTds, getNetReceivable, TDS_SECTIONS } from '@/lib/tds';
+import { calculateInvoiceTaxes, getTaxLines, GST_RATES, TAX_CATEGORY_LABELS } from '@/lib/tax-rates';
+import { determinePlaceOfSupply, checkPlaceOfSupply, formatPlaceOfSupply, PLACE_OF_SUPPLY_BASIS_LABELS } from '@/lib/place-of-supply';
+import { listInvoiceTemplates, BUILT_IN_TEMPLATES, STANDARD_TEMPLATE, COMPACT_TEMPLATE } from '@/lib/invoice-templates';
+import PdfPreview from './PdfPreview';
+import ExcelPreview from './ExcelPreview';
+import InvoiceRegister, { INVOICE_STATUS_STYLES } from './InvoiceRegister';
+import NumberSeriesSettings from './NumberSeriesSettings';
+import ClientDirectory from './ClientDirectory';
+import SiteInventory from './SiteInventory';
+import AgeingReport from './AgeingReport';
+import Gstr1Export from './Gstr1Export';
+import HsnReport from './HsnReport';
+import TdsReport from './TdsReport';
+import RecurringInvoices from './RecurringInvoices';
+import BatchExport from './BatchExport';
+import CompanySettings from './CompanySettings';
+import TemplateDesigner from './TemplateDesigner';
 
 const INITIAL_BILLING_PARTY: BillingParty = {
   name: '',
@@ -32,49 +58,6 @@ const INITIAL_ITEM: Omit<InvoiceItem, 'id' | 'sno'> = {
   amount: 0
 };
 
-// Utility functions for calculations
-const calculatePeriodFromDates = (startDate: string, duration: string): string => {
-  if (!startDate || !duration) return '';
-
-  const durationDays = parseInt(duration);
-  if (isNaN(durationDays)) return '';
-
-  const start = new Date(startDate);
-  const end = new Date(start);
-  end.setDate(start.getDate() + durationDays - 1);
-
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-GB', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric'
-    });
-  };
-
-  return `${formatDate(start)} to ${formatDate(end)}`;
-};
-
-const calculateAmountFromDuration = (ratePM: number | string, duration: string): number => {
-  if (!ratePM || !duration) return 0;
-
-  const rate = typeof ratePM === 'string' ? parseFloat(ratePM) : ratePM;
-  if (isNaN(rate)) return 0;
-
-  const durationDays = parseInt(duration);
-  if (isNaN(durationDays)) return 0;
-
-  // Calculate months and days
-  const months = Math.floor(durationDays / 30);
-  const remainingDays = durationDays % 30;
-
-  // Calculate amount: full months + proportional days
-  const monthlyAmount = months * rate;
-  const dailyRate = rate / 30;
-  const dailyAmount = remainingDays * dailyRate;
-
-  return Math.round(monthlyAmount + dailyAmount);
-};
-
 const formatDurationDisplay = (duration: string): string => {
   const durationDays = parseInt(duration);
   if (isNaN(durationDays)) return duration;
@@ -91,37 +74,68 @@ const formatDurationDisplay = (duration: string): string => {
   }
 };
 
-const DEFAULT_TERMS = [
-  'Any complaint about the advertisement must be received within 7 days from the date of bill.',
-  'Cheques/D.D.(crossed) to be drawn in favour of DESHKAR ADVERTISING, RAIPUR',
-  'Interest will be charged @ 24% if the bill is not paid in 10 days.',
-  'No receipt is valid unless given on official form.',
-  'Subject to Raipur Jurisdiction. State: Chhattisgarh, State Code : 22',
-  'Enquiry Pin Code : 492001',
-  'Our PAN NO.: AKJPD0941N & Our GST NO.: 22AKJPD0941N4Z8'
-];
+const createInitialFormData = (company: CompanyDetails = DEFAULT_COMPANY_DETAILS): InvoiceFormData => ({
+  companyId: company.id,
+  invoiceNumber: '', // Filled from the number series
+  invoiceDate: new Date().toISOString().split('T')[0],
+  dueDate: '',
+  creditDays: 0,
+  poNumber: '',
+  poDate: '',
+  displayName: '',
+  duration: '37',
+  startDate: '',
+  billingParty: INITIAL_BILLING_PARTY,
+  items: [],
+  gstRate: 18,
+  isInterstate: false,
+  roundingPolicy: company.roundingPolicy || DEFAULT_ROUNDING_POLICY,
+  termsAndConditions: company.termsAndConditions.join('\n')
+});
+
+// Delay before form changes are written to the local register
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Laying out the PDF takes too long to redo on every keystroke, so the one-page check waits for the form to settle
+const LAYOUT_CHECK_DELAY_MS = 500;
 
 export default function InvoiceForm() {
-  const [formData, setFormData] = useState<InvoiceFormData>({
-    invoiceNumber: `INV${Date.now().toString().slice(-6)}`,
-    invoiceDate: new Date().toISOString().split('T')[0],
-    dueDate: '',
-    creditDays: 0,
-    poNumber: '',
-    poDate: '',
-    displayName: '',
-    duration: '37',
-    startDate: '',
-    billingParty: INITIAL_BILLING_PARTY,
-    items: [],
-    gstRate: 18,
-    isInterstate: false,
-    termsAndConditions: DEFAULT_TERMS.join('\n')
-  });
+  const [formData, setFormData] = useState<InvoiceFormData>(() => createInitialFormData());
+  const [companies, setCompanies] = useState<CompanyDetails[]>([DEFAULT_COMPANY_DETAILS]);
+  const company = findCompany(companies, formData.companyId);
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>(BUILT_IN_TEMPLATES);
+  const template = templates.find(option => option.id === formData.templateId) || STANDARD_TEMPLATE;
+  const invoiceSeriesId = getCompanySeriesId(INVOICE_SERIES_ID, formData.companyId);
+  const placeOfSupply = useMemo(
+    () => determinePlaceOfSupply(company, formData.billingParty, formData.items),
+    [company, formData.billingParty, formData.items]
+  );
+  // null while the place of supply is unknown, in which case the checkbox stays manual
+  const autoInterstate = placeOfSupply.isInterstate;
 
   const [showPreview, setShowPreview] = useState(false);
   const [previewType, setPreviewType] = useState<'pdf' | 'excel' | null>(null);
 
+  // Register state: which stored record the form is editing and whether it has been issued
+  const [recordId, setRecordId] = useState(() => Date.now().toString());
+  const [recordStatus, setRecordStatus] = useState<InvoiceStatus>('draft');
+  const isLocked = recordStatus !== 'draft';
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  const [showRegister, setShowRegister] = useState(false);
+  const [showNumberSeries, setShowNumberSeries] = useState(false);
+  const [seriesVersion, setSeriesVersion] = useState(0);
+  const [showClients, setShowClients] = useState(false);
+  const [showSites, setShowSites] = useState(false);
+  const [showAgeing, setShowAgeing] = useState(false);
+  const [showGstr1, setShowGstr1] = useState(false);
+  const [showHsnReport, setShowHsnReport] = useState(false);
+  const [showTdsReport, setShowTdsReport] = useState(false);
+  const [showRecurring, setShowRecurring] = useState(false);
+  const [showBatchExport, setShowBatchExport] = useState(false);
+  const [showCompanySettings, setShowCompanySettings] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+
   // Function to calculate due date based on invoice date and credit days
   const calculateDueDate = useCallback((invoiceDate: string, creditDays: number): string => {
     if (!invoiceDate || creditDays <= 0) return '';
@@ -160,6 +174,27 @@ export default function InvoiceForm() {
     }));
   }, [formData.items.length]);
 
+  const addSiteItems = useCallback((sites: HoardingSite[]) => {
+    setFormData(prev => {
+      const baseId = Date.now();
+      const newItems: InvoiceItem[] = sites.map((site, index) => {
+        const fields = itemFieldsFromSite(site);
+        return {
+          ...fields,
+          id: `${baseId}-${index}`,
+          sno: prev.items.length + index + 1,
+          period: prev.startDate && prev.duration ? calculatePeriodFromDates(prev.startDate, prev.duration) : '',
+          amount: prev.duration ? calculateAmountFromDuration(fields.ratePM, prev.duration) : 0
+        };
+      });
+      return {
+        ...prev,
+        items: [...prev.items, ...newItems]
+      };
+    });
+    setShowSites(false);
+  }, []);
+
   const removeItem = useCallback((id: string) => {
     setFormData(prev => ({
       ...prev,
@@ -195,6 +230,14 @@ export default function InvoiceForm() {
         if (item.id === id) {
           const updatedItem = { ...item, [field]: value };
 
+          // Work out the area from sizes like "20x10"
+          if (field === 'size') {
+            const area = calculateAreaFromSize(String(value));
+            if (area !== null) {
+              updatedItem.area = area;
+            }
+          }
+
           // Auto-calculate amount when rate changes
           if (field === 'ratePM' && prev.duration) {
             const ratePM = value;
@@ -215,6 +258,30 @@ export default function InvoiceForm() {
     }));
   }, []);
 
+  // "default" follows the invoice rate; exempt and zero-rated lines carry no rate of their own
+  const updateItemTax = useCallback((id: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map(item => {
+        if (item.id !== id) return item;
+        if (value === 'exempt' || value === 'zero-rated') {
+          return { ...item, taxCategory: value, gstRate: undefined };
+        }
+        return { ...item, taxCategory: undefined, gstRate: value === 'default' ? undefined : Number(value) };
+      })
+    }));
+  }, []);
+
+  // An empty value removes the line's discount
+  const updateItemDiscount = useCallback((id: string, discount: Discount) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map(item => (
+        item.id === id ? { ...item, discount: discount.value > 0 ? discount : undefined } : item
+      ))
+    }));
+  }, []);
+
   // Update all items when global start date or duration changes
   const updateGlobalDateDuration = useCallback((field: 'startDate' | 'duration', value: string) => {
     setFormData(prev => {
@@ -263,61 +330,229 @@ export default function InvoiceForm() {
     });
   }, []);
 
-  const calculateTotals = useCallback(() => {
-    const subtotal = Math.round(formData.items.reduce((sum, item) => sum + item.amount, 0));
-    const gst = calculateGST(subtotal, formData.gstRate);
+  const handleSelectClient = useCallback((client: Client) => {
+    setFormData(prev => ({
+      ...prev,
+      clientId: client.id,
+      billingParty: billingPartyFromClient(client),
+      creditDays: client.creditDays,
+      dueDate: calculateDueDate(prev.invoiceDate, client.creditDays),
+      tds: getClientTdsTerms(client, company.pan),
+      termsAndConditions: client.termsAndConditions?.trim() ? client.termsAndConditions : prev.termsAndConditions,
+      templateId: client.templateId
+    }));
+    setShowClients(false);
+  }, [calculateDueDate, company.pan]);
 
-    return {
-      subtotal,
-      cgst: formData.isInterstate ? 0 : gst.cgst,
-      sgst: formData.isInterstate ? 0 : gst.sgst,
-      igst: formData.isInterstate ? gst.igst : 0,
-      grandTotal: gst.total
-    };
-  }, [formData.items, formData.gstRate, formData.isInterstate]);
-
-  const totals = calculateTotals();
-
-  const generateInvoice = useCallback((): Invoice => {
-    return {
-      invoiceNumber: formData.invoiceNumber,
-      invoiceDate: formData.invoiceDate,
-      dueDate: formData.dueDate || undefined,
-      poNumber: formData.poNumber || undefined,
-      poDate: formData.poDate || undefined,
-      displayName: formData.displayName || undefined,
-      duration: formData.duration || undefined,
-      billingParty: formData.billingParty,
-      items: formData.items,
-      subtotal: totals.subtotal,
-      cgst: totals.cgst,
-      sgst: totals.sgst,
-      igst: totals.igst,
-      grandTotal: totals.grandTotal,
-      totalInWords: numberToWords(Math.round(totals.grandTotal)),
-      termsAndConditions: formData.termsAndConditions.split('\n').filter(term => term.trim())
-    };
-  }, [formData, totals]);
+  // Switching entity keeps edited terms, but replaces the previous entity's defaults
+  const handleSelectCompany = useCallback((companyId: string) => {
+    const next = findCompany(companies, companyId);
+    setFormData(prev => {
+      const previousTerms = findCompany(companies, prev.companyId).termsAndConditions.join('\n');
+      return {
+        ...prev,
+        companyId: next.id,
+        termsAndConditions: prev.termsAndConditions === previousTerms ? next.termsAndConditions.join('\n') : prev.termsAndConditions
+      };
+    });
+  }, [companies]);
 
-  const handleDownloadPDF = useCallback(() => {
-    const invoice = generateInvoice();
-    generateInvoicePDF(invoice);
-  }, [generateInvoice]);
+  const loadCompanies = useCallback(() => {
+    listCompanies()
+      .then(setCompanies)
+      .catch(err => console.warn('Could not load companies', err));
+  }, []);
 
-  const handleDownloadCompactPDF = useCallback(() => {
-    const invoice = generateInvoice();
-    generateCompactInvoicePDF(invoice);
-  }, [generateInvoice]);
+  const loadTemplates = useCallback(() => {
+    listInvoiceTemplates()
+      .then(setTemplates)
+      .catch(err => console.warn('Could not load invoice templates', err));
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleSaveClient = useCallback(() => {
+    saveClientFromBillingParty(formData.billingParty, formData.creditDays, formData.tds, formData.templateId)
+      .then(client => {
+        setFormData(prev => ({ ...prev, clientId: client.id }));
+        window.alert(`${client.name} saved to the client directory`);
+      })
+      .catch(err => window.alert(`Could not save client: ${err instanceof Error ? err.message : err}`));
+  }, [formData.billingParty, formData.creditDays, formData.tds, formData.templateId]);
+
+  // Discounts and agency commission come off before GST is worked out
+  const taxableItems = useMemo(
+    () => applyDeductions(formData).items,
+    [formData]
+  );
+
+  const totals = useMemo(
+    () => calculateInvoiceTaxes(taxableItems, formData.gstRate, formData.isInterstate, formData.roundingPolicy),
+    [taxableItems, formData.gstRate, formData.isInterstate, formData.roundingPolicy]
+  );
 
-  const handleDownloadOptimalPDF = useCallback(() => {
+  const generateInvoice = useCallback(
+    (): Invoice => buildInvoice(formData, totals, placeOfSupply.placeOfSupply),
+    [formData, totals, placeOfSupply]
+  );
+
+  // Takes the next number from the series and stores the invoice as issued, in one step
+  const issueCurrentInvoice = useCallback(async (): Promise<InvoiceRecord> => {
+    const problems = checkPlaceOfSupply(generateInvoice(), company);
+    if (problems.length > 0) {
+      throw new Error(`Fix the place of supply first:\n${problems.join('\n')}`);
+    }
+    if ((formData.advance || 0) > totals.grandTotal) {
+      throw new Error(`PO advance of ${formatCurrency(formData.advance || 0)} is more than the invoice total`);
+    }
+    const record = await issueInvoiceRecord(recordId, formData, generateInvoice(), invoiceSeriesId);
+    setFormData(record.formData);
+    setRecordStatus(record.status);
+    setLastSavedAt(record.updatedAt);
+    return record;
+  }, [recordId, formData, generateInvoice, invoiceSeriesId, company, totals.grandTotal]);
+
+  // A draft only shows the next free number, so it is issued before a file carrying that number goes out
+  const exportInvoice = useCallback((exporter: (invoice: Invoice, company: CompanyDetails) => void | Promise<void>) => {
+    if (recordStatus === 'draft') {
+      if (!window.confirm('Downloading issues this invoice and takes its number from the series. Issue it now?')) return;
+      issueCurrentInvoice()
+        .then(record => exporter(record.invoice, company))
+        .catch(err => window.alert(err instanceof Error ? err.message : String(err)));
+      return;
+    }
     const invoice = generateInvoice();
-    generateOptimalInvoicePDF(invoice);
-  }, [generateInvoice]);
+    const problems = checkPlaceOfSupply(invoice, company);
+    if (problems.length > 0) {
+      window.alert(`Fix the place of supply before exporting:\n${problems.join('\n')}`);
+      return;
+    }
+    ensureUniqueInvoiceNumber(invoice.invoiceNumber, recordId)
+      .then(() => exporter(invoice, company))
+      .catch(err => window.alert(err instanceof Error ? err.message : String(err)));
+  }, [recordStatus, issueCurrentInvoice, generateInvoice, recordId, company]);
+
+  const handleDownloadPDF = useCallback(() => {
+    exportInvoice((invoice, profile) => downloadInvoicePDF(invoice, profile));
+  }, [exportInvoice]);
 
   const handleDownloadExcel = useCallback(() => {
-    const invoice = generateInvoice();
-    generateInvoiceExcel(invoice);
-  }, [generateInvoice]);
+    exportInvoice(generateInvoiceExcel);
+  }, [exportInvoice]);
+
+  // Restore the most recent draft so a page refresh doesn't lose work
+  useEffect(() => {
+    Promise.all([listCompanies(), getLatestDraft()])
+      .then(([profiles, record]) => {
+        const profile = profiles[0];
+        setCompanies(profiles);
+        if (record) {
+          setFormData(record.formData);
+          setRecordId(record.id);
+          setRecordStatus(record.status);
+          setLastSavedAt(record.updatedAt);
+        } else {
+          setFormData(prev => ({ ...prev, termsAndConditions: profile.termsAndConditions.join('\n') }));
+        }
+      })
+      .catch(err => console.warn('Could not restore draft invoice', err))
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  // Campaigns whose next cycle has started are drafted once the open invoice has been restored
+  useEffect(() => {
+    if (!isRestored) return;
+    generateDueRecurringInvoices()
+      .then(records => {
+        if (records.length === 0) return;
+        window.alert(`Drafted ${records.length} recurring invoice(s); review them in the Invoice Register before issuing`);
+      })
+      .catch(err => console.warn('Could not generate recurring invoices', err));
+  }, [isRestored]);
+
+  // Drafts show the next free number for their financial year; it is only reserved on issue
+  useEffect(() => {
+    if (!isRestored || recordStatus !== 'draft') return;
+
+    peekNextInvoiceNumber(formData.invoiceDate, invoiceSeriesId)
+      .then(invoiceNumber => setFormData(prev => (
+        prev.invoiceNumber === invoiceNumber ? prev : { ...prev, invoiceNumber }
+      )))
+      .catch(err => console.warn('Could not read invoice number series', err));
+  }, [isRestored, recordStatus, formData.invoiceDate, invoiceSeriesId, seriesVersion]);
+
+  // Drafts follow the seller/buyer GSTIN states; issued invoices keep the tax they were issued with
+  useEffect(() => {
+    if (recordStatus !== 'draft' || autoInterstate === null) return;
+    setFormData(prev => (prev.isInterstate === autoInterstate ? prev : { ...prev, isInterstate: autoInterstate }));
+  }, [recordStatus, autoInterstate]);
+
+  // Autosave the form once anything worth keeping has been entered
+  useEffect(() => {
+    if (!isRestored || isLocked) return;
+    if (formData.items.length === 0 && !formData.billingParty.name) return;
+
+    const timer = setTimeout(() => {
+      saveInvoiceRecord(recordId, formData, generateInvoice())
+        .then(record => setLastSavedAt(record.updatedAt))
+        .catch(err => console.warn('Could not autosave invoice', err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [isRestored, isLocked, recordId, formData, generateInvoice]);
+
+  const [fitsOnOnePage, setFitsOnOnePage] = useState<boolean | null>(null);
+  const canExport = formData.items.length > 0 && !!formData.billingParty.name;
+
+  useEffect(() => {
+    if (!canExport) return;
+    const timer = setTimeout(() => {
+      setFitsOnOnePage(canFitOnOnePage(generateInvoice(), company, template));
+    }, LAYOUT_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [canExport, generateInvoice, company, template]);
+
+  const handleSaveDraft = useCallback(() => {
+    saveInvoiceRecord(recordId, formData, generateInvoice())
+      .then(record => setLastSavedAt(record.updatedAt))
+      .catch(err => window.alert(`Could not save invoice: ${err instanceof Error ? err.message : err}`));
+  }, [recordId, formData, generateInvoice]);
+
+  const handleIssueInvoice = useCallback(() => {
+    issueCurrentInvoice()
+      .catch(err => window.alert(`Could not issue invoice: ${err instanceof Error ? err.message : err}`));
+  }, [issueCurrentInvoice]);
+
+  const handleNewInvoice = useCallback(() => {
+    setFormData(createInitialFormData(company));
+    setRecordId(Date.now().toString());
+    setRecordStatus('draft');
+    setLastSavedAt(null);
+  }, [company]);
+
+  const handleOpenRecord = useCallback((record: InvoiceRecord) => {
+    setFormData(record.formData);
+    setRecordId(record.id);
+    setRecordStatus(record.status);
+    setLastSavedAt(record.updatedAt);
+    setShowRegister(false);
+  }, []);
+
+  // Keeps the open invoice in step when an IRN is registered or the invoice is cancelled from the register
+  const handleRecordUpdated = useCallback((record: InvoiceRecord) => {
+    if (record.id !== recordId) return;
+    setFormData(prev => ({ ...prev, eInvoice: record.formData.eInvoice }));
+    setRecordStatus(record.status);
+    setLastSavedAt(record.updatedAt);
+  }, [recordId]);
+
+  // Rebuilt only when the form changes, so the preview re-renders on edits and not on every autosave
+  const previewInvoice = useMemo(
+    () => (showPreview || showTemplates ? generateInvoice() : null),
+    [showPreview, showTemplates, generateInvoice]
+  );
 
   const handlePreview = useCallback((type: 'pdf' | 'excel') => {
     setPreviewType(type);
@@ -356,7 +591,7 @@ export default function InvoiceForm() {
               </div>
               <div>
                 <h1 className="text-5xl font-bold bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 bg-clip-text text-transparent animate-gradient">
-                  DESHKAR ADVERTISING
+                  {company.name}
                 </h1>
                 <p className="text-gray-500 text-base font-medium tracking-wider mt-2">PROFESSIONAL INVOICE MANAGEMENT SYSTEM</p>
               </div>
@@ -381,598 +616,955 @@ export default function InvoiceForm() {
           </div>
         </div>
 
-        {/* Enhanced Invoice Details */}
-        <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl border border-gray-100/50 p-8 mb-8 transform hover:shadow-2xl transition-all duration-300">
-          <div className="flex items-center mb-8">
-            <div className="w-12 h-12 bg-gradient-to-r from-green-500 to-emerald-500 rounded-2xl flex items-center justify-center mr-4 shadow-lg transform hover:scale-110 transition-transform duration-300">
-              <FileSpreadsheet className="w-6 h-6 text-white" />
-            </div>
-            <div>
-              <h2 className="text-3xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">Invoice Details</h2>
-              <p className="text-gray-500 text-sm mt-1">Configure your invoice information</p>
-            </div>
+        {/* Register Toolbar */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/50 p-4 mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <span className={`px-3 py-1 rounded-full text-xs font-semibold ${INVOICE_STATUS_STYLES[recordStatus].className}`}>
+              {INVOICE_STATUS_STYLES[recordStatus].label}
+            </span>
+            <span className="text-sm text-gray-500">
+              {lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleString('en-IN')}` : 'Not saved yet'}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleNewInvoice}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <FilePlus className="w-4 h-4 mr-2" />
+              New Invoice
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              disabled={isLocked}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button
+              onClick={handleIssueInvoice}
+              disabled={isLocked || formData.items.length === 0 || !formData.billingParty.name}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-green-600 rounded-xl hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Issue Invoice
+            </button>
+            <button
+              onClick={() => setShowRegister(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors"
+            >
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Invoice Register
+            </button>
+            <button
+              onClick={() => setShowRecurring(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <Repeat className="w-4 h-4 mr-2" />
+              Recurring
+            </button>
+            <button
+              onClick={() => setShowBatchExport(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Batch Export
+            </button>
+            <button
+              onClick={() => setShowAgeing(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Ageing Report
+            </button>
+            <button
+              onClick={() => setShowGstr1(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <Landmark className="w-4 h-4 mr-2" />
+              GSTR-1
+            </button>
+            <button
+              onClick={() => setShowHsnReport(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <Sigma className="w-4 h-4 mr-2" />
+              HSN Summary
+            </button>
+            <button
+              onClick={() => setShowTdsReport(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <Receipt className="w-4 h-4 mr-2" />
+              TDS Reconciliation
+            </button>
+            <button
+              onClick={() => setShowCompanySettings(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+              <Building2 className="w-4 h-4 mr-2" />
+              Company Profile
+            </button>
           </div>
+        </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
-            <div className="group">
-              <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
-                <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
-                Invoice Number
-              </label>
-              <div className="relative">
-                <input
-                  type="text"
-                  value={formData.invoiceNumber}
-                  onChange={(e) => setFormData(prev => ({ ...prev, invoiceNumber: e.target.value }))}
-                  className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-green-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md"
-                  placeholder="INV-001"
-                />
-                <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-green-500/10 to-emerald-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+        {/* Issued invoices are changed through credit and debit notes, so their details are read-only */}
+        {isLocked && (
+          <div className="bg-green-50 border border-green-200 text-green-800 text-sm rounded-2xl p-4 mb-8">
+            {recordStatus === 'cancelled'
+              ? 'This invoice has been cancelled. Its number stays reserved and it can no longer be edited.'
+              : 'This invoice has been issued and can no longer be edited. Raise a credit or debit note against it from the Invoice Register to change it.'}
+          </div>
+        )}
+        <fieldset disabled={isLocked} className="min-w-0">
+          {/* Enhanced Invoice Details */}
+          <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl border border-gray-100/50 p-8 mb-8 transform hover:shadow-2xl transition-all duration-300">
+            <div className="flex items-center mb-8">
+              <div className="w-12 h-12 bg-gradient-to-r from-green-500 to-emerald-500 rounded-2xl flex items-center justify-center mr-4 shadow-lg transform hover:scale-110 transition-transform duration-300">
+                <FileSpreadsheet className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h2 className="text-3xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">Invoice Details</h2>
+                <p className="text-gray-500 text-sm mt-1">Configure your invoice information</p>
               </div>
             </div>
 
-            <div className="group">
-              <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
-                <span className="w-2 h-2 bg-blue-500 rounded-full mr-2"></span>
-                Invoice Date
-              </label>
-              <div className="relative">
-                <input
-                  type="date"
-                  value={formData.invoiceDate}
-                  onChange={(e) => updateInvoiceDate(e.target.value)}
-                  className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-blue-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md"
-                />
-                <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-blue-500/10 to-indigo-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+            {companies.length > 1 && (
+              <div className="group mb-8">
+                <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+                  <span className="w-2 h-2 bg-indigo-500 rounded-full mr-2"></span>
+                  Issuing Company
+                </label>
+                <select
+                  value={company.id}
+                  onChange={(e) => handleSelectCompany(e.target.value)}
+                  disabled={recordStatus !== 'draft'}
+                  className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-indigo-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md disabled:cursor-not-allowed"
+                >
+                  {companies.map(option => (
+                    <option key={option.id} value={option.id}>{option.name} — {option.gstin}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+              <div className="group">
+                <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+                  <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
+                  Invoice Number
+                </label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={formData.invoiceNumber}
+                    readOnly
+                    className="w-full px-5 py-4 pr-12 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-green-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md cursor-not-allowed"
+                    placeholder="DA/2026-27/0001"
+                  />
+                  <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-green-500/10 to-emerald-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+                  <button
+                    onClick={() => setShowNumberSeries(true)}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-500 hover:text-green-600 transition-colors"
+                    title="Number Series Settings"
+                  >
+                    <Settings className="w-5 h-5" />
+                  </button>
+                </div>
+                {recordStatus === 'draft' && (
+                  <p className="text-xs text-gray-500 mt-2">Next in series - reserved when the invoice is issued</p>
+                )}
+              </div>
+
+              <div className="group">
+                <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+                  <span className="w-2 h-2 bg-blue-500 rounded-full mr-2"></span>
+                  Invoice Date
+                </label>
+                <div className="relative">
+                  <input
+                    type="date"
+                    value={formData.invoiceDate}
+                    onChange={(e) => updateInvoiceDate(e.target.value)}
+                    className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-blue-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md"
+                  />
+                  <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-blue-500/10 to-indigo-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+                </div>
+              </div>
+
+              <div className="group">
+                <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+                  <span className="w-2 h-2 bg-orange-500 rounded-full mr-2"></span>
+                  Credit Days
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={formData.creditDays}
+                    onChange={(e) => updateCreditDays(Number(e.target.value))}
+                    className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-orange-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md"
+                    placeholder="0"
+                    min="0"
+                    max="365"
+                  />
+                  <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-orange-500/10 to-red-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+                </div>
+              </div>
+
+              <div className="group">
+                <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+                  <span className="w-2 h-2 bg-purple-500 rounded-full mr-2"></span>
+                  Due Date <span className="text-xs text-gray-500 ml-1">(Auto-calculated)</span>
+                </label>
+                <div className="relative">
+                  <input
+                    type="date"
+                    value={formData.dueDate}
+                    readOnly
+                    className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-purple-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md cursor-not-allowed"
+                    placeholder="Auto-calculated from credit days"
+                  />
+                  <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-purple-500/10 to-pink-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+                </div>
+                {formData.creditDays > 0 && formData.dueDate && (
+                  <p className="text-xs text-green-600 mt-2 flex items-center">
+                    <span className="w-1.5 h-1.5 bg-green-500 rounded-full mr-1"></span>
+                    Due in {formData.creditDays} days from invoice date
+                  </p>
+                )}
               </div>
             </div>
+          </div>
 
-            <div className="group">
-              <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
-                <span className="w-2 h-2 bg-orange-500 rounded-full mr-2"></span>
-                Credit Days
-              </label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={formData.creditDays}
-                  onChange={(e) => updateCreditDays(Number(e.target.value))}
-                  className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-orange-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md"
-                  placeholder="0"
-                  min="0"
-                  max="365"
-                />
-                <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-orange-500/10 to-red-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+          {/* Elegant PO Details & Display Information */}
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 mb-8">
+            <div className="flex items-center mb-6">
+              <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center mr-4">
+                <FileSpreadsheet className="w-5 h-5 text-white" />
               </div>
+              <h2 className="text-2xl font-bold text-gray-800">PO Details & Display Information</h2>
             </div>
 
-            <div className="group">
-              <label className="text-sm font-bold text-gray-700 mb-3 flex items-center">
-                <span className="w-2 h-2 bg-purple-500 rounded-full mr-2"></span>
-                Due Date <span className="text-xs text-gray-500 ml-1">(Auto-calculated)</span>
-              </label>
-              <div className="relative">
-                <input
-                  type="date"
-                  value={formData.dueDate}
-                  readOnly
-                  className="w-full px-5 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-2xl focus:outline-none focus:border-purple-500 focus:bg-white focus:shadow-lg transition-all duration-300 group-hover:border-gray-300 group-hover:shadow-md cursor-not-allowed"
-                  placeholder="Auto-calculated from credit days"
-                />
-                <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-purple-500/10 to-pink-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    PO Number
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.poNumber}
+                    onChange={(e) => setFormData(prev => ({ ...prev, poNumber: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="PO Number"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    PO Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.poDate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, poDate: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Display Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.displayName}
+                    onChange={(e) => setFormData(prev => ({ ...prev, displayName: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g., MSP STEEL"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Duration
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.duration}
+                    onChange={(e) => setFormData(prev => ({ ...prev, duration: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g., 37 Days"
+                  />
+                </div>
               </div>
-              {formData.creditDays > 0 && formData.dueDate && (
-                <p className="text-xs text-green-600 mt-2 flex items-center">
-                  <span className="w-1.5 h-1.5 bg-green-500 rounded-full mr-1"></span>
-                  Due in {formData.creditDays} days from invoice date
-                </p>
-              )}
             </div>
           </div>
-        </div>
 
-        {/* Elegant PO Details & Display Information */}
-        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 mb-8">
-          <div className="flex items-center mb-6">
-            <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center mr-4">
-              <FileSpreadsheet className="w-5 h-5 text-white" />
+          {/* Elegant Billing Party Details */}
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 mb-8">
+            <div className="flex items-center mb-6">
+              <div className="w-10 h-10 bg-gradient-to-r from-orange-500 to-red-500 rounded-xl flex items-center justify-center mr-4">
+                <FileSpreadsheet className="w-5 h-5 text-white" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-800">Billing Party Details</h2>
+              <div className="ml-auto flex gap-3">
+                <button
+                  onClick={() => setShowClients(true)}
+                  className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-orange-500 rounded-xl hover:bg-orange-600 transition-colors"
+                >
+                  <Users className="w-4 h-4 mr-2" />
+                  Client Directory
+                </button>
+                <button
+                  onClick={handleSaveClient}
+                  disabled={!formData.billingParty.name}
+                  className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Save to Directory
+                </button>
+              </div>
             </div>
-            <h2 className="text-2xl font-bold text-gray-800">PO Details & Display Information</h2>
-          </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="group">
+                <label className="block text-sm font-semibold text-gray-700 mb-3">Company Name *</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={formData.billingParty.name}
+                    onChange={(e) => updateBillingParty('name', e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-50 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-orange-500 focus:bg-white transition-all duration-200 group-hover:border-gray-300"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="group">
+                <label className="block text-sm font-semibold text-gray-700 mb-3">GSTIN *</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={formData.billingParty.gstin}
+                    onChange={(e) => updateBillingParty('gstin', e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-50 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-orange-500 focus:bg-white transition-all duration-200 group-hover:border-gray-300"
+                    placeholder="27AAAAA0000A1Z5"
+                    required
+                  />
+                  {formData.billingParty.gstin && getStateFromGSTIN(formData.billingParty.gstin) && (
+                    <p className="text-xs text-green-600 mt-1">
+                      ✓ State auto-detected: {getStateFromGSTIN(formData.billingParty.gstin)?.state} (Code: {getStateFromGSTIN(formData.billingParty.gstin)?.code})
+                    </p>
+                  )}
+                </div>
+              </div> {/* <-- THIS CLOSING TAG WAS MISSING */}
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Address *
+                </label>
+                <textarea
+                  value={formData.billingParty.address}
+                  onChange={(e) => updateBillingParty('address', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={2}
+                  required
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  PO Number
+                  City *
                 </label>
                 <input
                   type="text"
-                  value={formData.poNumber}
-                  onChange={(e) => setFormData(prev => ({ ...prev, poNumber: e.target.value }))}
+                  value={formData.billingParty.city}
+                  onChange={(e) => updateBillingParty('city', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="PO Number"
+                  required
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  PO Date
+                  State * <span className="text-xs text-gray-500">(Auto-filled from GSTIN)</span>
                 </label>
-                <input
-                  type="date"
-                  value={formData.poDate}
-                  onChange={(e) => setFormData(prev => ({ ...prev, poDate: e.target.value }))}
+                <select
+                  value={formData.billingParty.state}
+                  onChange={(e) => updateBillingParty('state', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                  required
+                >
+                  <option value="">Select State</option>
+                  {Object.values(GST_STATE_CODES).map(({ state }) => (
+                    <option key={state} value={state}>{state}</option>
+                  ))}
+                </select>
               </div>
-            </div>
 
-            <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Display Name
+                  Pincode
                 </label>
                 <input
                   type="text"
-                  value={formData.displayName}
-                  onChange={(e) => setFormData(prev => ({ ...prev, displayName: e.target.value }))}
+                  value={formData.billingParty.pincode}
+                  onChange={(e) => updateBillingParty('pincode', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="e.g., MSP STEEL"
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Duration
+                  Phone
                 </label>
                 <input
-                  type="text"
-                  value={formData.duration}
-                  onChange={(e) => setFormData(prev => ({ ...prev, duration: e.target.value }))}
+                  type="tel"
+                  value={formData.billingParty.phone}
+                  onChange={(e) => updateBillingParty('phone', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="e.g., 37 Days"
                 />
               </div>
             </div>
           </div>
-        </div>
-
-        {/* Elegant Billing Party Details */}
-        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 mb-8">
-          <div className="flex items-center mb-6">
-            <div className="w-10 h-10 bg-gradient-to-r from-orange-500 to-red-500 rounded-xl flex items-center justify-center mr-4">
-              <FileSpreadsheet className="w-5 h-5 text-white" />
-            </div>
-            <h2 className="text-2xl font-bold text-gray-800">Billing Party Details</h2>
-          </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="group">
-              <label className="block text-sm font-semibold text-gray-700 mb-3">Company Name *</label>
-              <div className="relative">
+          {/* Elegant GST Settings */}
+          <div className="mb-8 p-4 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Default GST Rate (%)
+                </label>
                 <input
-                  type="text"
-                  value={formData.billingParty.name}
-                  onChange={(e) => updateBillingParty('name', e.target.value)}
-                  className="w-full px-4 py-3 bg-gray-50 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-orange-500 focus:bg-white transition-all duration-200 group-hover:border-gray-300"
-                  required
+                  type="number"
+                  value={formData.gstRate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, gstRate: Number(e.target.value) }))}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="0"
+                  max="28"
                 />
               </div>
-            </div>
 
-            <div className="group">
-              <label className="block text-sm font-semibold text-gray-700 mb-3">GSTIN *</label>
-              <div className="relative">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  GST Rounding
+                </label>
+                <select
+                  value={formData.roundingPolicy || DEFAULT_ROUNDING_POLICY}
+                  onChange={(e) => setFormData(prev => ({ ...prev, roundingPolicy: e.target.value as RoundingPolicy }))}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Object.entries(ROUNDING_POLICY_LABELS).map(([policy, label]) => (
+                    <option key={policy} value={policy}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center">
                 <input
-                  type="text"
-                  value={formData.billingParty.gstin}
-                  onChange={(e) => updateBillingParty('gstin', e.target.value)}
-                  className="w-full px-4 py-3 bg-gray-50 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-orange-500 focus:bg-white transition-all duration-200 group-hover:border-gray-300"
-                  placeholder="27AAAAA0000A1Z5"
-                  required
+                  type="checkbox"
+                  id="interstate"
+                  checked={formData.isInterstate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isInterstate: e.target.checked }))}
+                  disabled={recordStatus === 'draft' && autoInterstate !== null}
+                  className="mr-2"
                 />
-                {formData.billingParty.gstin && getStateFromGSTIN(formData.billingParty.gstin) && (
-                  <p className="text-xs text-green-600 mt-1">
-                    ✓ State auto-detected: {getStateFromGSTIN(formData.billingParty.gstin)?.state} (Code: {getStateFromGSTIN(formData.billingParty.gstin)?.code})
-                  </p>
-                )}
+                <label htmlFor="interstate" className="text-sm font-medium text-gray-700">
+                  Interstate Transaction (IGST)
+                  {recordStatus === 'draft' && autoInterstate !== null && (
+                    <span className="block text-xs font-normal text-gray-500">Automatic from the place of supply</span>
+                  )}
+                </label>
               </div>
-            </div> {/* <-- THIS CLOSING TAG WAS MISSING */}
-
-            <div className="md:col-span-2">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Address *
-              </label>
-              <textarea
-                value={formData.billingParty.address}
-                onChange={(e) => updateBillingParty('address', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                rows={2}
-                required
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                City *
-              </label>
-              <input
-                type="text"
-                value={formData.billingParty.city}
-                onChange={(e) => updateBillingParty('city', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                State * <span className="text-xs text-gray-500">(Auto-filled from GSTIN)</span>
-              </label>
-              <select
-                value={formData.billingParty.state}
-                onChange={(e) => {
-                  updateBillingParty('state', e.target.value);
-                  // Auto-detect interstate based on state
-                  setFormData(prev => ({
-                    ...prev,
-                    isInterstate: e.target.value !== 'Chhattisgarh' // Company is in Chhattisgarh
-                  }));
-                }}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required
-              >
-                <option value="">Select State</option>
-                {Object.values(GST_STATE_CODES).map(({ state }) => (
-                  <option key={state} value={state}>{state}</option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Pincode
-              </label>
-              <input
-                type="text"
-                value={formData.billingParty.pincode}
-                onChange={(e) => updateBillingParty('pincode', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Phone
-              </label>
-              <input
-                type="tel"
-                value={formData.billingParty.phone}
-                onChange={(e) => updateBillingParty('phone', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
-          </div>
-        </div>
-
-        {/* Elegant GST Settings */}
-        <div className="mb-8 p-4 bg-gray-50 rounded-lg">
-          <div className="flex items-center justify-between">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                GST Rate (%)
-              </label>
-              <input
-                type="number"
-                value={formData.gstRate}
-                onChange={(e) => setFormData(prev => ({ ...prev, gstRate: Number(e.target.value) }))}
-                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                min="0"
-                max="28"
-              />
             </div>
 
-            <div className="flex items-center">
-              <input
-                type="checkbox"
-                id="interstate"
-                checked={formData.isInterstate}
-                onChange={(e) => setFormData(prev => ({ ...prev, isInterstate: e.target.checked }))}
-                className="mr-2"
-              />
-              <label htmlFor="interstate" className="text-sm font-medium text-gray-700">
-                Interstate Transaction (IGST)
-              </label>
+            <div className="mt-3 text-sm">
+              {placeOfSupply.placeOfSupply && placeOfSupply.basis && (
+                <p className="text-gray-700">
+                  <strong>Place of Supply:</strong> {formatPlaceOfSupply(placeOfSupply.placeOfSupply)}
+                  <span className="text-xs text-gray-500"> — {PLACE_OF_SUPPLY_BASIS_LABELS[placeOfSupply.basis]}</span>
+                </p>
+              )}
+              {placeOfSupply.problems.map(problem => (
+                <p key={problem} className="text-amber-700">{problem}</p>
+              ))}
             </div>
           </div>
-        </div>
-
-        {/* Start Date and Duration */}
-        <div className="mb-8 bg-blue-50 p-6 rounded-lg">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Period Configuration</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Start Date
-              </label>
-              <input
-                type="date"
-                value={formData.startDate}
-                onChange={(e) => updateGlobalDateDuration('startDate', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Duration (Days)
-              </label>
-              <input
-                type="number"
-                value={formData.duration}
-                onChange={(e) => updateGlobalDateDuration('duration', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                min="1"
-                placeholder="e.g., 37"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Period Display
-              </label>
-              <div className="px-3 py-2 bg-gray-100 border border-gray-300 rounded-md text-gray-700">
-                {formData.startDate && formData.duration
-                  ? calculatePeriodFromDates(formData.startDate, formData.duration)
-                  : 'Set start date and duration'
-                }
+          {/* Start Date and Duration */}
+          <div className="mb-8 bg-blue-50 p-6 rounded-lg">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Period Configuration</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Start Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => updateGlobalDateDuration('startDate', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
               </div>
-              <div className="text-xs text-gray-500 mt-1">
-                {formData.duration ? formatDurationDisplay(formData.duration) : ''}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Duration (Days)
+                </label>
+                <input
+                  type="number"
+                  value={formData.duration}
+                  onChange={(e) => updateGlobalDateDuration('duration', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="1"
+                  placeholder="e.g., 37"
+                />
               </div>
-            </div>
-          </div>
-        </div>
 
-        {/* Invoice Items */}
-        <div className="mb-8">
-          <div className="flex justify-between items-center mb-6">
-            <div>
-              <h2 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">Invoice Items</h2>
-              <p className="text-gray-500 text-sm mt-1">Add advertising services and hoarding details</p>
-            </div>
-            <div className="flex gap-3">
-              <button
-                onClick={addItem}
-                className="group relative flex items-center px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 transform hover:scale-105 hover:shadow-xl"
-              >
-                <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-indigo-400 to-purple-400 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
-                <Plus className="w-5 h-5 mr-2 transform group-hover:rotate-90 transition-transform duration-300" />
-                <span className="font-semibold">Add Item</span>
-              </button>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Period Display
+                </label>
+                <div className="px-3 py-2 bg-gray-100 border border-gray-300 rounded-md text-gray-700">
+                  {formData.startDate && formData.duration
+                    ? calculatePeriodFromDates(formData.startDate, formData.duration)
+                    : 'Set start date and duration'
+                  }
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formData.duration ? formatDurationDisplay(formData.duration) : ''}
+                </div>
+              </div>
             </div>
           </div>
 
-          {formData.items.length === 0 ? (
-            <div className="text-center py-16">
-              <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-3xl p-12 border-2 border-dashed border-gray-300">
-                <div className="w-20 h-20 bg-gradient-to-r from-gray-400 to-gray-500 rounded-full flex items-center justify-center mx-auto mb-6 animate-pulse">
-                  <FileSpreadsheet className="w-10 h-10 text-white" />
-                </div>
-                <h3 className="text-xl font-bold text-gray-700 mb-2">No Items Added Yet</h3>
-                <p className="text-gray-500 mb-6">Start building your invoice by adding advertising services and hoarding details</p>
+          {/* Invoice Items */}
+          <div className="mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">Invoice Items</h2>
+                <p className="text-gray-500 text-sm mt-1">Add advertising services and hoarding details</p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setShowSites(true)}
+                  className="group relative flex items-center px-6 py-3 bg-white text-indigo-700 border-2 border-indigo-200 rounded-2xl hover:border-indigo-400 transition-all duration-300 transform hover:scale-105 hover:shadow-xl"
+                >
+                  <MapPin className="w-5 h-5 mr-2" />
+                  <span className="font-semibold">Add from Sites</span>
+                </button>
                 <button
                   onClick={addItem}
-                  className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 transform hover:scale-105 hover:shadow-lg"
+                  className="group relative flex items-center px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 transform hover:scale-105 hover:shadow-xl"
                 >
-                  <Plus className="w-5 h-5 mr-2" />
-                  Add Your First Item
+                  <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-indigo-400 to-purple-400 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
+                  <Plus className="w-5 h-5 mr-2 transform group-hover:rotate-90 transition-transform duration-300" />
+                  <span className="font-semibold">Add Item</span>
                 </button>
               </div>
             </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-gray-300">
-                <thead>
-                  <tr className="bg-gray-50">
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">S.No.</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Town</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Location</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">HSN</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Media</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Size</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Area</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Type</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Rate P.M.</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Period</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Amount</th>
-                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {formData.items.map((item) => (
-                    <tr key={item.id}>
-                      <td className="border border-gray-300 px-2 py-2 text-center text-sm">{item.sno}</td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.town}
-                          onChange={(e) => updateItem(item.id, 'town', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Town"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.location}
-                          onChange={(e) => updateItem(item.id, 'location', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Location"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.hsn}
-                          onChange={(e) => updateItem(item.id, 'hsn', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="HSN"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.media}
-                          onChange={(e) => updateItem(item.id, 'media', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Media"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.size}
-                          onChange={(e) => updateItem(item.id, 'size', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Size"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.area}
-                          onChange={(e) => updateItem(item.id, 'area', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Area"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.type}
-                          onChange={(e) => updateItem(item.id, 'type', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Type"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.ratePM}
-                          onChange={(e) => updateItem(item.id, 'ratePM', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          placeholder="Rate"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="text"
-                          value={item.period}
-                          readOnly
-                          className="w-full px-2 py-1 text-sm border-0 bg-gray-50 text-gray-600"
-                          placeholder="Auto-calculated from start date + duration"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2">
-                        <input
-                          type="number"
-                          value={item.amount}
-                          onChange={(e) => updateItem(item.id, 'amount', Math.round(Number(e.target.value)))}
-                          className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 text-right"
-                          placeholder="Amount"
-                          min="0"
-                          step="1"
-                        />
-                      </td>
-                      <td className="border border-gray-300 px-2 py-2 text-center">
-                        <div className="flex items-center justify-center space-x-2">
-                          <button
-                            onClick={() => copyItem(item.id)}
-                            className="text-blue-600 hover:text-blue-800 transition-colors"
-                            title="Copy Item"
+
+            {formData.items.length === 0 ? (
+              <div className="text-center py-16">
+                <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-3xl p-12 border-2 border-dashed border-gray-300">
+                  <div className="w-20 h-20 bg-gradient-to-r from-gray-400 to-gray-500 rounded-full flex items-center justify-center mx-auto mb-6 animate-pulse">
+                    <FileSpreadsheet className="w-10 h-10 text-white" />
+                  </div>
+                  <h3 className="text-xl font-bold text-gray-700 mb-2">No Items Added Yet</h3>
+                  <p className="text-gray-500 mb-6">Start building your invoice by adding advertising services and hoarding details</p>
+                  <button
+                    onClick={addItem}
+                    className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 transform hover:scale-105 hover:shadow-lg"
+                  >
+                    <Plus className="w-5 h-5 mr-2" />
+                    Add Your First Item
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse border border-gray-300">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">S.No.</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Town</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Location</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">HSN</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Media</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Size</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Area</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Type</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Rate P.M.</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Period</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Amount</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Discount</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">GST</th>
+                      <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {formData.items.map((item) => (
+                      <tr key={item.id}>
+                        <td className="border border-gray-300 px-2 py-2 text-center text-sm">{item.sno}</td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.town}
+                            onChange={(e) => updateItem(item.id, 'town', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Town"
+                          />
+                          <select
+                            value={item.state || ''}
+                            onChange={(e) => updateItem(item.id, 'state', e.target.value)}
+                            className="w-full px-1 py-1 text-xs text-gray-600 border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            title="State the site is in"
                           >
-                            <Copy className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => removeItem(item.id)}
-                            className="text-red-600 hover:text-red-800 transition-colors"
-                            title="Delete Item"
+                            <option value="">Site state</option>
+                            {Object.values(GST_STATE_CODES).map(({ state }) => (
+                              <option key={state} value={state}>{state}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.location}
+                            onChange={(e) => updateItem(item.id, 'location', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Location"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.hsn}
+                            onChange={(e) => updateItem(item.id, 'hsn', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="HSN"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.media}
+                            onChange={(e) => updateItem(item.id, 'media', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Media"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.size}
+                            onChange={(e) => updateItem(item.id, 'size', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Size"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.area}
+                            onChange={(e) => updateItem(item.id, 'area', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Area"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.type}
+                            onChange={(e) => updateItem(item.id, 'type', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Type"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.ratePM}
+                            onChange={(e) => updateItem(item.id, 'ratePM', e.target.value)}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            placeholder="Rate"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="text"
+                            value={item.period}
+                            readOnly
+                            className="w-full px-2 py-1 text-sm border-0 bg-gray-50 text-gray-600"
+                            placeholder="Auto-calculated from start date + duration"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <input
+                            type="number"
+                            value={item.amount}
+                            onChange={(e) => updateItem(item.id, 'amount', roundMoney(Number(e.target.value)))}
+                            className="w-full px-2 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 text-right"
+                            placeholder="Amount"
+                            min="0"
+                            step="0.01"
+                          />
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <div className="flex items-center">
+                            <input
+                              type="number"
+                              value={item.discount?.value || ''}
+                              onChange={(e) => updateItemDiscount(item.id, { type: item.discount?.type || 'percent', value: Number(e.target.value) })}
+                              className="w-16 px-1 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 text-right"
+                              min="0"
+                              step="0.01"
+                            />
+                            <select
+                              value={item.discount?.type || 'percent'}
+                              onChange={(e) => updateItemDiscount(item.id, { type: e.target.value as DiscountType, value: item.discount?.value || 0 })}
+                              className="px-1 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            >
+                              <option value="percent">%</option>
+                              <option value="flat">₹</option>
+                            </select>
+                          </div>
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2">
+                          <select
+                            value={item.taxCategory && item.taxCategory !== 'taxable' ? item.taxCategory : item.gstRate ?? 'default'}
+                            onChange={(e) => updateItemTax(item.id, e.target.value)}
+                            className="w-full px-1 py-1 text-sm border-0 focus:outline-none focus:ring-1 focus:ring-blue-500"
                           >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          )}
-        </div>
+                            <option value="default">{formData.gstRate}% (default)</option>
+                            {GST_RATES.map(rate => (
+                              <option key={rate} value={rate}>{rate}%</option>
+                            ))}
+                            <option value="exempt">{TAX_CATEGORY_LABELS.exempt}</option>
+                            <option value="zero-rated">{TAX_CATEGORY_LABELS['zero-rated']}</option>
+                          </select>
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2 text-center">
+                          <div className="flex items-center justify-center space-x-2">
+                            <button
+                              onClick={() => copyItem(item.id)}
+                              className="text-blue-600 hover:text-blue-800 transition-colors"
+                              title="Copy Item"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => removeItem(item.id)}
+                              className="text-red-600 hover:text-red-800 transition-colors"
+                              title="Delete Item"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
 
-        {/* Invoice Summary */}
-        <div className="mb-8 bg-gray-50 p-6 rounded-lg">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Invoice Summary</h2>
+          {/* Invoice Summary */}
+          <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Invoice Summary</h2>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Subtotal:</span>
-                  <span className="font-medium">{formatCurrency(totals.subtotal)}</span>
-                </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <div className="space-y-2">
+                  {getDeductionLines(generateInvoice()).map(line => (
+                    <div key={line.label} className="flex justify-between">
+                      <span className="text-gray-600">{line.label}:</span>
+                      <span className="font-medium">{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
 
-                {formData.isInterstate ? (
                   <div className="flex justify-between">
-                    <span className="text-gray-600">IGST ({formData.gstRate}%):</span>
-                    <span className="font-medium">{formatCurrency(totals.igst)}</span>
+                    <span className="text-gray-600">Subtotal:</span>
+                    <span className="font-medium">{formatCurrency(totals.subtotal)}</span>
                   </div>
-                ) : (
-                  <>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">CGST ({formData.gstRate / 2}%):</span>
-                      <span className="font-medium">{formatCurrency(totals.cgst)}</span>
+
+                  {getTaxLines(generateInvoice()).map(line => (
+                    <div key={line.label} className="flex justify-between">
+                      <span className="text-gray-600">{line.label}:</span>
+                      <span className="font-medium">{formatCurrency(line.amount)}</span>
                     </div>
+                  ))}
+
+                  {totals.roundOff !== 0 && (
                     <div className="flex justify-between">
-                      <span className="text-gray-600">SGST ({formData.gstRate / 2}%):</span>
-                      <span className="font-medium">{formatCurrency(totals.sgst)}</span>
+                      <span className="text-gray-600">Round Off:</span>
+                      <span className="font-medium">{formatCurrency(totals.roundOff)}</span>
                     </div>
-                  </>
-                )}
+                  )}
 
-                <div className="border-t pt-2">
-                  <div className="flex justify-between text-lg font-bold">
-                    <span>Grand Total:</span>
-                    <span className="text-blue-600">{formatCurrency(totals.grandTotal)}</span>
+                  <div className="border-t pt-2">
+                    <div className="flex justify-between text-lg font-bold">
+                      <span>Grand Total:</span>
+                      <span className="text-blue-600">{formatCurrency(totals.grandTotal)}</span>
+                    </div>
                   </div>
+
+                  {!!formData.advance && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Less : PO Advance:</span>
+                        <span className="font-medium">{formatCurrency(formData.advance)}</span>
+                      </div>
+                      <div className="flex justify-between font-bold">
+                        <span>Net Payable:</span>
+                        <span>{formatCurrency(getNetPayable(generateInvoice()))}</span>
+                      </div>
+                    </>
+                  )}
+
+                  {formData.tds && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Less : TDS u/s {formData.tds.section} @ {formData.tds.rate}%:</span>
+                        <span className="font-medium">{formatCurrency(getExpectedTds(generateInvoice())) || '0'}</span>
+                      </div>
+                      <div className="flex justify-between font-bold">
+                        <span>Net receivable after TDS:</span>
+                        <span className="text-green-700">{formatCurrency(getNetReceivable(generateInvoice())) || '0'}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
-            </div>
 
-            <div>
-              <div className="bg-white p-4 rounded border">
-                <h3 className="font-medium text-gray-800 mb-2">Amount in Words:</h3>
-                <p className="text-sm text-gray-600 italic">
-                  {totals.grandTotal > 0 ? numberToWords(Math.round(totals.grandTotal)) : 'Zero Only'}
-                </p>
+              <div>
+                <div className="bg-white p-4 rounded border">
+                  <h3 className="font-medium text-gray-800 mb-2">Amount in Words:</h3>
+                  <p className="text-sm text-gray-600 italic">
+                    {totals.grandTotal > 0 ? numberToWords(totals.grandTotal) : 'Zero Only'}
+                  </p>
+                </div>
+
+                <div className="bg-white p-4 rounded border mt-4 space-y-3">
+                  <h3 className="font-medium text-gray-800">Discounts &amp; Adjustments</h3>
+                  <div className="flex items-center gap-2">
+                    <label className="w-40 text-sm text-gray-700">Invoice Discount</label>
+                    <input
+                      type="number"
+                      value={formData.discount?.value || ''}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        discount: { type: prev.discount?.type || 'percent', value: Number(e.target.value) }
+                      }))}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-right"
+                      min="0"
+                      step="0.01"
+                    />
+                    <select
+                      value={formData.discount?.type || 'percent'}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        discount: { type: e.target.value as DiscountType, value: prev.discount?.value || 0 }
+                      }))}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="percent">%</option>
+                      <option value="flat">₹</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="w-40 text-sm text-gray-700 flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={!!formData.agencyCommissionRate}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          agencyCommissionRate: e.target.checked ? AGENCY_COMMISSION_RATE : undefined
+                        }))}
+                        className="mr-2"
+                      />
+                      Agency Commission
+                    </label>
+                    {!!formData.agencyCommissionRate && (
+                      <>
+                        <input
+                          type="number"
+                          value={formData.agencyCommissionRate}
+                          onChange={(e) => setFormData(prev => ({ ...prev, agencyCommissionRate: Number(e.target.value) || undefined }))}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-right"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                        />
+                        <span className="text-sm text-gray-600">%</span>
+                      </>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="w-40 text-sm text-gray-700">PO Advance Received</label>
+                    <input
+                      type="number"
+                      value={formData.advance || ''}
+                      onChange={(e) => setFormData(prev => ({ ...prev, advance: roundMoney(Number(e.target.value)) || undefined }))}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-right"
+                      min="0"
+                      step="0.01"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="w-40 text-sm text-gray-700">Expected TDS</label>
+                    <select
+                      value={formData.tds?.section || ''}
+                      onChange={(e) => {
+                        const section = e.target.value as TdsSection;
+                        setFormData(prev => ({ ...prev, tds: section ? { section, rate: getDefaultTdsRate(section, company.pan) } : undefined }));
+                      }}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">None</option>
+                      {(Object.keys(TDS_SECTIONS) as TdsSection[]).map(section => (
+                        <option key={section} value={section}>u/s {section}</option>
+                      ))}
+                    </select>
+                    {formData.tds && (
+                      <>
+                        <input
+                          type="number"
+                          value={formData.tds.rate}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            tds: prev.tds && { ...prev.tds, rate: Number(e.target.value) }
+                          }))}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-right"
+                          min="0"
+                          max="30"
+                          step="0.1"
+                        />
+                        <span className="text-sm text-gray-600">%</span>
+                      </>
+                    )}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Terms and Conditions */}
-        <div className="mb-8">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Terms & Conditions</h2>
-          <textarea
-            value={formData.termsAndConditions}
-            onChange={(e) => setFormData(prev => ({ ...prev, termsAndConditions: e.target.value }))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            rows={6}
-            placeholder="Enter terms and conditions (one per line)"
-          />
-        </div>
+          {/* Terms and Conditions */}
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Terms & Conditions</h2>
+            <textarea
+              value={formData.termsAndConditions}
+              onChange={(e) => setFormData(prev => ({ ...prev, termsAndConditions: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              rows={6}
+              placeholder="Enter terms and conditions (one per line)"
+            />
+          </div>
+        </fieldset>
 
         {/* Enhanced Action Buttons */}
         <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl border border-gray-100/50 p-8 mb-8">
@@ -981,48 +1573,47 @@ export default function InvoiceForm() {
             <p className="text-gray-500">Generate professional invoices in multiple formats</p>
           </div>
 
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
-            <button
-              onClick={() => handlePreview('pdf')}
-              disabled={formData.items.length === 0 || !formData.billingParty.name}
-              className="group relative flex items-center justify-center px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl hover:from-blue-700 hover:to-blue-800 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-none"
+          <div className="flex flex-wrap items-center justify-center gap-3 mb-6">
+            <label className="text-sm font-bold text-gray-700">Layout</label>
+            <select
+              value={template.id}
+              onChange={(e) => setFormData(prev => ({ ...prev, templateId: e.target.value === STANDARD_TEMPLATE.id ? undefined : e.target.value }))}
+              disabled={isLocked}
+              className="px-4 py-2 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-blue-400 to-blue-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
-              <Eye className="w-4 h-4 mr-2 transform group-hover:scale-110 transition-transform duration-300" />
-              <span className="font-semibold text-sm">Preview PDF</span>
-            </button>
-
+              {templates.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
             <button
-              onClick={handleDownloadOptimalPDF}
-              disabled={formData.items.length === 0 || !formData.billingParty.name}
-              className="group relative flex items-center justify-center px-4 py-3 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-2xl hover:from-purple-700 hover:to-purple-800 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-none"
-              title="Auto-optimized layout for best fit"
+              onClick={() => setShowTemplates(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors"
             >
-              <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-purple-400 to-purple-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
-              <Download className="w-4 h-4 mr-2 transform group-hover:scale-110 transition-transform duration-300" />
-              <span className="font-semibold text-sm">Smart PDF</span>
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+              Templates
             </button>
+          </div>
 
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
             <button
-              onClick={handleDownloadCompactPDF}
+              onClick={() => handlePreview('pdf')}
               disabled={formData.items.length === 0 || !formData.billingParty.name}
-              className="group relative flex items-center justify-center px-4 py-3 bg-gradient-to-r from-orange-600 to-orange-700 text-white rounded-2xl hover:from-orange-700 hover:to-orange-800 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-none"
-              title="Compact layout - fits more content on one page"
+              className="group relative flex items-center justify-center px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl hover:from-blue-700 hover:to-blue-800 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-none"
             >
-              <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-orange-400 to-orange-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
-              <Download className="w-4 h-4 mr-2 transform group-hover:scale-110 transition-transform duration-300" />
-              <span className="font-semibold text-sm">Compact PDF</span>
+              <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-blue-400 to-blue-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
+              <Eye className="w-4 h-4 mr-2 transform group-hover:scale-110 transition-transform duration-300" />
+              <span className="font-semibold text-sm">Preview PDF</span>
             </button>
 
             <button
               onClick={handleDownloadPDF}
               disabled={formData.items.length === 0 || !formData.billingParty.name}
               className="group relative flex items-center justify-center px-4 py-3 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-2xl hover:from-red-700 hover:to-red-800 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-none"
-              title="Standard PDF layout"
+              title={`PDF in the ${template.name} layout`}
             >
               <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-red-400 to-red-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
               <Download className="w-4 h-4 mr-2 transform group-hover:scale-110 transition-transform duration-300" />
-              <span className="font-semibold text-sm">Standard PDF</span>
+              <span className="font-semibold text-sm">Download PDF</span>
             </button>
 
             <button
@@ -1062,30 +1653,19 @@ export default function InvoiceForm() {
 
                 {/* Layout optimization indicator */}
                 <div className="flex items-center justify-center space-x-4 text-xs">
-                  {(() => {
-                    const invoice = generateInvoice();
-                    const canFitOne = canFitOnOnePage(invoice);
-                    return (
-                      <>
-                        <div className={`flex items-center ${canFitOne ? 'text-green-600' : 'text-blue-600'}`}>
-                          <div className={`w-1.5 h-1.5 ${canFitOne ? 'bg-green-500' : 'bg-blue-500'} rounded-full mr-1`}></div>
-                          <span>{canFitOne ? 'Can fit on one page' : 'Multi-page layout'}</span>
-                        </div>
-
-                        <div className="flex items-center text-purple-600">
-                          <div className="w-1.5 h-1.5 bg-purple-500 rounded-full mr-1"></div>
-                          <span>Smart PDF recommended</span>
-                        </div>
-
-                        {formData.items.length <= 10 && (
-                          <div className="flex items-center text-orange-600">
-                            <div className="w-1.5 h-1.5 bg-orange-500 rounded-full mr-1"></div>
-                            <span>Compact mode available</span>
-                          </div>
-                        )}
-                      </>
-                    );
-                  })()}
+                  {fitsOnOnePage !== null && (
+                    <div className={`flex items-center ${fitsOnOnePage ? 'text-green-600' : 'text-blue-600'}`}>
+                      <div className={`w-1.5 h-1.5 ${fitsOnOnePage ? 'bg-green-500' : 'bg-blue-500'} rounded-full mr-1`}></div>
+                      <span>{fitsOnOnePage ? 'Fits on one page' : 'Runs to more than one page'}</span>
+                    </div>
+                  )}
+
+                  {fitsOnOnePage === false && !template.compact && (
+                    <div className="flex items-center text-orange-600">
+                      <div className="w-1.5 h-1.5 bg-orange-500 rounded-full mr-1"></div>
+                      <span>Try the {COMPACT_TEMPLATE.name} layout</span>
+                    </div>
+                  )}
                 </div>
               </>
             )}
@@ -1106,60 +1686,163 @@ export default function InvoiceForm() {
           </div>
         </div>
 
-        {/* Preview Modal */}
-        {showPreview && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
-            <div className="bg-white rounded-lg max-w-7xl w-full max-h-[95vh] overflow-hidden">
-              <div className="flex justify-between items-center p-4 border-b">
-                <h2 className="text-xl font-semibold">
-                  {previewType === 'pdf' ? 'PDF Preview' : 'Excel Preview'}
-                </h2>
-                <button
-                  onClick={handleClosePreview}
-                  className="text-gray-500 hover:text-gray-700 transition-colors"
-                >
-                  <X className="w-6 h-6" />
-                </button>
-              </div>
+        {/* Preview Panel - docked to the side so the form stays editable and the preview follows it */}
+        {showPreview && previewInvoice && (
+          <div className="fixed inset-y-0 right-0 z-50 w-full lg:w-[55%] bg-white shadow-2xl border-l flex flex-col">
+            <div className="flex justify-between items-center p-4 border-b">
+              <h2 className="text-xl font-semibold">
+                {previewType === 'pdf' ? 'PDF Preview' : 'Excel Preview'}
+              </h2>
+              <button
+                onClick={handleClosePreview}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
 
-              <div className="p-4 overflow-y-auto max-h-[75vh] overflow-x-auto">
-                <InvoicePreview invoice={generateInvoice()} type={previewType!} />
-              </div>
+            <div className="p-4 flex-1 min-h-0 overflow-auto">
+              {previewType === 'pdf' ? (
+                <PdfPreview invoice={previewInvoice} company={company} template={template} />
+              ) : (
+                <ExcelPreview invoice={previewInvoice} company={company} />
+              )}
+            </div>
 
-              <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
-                <button
-                  onClick={handleClosePreview}
-                  className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={handleConfirmDownload}
-                  className={`px-6 py-2 text-white rounded-md transition-colors ${
-                    previewType === 'pdf'
-                      ? 'bg-red-600 hover:bg-red-700'
-                      : 'bg-green-600 hover:bg-green-700'
-                  }`}
-                >
-                  <Download className="w-4 h-4 mr-2 inline" />
-                  Download {previewType?.toUpperCase()}
-                </button>
-              </div>
+            <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
+              <button
+                onClick={handleClosePreview}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmDownload}
+                className={`px-6 py-2 text-white rounded-md transition-colors ${
+                  previewType === 'pdf'
+                    ? 'bg-red-600 hover:bg-red-700'
+                    : 'bg-green-600 hover:bg-green-700'
+                }`}
+              >
+                <Download className="w-4 h-4 mr-2 inline" />
+                Download {previewType?.toUpperCase()}
+              </button>
             </div>
           </div>
         )}
 
+        {/* Invoice Register Modal */}
+        {showRegister && (
+          <InvoiceRegister
+            currentId={recordId}
+            companies={companies}
+            onOpen={handleOpenRecord}
+            onUpdated={handleRecordUpdated}
+            onClose={() => setShowRegister(false)}
+          />
+        )}
+
+        {/* Number Series Modal */}
+        {showNumberSeries && (
+          <NumberSeriesSettings
+            invoiceDate={formData.invoiceDate}
+            seriesId={invoiceSeriesId}
+            onClose={() => setShowNumberSeries(false)}
+            onSaved={() => setSeriesVersion(version => version + 1)}
+          />
+        )}
+
+        {/* Client Directory Modal */}
+        {showClients && (
+          <ClientDirectory
+            onSelect={handleSelectClient}
+            onClose={() => setShowClients(false)}
+          />
+        )}
+
+        {/* Site Inventory Modal */}
+        {showSites && (
+          <SiteInventory
+            onAddSites={addSiteItems}
+            onClose={() => setShowSites(false)}
+          />
+        )}
+
+        {/* Ageing Report Modal */}
+        {showAgeing && (
+          <AgeingReport
+            onOpen={handleOpenRecord}
+            onClose={() => setShowAgeing(false)}
+          />
+        )}
+
+        {/* GSTR-1 Export Modal */}
+        {showGstr1 && (
+          <Gstr1Export onClose={() => setShowGstr1(false)} />
+        )}
+
+        {/* HSN Summary Modal */}
+        {showHsnReport && (
+          <HsnReport onClose={() => setShowHsnReport(false)} />
+        )}
+
+        {/* Recurring Invoices Modal */}
+        {showRecurring && (
+          <RecurringInvoices
+            formData={formData}
+            onOpen={(record) => {
+              handleOpenRecord(record);
+              setShowRecurring(false);
+            }}
+            onClose={() => setShowRecurring(false)}
+          />
+        )}
+
+        {/* Batch Export Modal */}
+        {showBatchExport && (
+          <BatchExport
+            companies={companies}
+            onClose={() => setShowBatchExport(false)}
+          />
+        )}
+
+        {/* TDS Reconciliation Modal */}
+        {showTdsReport && (
+          <TdsReport onClose={() => setShowTdsReport(false)} />
+        )}
+
+        {/* Company Profile Modal */}
+        {showCompanySettings && (
+          <CompanySettings
+            onChanged={loadCompanies}
+            onClose={() => setShowCompanySettings(false)}
+          />
+        )}
+
+        {/* Invoice Templates Modal */}
+        {showTemplates && previewInvoice && (
+          <TemplateDesigner
+            invoice={previewInvoice}
+            company={company}
+            selectedId={template.id}
+            onChanged={loadTemplates}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
         {/* Floating Quick Actions */}
         <div className="fixed bottom-8 right-8 z-50">
           <div className="flex flex-col space-y-4">
             {/* Quick Add Item Button */}
-            <button
-              onClick={addItem}
-              className="group w-14 h-14 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-full shadow-2xl hover:shadow-3xl transition-all duration-300 transform hover:scale-110 flex items-center justify-center"
-              title="Quick Add Item"
-            >
-              <Plus className="w-6 h-6 transform group-hover:rotate-90 transition-transform duration-300" />
-            </button>
+            {!isLocked && (
+              <button
+                onClick={addItem}
+                className="group w-14 h-14 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-full shadow-2xl hover:shadow-3xl transition-all duration-300 transform hover:scale-110 flex items-center justify-center"
+                title="Quick Add Item"
+              >
+                <Plus className="w-6 h-6 transform group-hover:rotate-90 transition-transform duration-300" />
+              </button>
+            )}
 
             {/* Quick Export Button */}
             {formData.items.length > 0 && formData.billingParty.name && (
@@ -0,0 +1,360 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, FolderOpen, Trash2, Search, FileMinus, FilePlus, Download, FileSpreadsheet, Wallet, QrCode, Ban } from 'lucide-react';
+import { CompanyDetails, InvoiceRecord, InvoiceStatus, NoteRecord, Payment } from '@/types/invoice';
+import { formatCurrency, getDocumentLabels } from '@/lib/utils';
+import { listInvoiceRecords, deleteInvoiceRecord, cancelInvoiceRecord, getInvoiceNumberLabel } from '@/lib/invoice-register';
+import { listNoteRecords, NoteType } from '@/lib/credit-notes';
+import { downloadInvoicePDF } from '@/lib/pdf-export';
+import { generateInvoiceExcel } from '@/lib/excel-export';
+import { listPayments, getPaymentStatus } from '@/lib/payments';
+import { findCompany } from '@/lib/company';
+import NoteEditor from './NoteEditor';
+import PaymentManager, { PAYMENT_STATUS_STYLES } from './PaymentManager';
+import EInvoicePanel from './EInvoicePanel';
+
+export const INVOICE_STATUS_STYLES: Record<InvoiceStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-amber-100 text-amber-700' },
+  issued: { label: 'Issued', className: 'bg-green-100 text-green-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-700' }
+};
+
+interface InvoiceRegisterProps {
+  currentId: string;
+  companies: CompanyDetails[];
+  onOpen: (record: InvoiceRecord) => void;
+  onUpdated?: (record: InvoiceRecord) => void;
+  onClose: () => void;
+}
+
+export default function InvoiceRegister({ currentId, companies, onOpen, onUpdated, onClose }: InvoiceRegisterProps) {
+  const [view, setView] = useState<'invoices' | 'notes'>('invoices');
+  const [records, setRecords] = useState<InvoiceRecord[]>([]);
+  const [notes, setNotes] = useState<NoteRecord[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [noteTarget, setNoteTarget] = useState<{ record: InvoiceRecord; type: NoteType } | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<InvoiceRecord | null>(null);
+  const [eInvoiceTarget, setEInvoiceTarget] = useState<InvoiceRecord | null>(null);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState('');
+
+  const loadRecords = useCallback(() => {
+    listInvoiceRecords(statusFilter || undefined)
+      .then(setRecords)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load the invoice register'));
+  }, [statusFilter]);
+
+  const loadNotes = useCallback(() => {
+    listNoteRecords()
+      .then(setNotes)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load credit/debit notes'));
+  }, []);
+
+  const loadPayments = useCallback(() => {
+    listPayments()
+      .then(setPayments)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load payments'));
+  }, []);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  useEffect(() => {
+    loadNotes();
+  }, [loadNotes]);
+
+  const handleDelete = useCallback((record: InvoiceRecord) => {
+    if (!window.confirm(`Delete draft ${getInvoiceNumberLabel(record.invoice)} from the register?`)) return;
+    deleteInvoiceRecord(record.id)
+      .then(loadRecords)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [loadRecords]);
+
+  // The number stays taken by the cancelled invoice; an IRN has to be cancelled on the IRP separately
+  const handleCancel = useCallback((record: InvoiceRecord) => {
+    const irnNote = record.invoice.eInvoice ? '\n\nCancel its IRN on the e-invoice portal as well.' : '';
+    const reason = window.prompt(`Reason for cancelling invoice ${record.invoice.invoiceNumber}:${irnNote}`);
+    if (reason === null) return;
+    cancelInvoiceRecord(record.id, reason)
+      .then(cancelled => {
+        setError('');
+        loadRecords();
+        onUpdated?.(cancelled);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [loadRecords, onUpdated]);
+
+  const query = search.trim().toLowerCase();
+  const visibleRecords = query
+    ? records.filter(record =>
+        record.invoice.invoiceNumber.toLowerCase().includes(query) ||
+        record.invoice.billingParty.name.toLowerCase().includes(query) ||
+        record.invoice.billingParty.gstin.toLowerCase().includes(query)
+      )
+    : records;
+  const visibleNotes = query
+    ? notes.filter(record =>
+        record.note.invoiceNumber.toLowerCase().includes(query) ||
+        record.note.originalInvoice.invoiceNumber.toLowerCase().includes(query) ||
+        record.note.billingParty.name.toLowerCase().includes(query)
+      )
+    : notes;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[95vh] overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Invoice Register</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 p-4 border-b bg-gray-50">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Search by invoice number, party or GSTIN"
+            />
+          </div>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(['invoices', 'notes'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
+                  view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {option === 'invoices' ? 'Invoices' : 'Credit/Debit Notes'}
+              </button>
+            ))}
+          </div>
+          {view === 'invoices' && (
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | '')}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All invoices</option>
+              <option value="draft">Drafts</option>
+              <option value="issued">Issued</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          )}
+        </div>
+
+        <div className="p-4 overflow-y-auto max-h-[70vh]">
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {view === 'notes' ? (
+            visibleNotes.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">No credit or debit notes issued yet</p>
+            ) : (
+              <table className="w-full border-collapse border border-gray-300 text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Note No.</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Type</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Date</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Against Invoice</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Party</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Total</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleNotes.map(record => (
+                    <tr key={record.id}>
+                      <td className="border border-gray-300 px-2 py-2 font-medium">{record.note.invoiceNumber}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{getDocumentLabels(record.note).title}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{record.note.invoiceDate}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{record.note.originalInvoice.invoiceNumber}</td>
+                      <td className="border border-gray-300 px-2 py-2">{record.note.billingParty.name}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(record.note.grandTotal) || '0'}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">
+                        <div className="flex items-center justify-center space-x-2">
+                          <button
+                            onClick={() => downloadInvoicePDF(record.note, findCompany(companies, record.note.companyId))
+                              .catch(err => setError(err instanceof Error ? err.message : String(err)))}
+                            className="text-red-600 hover:text-red-800 transition-colors"
+                            title="Download PDF"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => generateInvoiceExcel(record.note, findCompany(companies, record.note.companyId))}
+                            className="text-green-600 hover:text-green-800 transition-colors"
+                            title="Download Excel"
+                          >
+                            <FileSpreadsheet className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          ) : visibleRecords.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No invoices saved yet</p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Invoice No.</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Date</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Party</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Grand Total</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Status</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Payment</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRecords.map(record => (
+                  <tr key={record.id} className={record.id === currentId ? 'bg-blue-50' : ''}>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{getInvoiceNumberLabel(record.invoice)}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{record.invoice.invoiceDate}</td>
+                    <td className="border border-gray-300 px-2 py-2">
+                      {record.invoice.billingParty.name || '—'}
+                      {companies.length > 1 && (
+                        <span className="block text-xs text-gray-500">{findCompany(companies, record.invoice.companyId).name}</span>
+                      )}
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(record.invoice.grandTotal) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${INVOICE_STATUS_STYLES[record.status].className}`}
+                        title={record.cancellationReason}
+                      >
+                        {INVOICE_STATUS_STYLES[record.status].label}
+                      </span>
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      {record.status === 'issued' ? (() => {
+                        const paymentStatus = PAYMENT_STATUS_STYLES[getPaymentStatus(record, payments, notes)];
+                        return (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${paymentStatus.className}`}>
+                            {paymentStatus.label}
+                          </span>
+                        );
+                      })() : '—'}
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => onOpen(record)}
+                          className="text-blue-600 hover:text-blue-800 transition-colors"
+                          title="Open Invoice"
+                        >
+                          <FolderOpen className="w-4 h-4" />
+                        </button>
+                        {record.status === 'issued' && (
+                          <>
+                            <button
+                              onClick={() => setPaymentTarget(record)}
+                              className="text-green-600 hover:text-green-800 transition-colors"
+                              title="Payments"
+                            >
+                              <Wallet className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setEInvoiceTarget(record)}
+                              className={`${record.invoice.eInvoice ? 'text-green-600 hover:text-green-800' : 'text-gray-600 hover:text-gray-800'} transition-colors`}
+                              title={record.invoice.eInvoice ? `IRN: ${record.invoice.eInvoice.irn}` : 'E-Invoice'}
+                            >
+                              <QrCode className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setNoteTarget({ record, type: 'credit-note' })}
+                              className="text-amber-600 hover:text-amber-800 transition-colors"
+                              title="Issue Credit Note"
+                            >
+                              <FileMinus className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setNoteTarget({ record, type: 'debit-note' })}
+                              className="text-purple-600 hover:text-purple-800 transition-colors"
+                              title="Issue Debit Note"
+                            >
+                              <FilePlus className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleCancel(record)}
+                              className="text-red-600 hover:text-red-800 transition-colors"
+                              title="Cancel Invoice"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {record.status === 'draft' && (
+                          <button
+                            onClick={() => handleDelete(record)}
+                            className="text-red-600 hover:text-red-800 transition-colors"
+                            title="Delete Draft"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {noteTarget && (
+        <NoteEditor
+          record={noteTarget.record}
+          type={noteTarget.type}
+          company={findCompany(companies, noteTarget.record.invoice.companyId)}
+          onClose={() => setNoteTarget(null)}
+          onIssued={loadNotes}
+        />
+      )}
+
+      {paymentTarget && (
+        <PaymentManager
+          record={paymentTarget}
+          company={findCompany(companies, paymentTarget.invoice.companyId)}
+          onClose={() => setPaymentTarget(null)}
+          onChanged={() => {
+            loadPayments();
+            loadNotes();
+          }}
+        />
+      )}
+
+      {eInvoiceTarget && (
+        <EInvoicePanel
+          record={eInvoiceTarget}
+          company={findCompany(companies, eInvoiceTarget.invoice.companyId)}
+          onClose={() => setEInvoiceTarget(null)}
+          onRegistered={(record) => {
+            loadRecords();
+            onUpdated?.(record);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useState, useCallback, useEffect } from 'react';
+import { X, CheckCircle } from 'lucide-react';
+import { CompanyDetails, InvoiceRecord } from '@/types/invoice';
+import { formatCurrency, getDocumentLabels } from '@/lib/utils';
+import { buildNote, getCreditableAmounts, issueNote, NoteInput, NoteType } from '@/lib/credit-notes';
+import { downloadInvoicePDF } from '@/lib/pdf-export';
+import { getTaxLines } from '@/lib/tax-rates';
+import { getTaxableItems } from '@/lib/discounts';
+
+interface NoteEditorProps {
+  record: InvoiceRecord;
+  type: NoteType;
+  company: CompanyDetails;
+  onClose: () => void;
+  onIssued: () => void;
+}
+
+export default function NoteEditor({ record, type, company, onClose, onIssued }: NoteEditorProps) {
+  // Selected item ids mapped to the amount being credited/debited
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [noteDate, setNoteDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  // Per line, the taxable value not yet reversed by earlier credit notes
+  const [creditable, setCreditable] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    if (type !== 'credit-note') return;
+    getCreditableAmounts(record)
+      .then(setCreditable)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [record, type]);
+
+  const labels = getDocumentLabels({ documentType: type });
+  const input: NoteInput = {
+    type,
+    original: record,
+    lines: Object.entries(amounts).map(([itemId, amount]) => ({ itemId, amount: Number(amount) })),
+    noteDate,
+    reason
+  };
+  const preview = buildNote(input, '');
+
+  const toggleItem = useCallback((itemId: string, taxableValue: number) => {
+    setAmounts(prev => {
+      const next = { ...prev };
+      if (itemId in next) {
+        delete next[itemId];
+      } else {
+        // Credit notes default to reversing what is left of the line's taxable value
+        next[itemId] = type === 'credit-note' ? String(creditable.get(itemId) ?? taxableValue) : '';
+      }
+      return next;
+    });
+  }, [type, creditable]);
+
+  const handleIssue = () => {
+    issueNote(input)
+      .then(noteRecord => {
+        onIssued();
+        return downloadInvoicePDF(noteRecord.note, company).then(onClose);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">
+            {labels.title} against {record.invoice.invoiceNumber}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{labels.date}</label>
+              <input
+                type="date"
+                value={noteDate}
+                onChange={(e) => setNoteDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={type === 'credit-note' ? 'e.g., Display cut short by 10 days' : 'e.g., Display extended by 7 days'}
+              />
+            </div>
+          </div>
+
+          <table className="w-full border-collapse border border-gray-300 text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700"></th>
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">S.No.</th>
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Town</th>
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Location</th>
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Period</th>
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Taxable Value</th>
+                <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">
+                  {type === 'credit-note' ? 'Credit Amount' : 'Debit Amount'}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {getTaxableItems(record.invoice).map(item => (
+                <tr key={item.id} className={item.id in amounts ? 'bg-blue-50' : ''}>
+                  <td className="border border-gray-300 px-2 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={item.id in amounts}
+                      onChange={() => toggleItem(item.id, item.amount)}
+                    />
+                  </td>
+                  <td className="border border-gray-300 px-2 py-2 text-center">{item.sno}</td>
+                  <td className="border border-gray-300 px-2 py-2">{item.town}</td>
+                  <td className="border border-gray-300 px-2 py-2">{item.location}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-center">{item.period}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(item.amount)}</td>
+                  <td className="border border-gray-300 px-2 py-2">
+                    <input
+                      type="number"
+                      value={amounts[item.id] ?? ''}
+                      onChange={(e) => setAmounts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      disabled={!(item.id in amounts)}
+                      className="w-full px-2 py-1 text-sm border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-right disabled:bg-gray-50"
+                      min="0"
+                      step="0.01"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="ml-auto max-w-sm space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Taxable Value:</span>
+              <span className="font-medium">{formatCurrency(preview.subtotal) || '0'}</span>
+            </div>
+            {getTaxLines(preview).map(line => (
+              <div key={line.label} className="flex justify-between">
+                <span className="text-gray-600">{line.label}:</span>
+                <span className="font-medium">{formatCurrency(line.amount) || '0'}</span>
+              </div>
+            ))}
+            {!!preview.roundOff && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Round Off:</span>
+                <span className="font-medium">{formatCurrency(preview.roundOff)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-2 text-base font-bold">
+              <span>Note Total:</span>
+              <span className="text-blue-600">{formatCurrency(preview.grandTotal) || '0'}</span>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleIssue}
+            disabled={input.lines.length === 0}
+            className="flex items-center px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Issue {labels.title} &amp; Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
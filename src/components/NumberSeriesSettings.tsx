@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Save } from 'lucide-react';
+import { NumberSeries } from '@/types/invoice';
+import { getNumberSeries, saveNumberSeries, getFinancialYear, formatSeriesNumber, INVOICE_SERIES_ID } from '@/lib/invoice-numbering';
+
+interface NumberSeriesSettingsProps {
+  invoiceDate: string;
+  seriesId?: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function NumberSeriesSettings({ invoiceDate, seriesId = INVOICE_SERIES_ID, onClose, onSaved }: NumberSeriesSettingsProps) {
+  const [series, setSeries] = useState<NumberSeries | null>(null);
+  const [error, setError] = useState('');
+  const financialYear = getFinancialYear(invoiceDate);
+
+  useEffect(() => {
+    getNumberSeries(seriesId).then(setSeries).catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [seriesId]);
+
+  const handleSave = useCallback(() => {
+    if (!series) return;
+    saveNumberSeries(series)
+      .then(() => {
+        onSaved();
+        onClose();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [series, onSaved, onClose]);
+
+  if (!series) return null;
+
+  const lastIssued = series.counters[financialYear] || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-lg w-full overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Invoice Number Series</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Number Format <span className="text-xs text-gray-500">({'{FY}'} = financial year, {'{SEQ}'} = sequence)</span>
+            </label>
+            <input
+              type="text"
+              value={series.format}
+              onChange={(e) => setSeries({ ...series, format: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="DA/{FY}/{SEQ}"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Sequence Digits
+              </label>
+              <input
+                type="number"
+                value={series.padding}
+                onChange={(e) => setSeries({ ...series, padding: Math.max(1, Number(e.target.value)) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="1"
+                max="8"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Last Issued in FY {financialYear}
+              </label>
+              <input
+                type="number"
+                value={lastIssued}
+                onChange={(e) => setSeries({
+                  ...series,
+                  counters: { ...series.counters, [financialYear]: Math.max(0, Number(e.target.value)) }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Next number: <span className="font-semibold">{formatSeriesNumber(series, financialYear, lastIssued + 1)}</span>
+          </p>
+          <p className="text-xs text-gray-500">The sequence restarts from 1 on 1 April of every financial year.</p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2 inline" />
+            Save Series
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Trash2, Receipt, IndianRupee, Percent } from 'lucide-react';
+import { CompanyDetails, InvoiceRecord, NoteRecord, Payment, PaymentMode, PaymentStatus } from '@/types/invoice';
+import { formatCurrency } from '@/lib/utils';
+import { listPayments, recordPayment, deletePayment, getInvoiceBalance, getPaymentStatus, getDueDate, PAYMENT_MODES } from '@/lib/payments';
+import { listNoteRecords } from '@/lib/credit-notes';
+import { calculateInterest, issueInterestNote } from '@/lib/interest';
+import { generateReceiptPDF } from '@/lib/receipt-pdf';
+import { downloadInvoicePDF } from '@/lib/pdf-export';
+import { getExpectedTds } from '@/lib/tds';
+
+interface PaymentManagerProps {
+  record: InvoiceRecord;
+  company: CompanyDetails;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const PAYMENT_STATUS_STYLES: Record<PaymentStatus, { label: string; className: string }> = {
+  unpaid: { label: 'Unpaid', className: 'bg-gray-100 text-gray-700' },
+  partial: { label: 'Partial', className: 'bg-blue-100 text-blue-700' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-700' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-700' }
+};
+
+export default function PaymentManager({ record, company, onClose, onChanged }: PaymentManagerProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [notes, setNotes] = useState<NoteRecord[]>([]);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [amount, setAmount] = useState('');
+  const [tdsDeducted, setTdsDeducted] = useState('');
+  const [mode, setMode] = useState<PaymentMode>('NEFT');
+  const [reference, setReference] = useState('');
+  const [bank, setBank] = useState('');
+  const [interestDate, setInterestDate] = useState(new Date().toISOString().split('T')[0]);
+  const [error, setError] = useState('');
+
+  const loadPayments = useCallback(() => {
+    Promise.all([listPayments(record.id), listNoteRecords(record.id)])
+      .then(([loadedPayments, loadedNotes]) => {
+        setPayments(loadedPayments);
+        setNotes(loadedNotes);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load payments'));
+  }, [record.id]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const handleRecord = useCallback(() => {
+    recordPayment(record, {
+      invoiceRecordId: record.id,
+      date,
+      amount: Number(amount) || 0,
+      tdsDeducted: Number(tdsDeducted) || 0,
+      mode,
+      reference,
+      bank: bank.trim() || undefined
+    })
+      .then(payment => {
+        setAmount('');
+        setTdsDeducted('');
+        setReference('');
+        setBank('');
+        setError('');
+        loadPayments();
+        onChanged();
+        return generateReceiptPDF(payment, record.invoice, company);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [record, company, date, amount, tdsDeducted, mode, reference, bank, loadPayments, onChanged]);
+
+  const handleDelete = useCallback((payment: Payment) => {
+    if (!window.confirm(`Delete receipt ${payment.receiptNumber}?`)) return;
+    deletePayment(payment.id).then(() => {
+      loadPayments();
+      onChanged();
+    });
+  }, [loadPayments, onChanged]);
+
+  const handleChargeInterest = useCallback(() => {
+    issueInterestNote(record, interestDate)
+      .then(noteRecord => {
+        setError('');
+        loadPayments();
+        onChanged();
+        return downloadInvoicePDF(noteRecord.note, company);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [record, company, interestDate, loadPayments, onChanged]);
+
+  const balance = getInvoiceBalance(record, payments, notes);
+  const interest = calculateInterest(record, payments, notes, interestDate);
+  const status = PAYMENT_STATUS_STYLES[getPaymentStatus(record, payments, notes)];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Payments for {record.invoice.invoiceNumber}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-500">Billed</p>
+              <p className="text-lg font-bold">{formatCurrency(balance.billed + balance.debited - balance.credited) || '0'}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-500">{balance.advance ? 'Advance + Received + TDS' : 'Received + TDS'}</p>
+              <p className="text-lg font-bold">{formatCurrency(balance.advance + balance.received + balance.tds) || '0'}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-500">Outstanding</p>
+              <p className="text-lg font-bold text-blue-600">{formatCurrency(balance.outstanding) || '0'}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-500">Due {getDueDate(record.invoice)}</p>
+              <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+          </div>
+
+          {interest.periods.length > 0 && (
+            <div className="p-4 border border-amber-200 bg-amber-50 rounded-lg">
+              <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-800">Late-Payment Interest @ {interest.rate}% p.a.</h3>
+                  <p className="text-sm text-gray-600">Calculated day-wise from {interest.from}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Up to</label>
+                  <input
+                    type="date"
+                    value={interestDate}
+                    onChange={(e) => setInterestDate(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <table className="w-full border-collapse border border-gray-300 text-sm bg-white">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">From</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">To</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Days</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Overdue Balance</th>
+                    <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Interest</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {interest.periods.map(period => (
+                    <tr key={period.from}>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{period.from}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{period.to}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{period.days}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(period.balance) || '0'}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-right">{period.interest.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-between items-center mt-4">
+                <p className="font-semibold">Interest: {formatCurrency(interest.interest) || '0'} + GST</p>
+                <button
+                  onClick={handleChargeInterest}
+                  disabled={interest.interest <= 0}
+                  className="flex items-center px-6 py-2 text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Percent className="w-4 h-4 mr-2" />
+                  Raise Interest Debit Note
+                </button>
+              </div>
+            </div>
+          )}
+
+          {balance.outstanding > 0 && (
+            <div className="p-4 border border-green-200 bg-green-50 rounded-lg">
+              <h3 className="font-semibold text-gray-800 mb-3">Record Payment</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Amount Received</label>
+                  <input
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">TDS Deducted</label>
+                  <input
+                    type="number"
+                    value={tdsDeducted}
+                    onChange={(e) => setTdsDeducted(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    placeholder={record.invoice.tds ? String(getExpectedTds(record.invoice)) : undefined}
+                  />
+                  {record.invoice.tds && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Expected u/s {record.invoice.tds.section} @ {record.invoice.tds.rate}%: {formatCurrency(getExpectedTds(record.invoice)) || '0'}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+                  <select
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value as PaymentMode)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {PAYMENT_MODES.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {mode === 'Cheque' ? 'Cheque No.' : mode === 'NEFT' ? 'UTR No.' : 'UPI Ref.'}
+                  </label>
+                  <input
+                    type="text"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Bank</label>
+                  <input
+                    type="text"
+                    value={bank}
+                    onChange={(e) => setBank(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+              <div className="flex justify-end mt-4">
+                <button
+                  onClick={handleRecord}
+                  className="flex items-center px-6 py-2 text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors"
+                >
+                  <IndianRupee className="w-4 h-4 mr-2" />
+                  Record &amp; Print Receipt
+                </button>
+              </div>
+            </div>
+          )}
+
+          {payments.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No payments recorded yet</p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Receipt No.</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Date</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Mode</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Reference</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Amount</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">TDS</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payments.map(payment => (
+                  <tr key={payment.id}>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{payment.receiptNumber}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{payment.date}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{payment.mode}</td>
+                    <td className="border border-gray-300 px-2 py-2">{payment.reference}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(payment.amount) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(payment.tdsDeducted) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => generateReceiptPDF(payment, record.invoice, company)
+                            .catch(err => setError(err instanceof Error ? err.message : String(err)))}
+                          className="text-blue-600 hover:text-blue-800 transition-colors"
+                          title="Print Receipt"
+                        >
+                          <Receipt className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(payment)}
+                          className="text-red-600 hover:text-red-800 transition-colors"
+                          title="Delete Payment"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
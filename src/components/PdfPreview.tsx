@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
+import { CompanyDetails, Invoice, InvoiceTemplate } from '@/types/invoice';
+import { renderInvoicePDF, toPdfBlob } from '@/lib/pdf-export';
+import { renderPdfThumbnails } from '@/lib/pdf-thumbnails';
+import { STANDARD_TEMPLATE } from '@/lib/invoice-templates';
+import InvoicePreview from './InvoicePreview';
+
+interface PdfPreviewProps {
+  invoice: Invoice;
+  company: CompanyDetails;
+  template?: InvoiceTemplate;
+}
+
+interface RenderedPreview {
+  url: string;
+  pageCount: number;
+  thumbnails: string[]; // One image per page; empty when they could not be drawn
+}
+
+type Zoom = 'fit' | number;
+
+// The PDF is rebuilt this long after the last change, so typing doesn't redraw it on every key
+const PREVIEW_DELAY_MS = 500;
+const ZOOM_LEVELS = [50, 75, 100, 125, 150, 200];
+// Thumbnails are drawn at twice the strip's width so they stay sharp on high-density screens
+const THUMBNAIL_WIDTH_PX = 224;
+
+// Open parameters understood by the browsers' built-in viewers (Chrome, Edge and Firefox's pdf.js)
+function getViewerUrl(url: string, page: number, zoom: Zoom): string {
+  const view = zoom === 'fit' ? 'view=Fit&zoom=page-fit' : `zoom=${zoom}`;
+  return `${url}#page=${page}&${view}`;
+}
+
+export default function PdfPreview({ invoice, company, template = STANDARD_TEMPLATE }: PdfPreviewProps) {
+  const [pdf, setPdf] = useState<RenderedPreview | null>(null);
+  const [error, setError] = useState('');
+  const [isRendering, setIsRendering] = useState(true);
+  const [page, setPage] = useState(1);
+  const [zoom, setZoom] = useState<Zoom>('fit');
+  // Browsers without an inline PDF viewer (most phones) get the HTML layout instead
+  const [canEmbed] = useState(() => typeof navigator === 'undefined' || navigator.pdfViewerEnabled !== false);
+
+  // The same PDF the download produces, rebuilt once the form has been still for a moment. The page strip is
+  // drawn from the same bytes as images, so only the main viewer reloads
+  useEffect(() => {
+    if (!canEmbed) return;
+    let cancelled = false;
+    setIsRendering(true);
+    const timer = setTimeout(() => {
+      renderInvoicePDF(invoice, company, template)
+        .then(async ({ bytes, pageCount }) => {
+          const thumbnails = await renderPdfThumbnails(bytes, THUMBNAIL_WIDTH_PX).catch(err => {
+            console.warn('Could not draw page thumbnails', err);
+            return [];
+          });
+          if (cancelled) return;
+          setPdf({ url: URL.createObjectURL(toPdfBlob(bytes)), pageCount, thumbnails });
+          setPage(prev => Math.min(prev, pageCount));
+          setError('');
+        })
+        .catch(err => {
+          if (!cancelled) setError(`Could not render the PDF: ${err instanceof Error ? err.message : err}`);
+        })
+        .finally(() => {
+          if (!cancelled) setIsRendering(false);
+        });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [canEmbed, invoice, company, template]);
+
+  // Each render's object URL is released once it is replaced or the preview closes
+  useEffect(() => {
+    if (!pdf) return;
+    return () => URL.revokeObjectURL(pdf.url);
+  }, [pdf]);
+
+  const stepZoom = useCallback((direction: 1 | -1) => {
+    setZoom(prev => {
+      const current = prev === 'fit' ? 100 : prev;
+      const next = direction > 0
+        ? ZOOM_LEVELS.find(level => level > current)
+        : [...ZOOM_LEVELS].reverse().find(level => level < current);
+      return next ?? current;
+    });
+  }, []);
+
+  if (!canEmbed) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600 bg-gray-50 border rounded-md p-2">
+          This browser can&apos;t show PDFs inline, so the invoice layout is shown instead. The download is the real PDF.
+        </p>
+        <InvoicePreview invoice={invoice} company={company} template={template} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-gray-600">
+          {pdf ? `Page ${page} of ${pdf.pageCount}` : 'Rendering…'}
+        </span>
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={() => stepZoom(-1)}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-100"
+            title="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <select
+            value={zoom}
+            onChange={(e) => setZoom(e.target.value === 'fit' ? 'fit' : Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="fit">Fit page</option>
+            {ZOOM_LEVELS.map(level => <option key={level} value={level}>{level}%</option>)}
+          </select>
+          <button
+            onClick={() => stepZoom(1)}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-100"
+            title="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+        </div>
+        {isRendering && (
+          <span className="flex items-center gap-1 text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" /> Updating
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>}
+
+      {pdf && (
+        <div className="flex gap-3 flex-1 min-h-0">
+          {/* Page thumbnails */}
+          <div className="w-32 shrink-0 overflow-y-auto space-y-2 pr-1">
+            {Array.from({ length: pdf.pageCount }, (_, index) => index + 1).map(number => (
+              <button
+                key={number}
+                onClick={() => setPage(number)}
+                className={`block w-full border-2 rounded-md overflow-hidden ${number === page ? 'border-blue-600' : 'border-gray-200 hover:border-gray-400'}`}
+              >
+                {pdf.thumbnails[number - 1] ? (
+                  <Image
+                    src={pdf.thumbnails[number - 1]}
+                    alt={`Page ${number}`}
+                    width={THUMBNAIL_WIDTH_PX / 2}
+                    height={Math.round((THUMBNAIL_WIDTH_PX / 2) * Math.SQRT2)}
+                    unoptimized
+                    className="w-full h-auto bg-white"
+                  />
+                ) : (
+                  <div className="w-full h-40 bg-white" />
+                )}
+                <span className="block text-xs text-gray-600 py-0.5">{number}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Keyed on the page and zoom so the viewer reopens at them */}
+          <iframe
+            key={getViewerUrl(pdf.url, page, zoom)}
+            src={getViewerUrl(pdf.url, page, zoom)}
+            title="Invoice PDF"
+            className="flex-1 min-h-[60vh] border rounded-md bg-gray-100"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { getQrMatrix } from '@/lib/e-invoice';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+export default function QrCode({ value, size = 120, className }: QrCodeProps) {
+  // One path for all dark modules keeps the SVG light even for the long signed e-invoice token
+  const { count, path } = useMemo(() => {
+    const matrix = getQrMatrix(value);
+    const segments: string[] = [];
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) segments.push(`M${x} ${y}h1v1h-1z`);
+    }));
+    return { count: matrix.length, path: segments.join('') };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`-2 -2 ${count + 4} ${count + 4}`}
+      shapeRendering="crispEdges"
+      className={className}
+    >
+      <rect x={-2} y={-2} width={count + 4} height={count + 4} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
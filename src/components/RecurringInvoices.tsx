@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Plus, FilePlus, Trash2 } from 'lucide-react';
+import { InvoiceFormData, InvoiceRecord, RecurringTemplate } from '@/types/invoice';
+import { calculatePeriodFromDates } from '@/lib/utils';
+import {
+  listRecurringTemplates,
+  createRecurringTemplate,
+  saveRecurringTemplate,
+  deleteRecurringTemplate,
+  generateRecurringInvoice,
+  getNextCycle
+} from '@/lib/recurring-invoices';
+
+interface RecurringInvoicesProps {
+  formData: InvoiceFormData;
+  onOpen: (record: InvoiceRecord) => void;
+  onClose: () => void;
+}
+
+export default function RecurringInvoices({ formData, onOpen, onClose }: RecurringInvoicesProps) {
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [name, setName] = useState(formData.displayName || formData.billingParty.name);
+  const [endDate, setEndDate] = useState('');
+  const [autoGenerate, setAutoGenerate] = useState(true);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadTemplates = useCallback(() => {
+    listRecurringTemplates()
+      .then(setTemplates)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load recurring templates'));
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleCreate = useCallback(() => {
+    setError('');
+    createRecurringTemplate(formData, { name, endDate, autoGenerate })
+      .then(template => {
+        setMessage(`${template.name} will be billed again from ${template.nextStartDate}`);
+        loadTemplates();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [formData, name, endDate, autoGenerate, loadTemplates]);
+
+  // The new draft opens in the form for review before it is issued
+  const handleGenerate = useCallback((template: RecurringTemplate) => {
+    setError('');
+    generateRecurringInvoice(template.id)
+      .then(onOpen)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [onOpen]);
+
+  const handleToggleAuto = useCallback((template: RecurringTemplate) => {
+    saveRecurringTemplate({ ...template, autoGenerate: !template.autoGenerate })
+      .then(loadTemplates)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [loadTemplates]);
+
+  const handleDelete = useCallback((template: RecurringTemplate) => {
+    if (!window.confirm(`Stop billing ${template.name}? Drafts already created stay in the register.`)) return;
+    deleteRecurringTemplate(template.id).then(loadTemplates);
+  }, [loadTemplates]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Recurring Invoices</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4 p-4 border-b bg-gray-50">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Bill the current invoice again as</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Campaign name"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Campaign Ends</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700 py-2">
+            <input
+              type="checkbox"
+              checked={autoGenerate}
+              onChange={(e) => setAutoGenerate(e.target.checked)}
+              className="mr-2"
+            />
+            Draft automatically when due
+          </label>
+          <button
+            onClick={handleCreate}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Save as Template
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {message && <p className="text-sm text-blue-700 mb-4">{message}</p>}
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {templates.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No recurring invoices yet</p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Campaign</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Client</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Sites</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Next Period</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Ends</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Auto</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Drafted</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map(template => {
+                  const cycle = getNextCycle(template);
+                  return (
+                    <tr key={template.id} className={template.active ? '' : 'text-gray-400'}>
+                      <td className="border border-gray-300 px-2 py-2 font-medium">{template.name}</td>
+                      <td className="border border-gray-300 px-2 py-2">{template.formData.billingParty.name}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{template.formData.items.length}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">
+                        {cycle ? calculatePeriodFromDates(cycle.startDate, cycle.duration) : 'Completed'}
+                      </td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{template.endDate || '—'}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={template.autoGenerate}
+                          onChange={() => handleToggleAuto(template)}
+                          disabled={!template.active}
+                        />
+                      </td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">{template.generatedRecordIds.length}</td>
+                      <td className="border border-gray-300 px-2 py-2 text-center">
+                        <div className="flex items-center justify-center space-x-2">
+                          <button
+                            onClick={() => handleGenerate(template)}
+                            disabled={!cycle}
+                            className="text-green-600 hover:text-green-800 disabled:text-gray-300 transition-colors"
+                            title="Draft the Next Invoice Now"
+                          >
+                            <FilePlus className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(template)}
+                            className="text-red-600 hover:text-red-800 transition-colors"
+                            title="Delete Template"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Search, Plus, Pencil, Trash2, ListPlus } from 'lucide-react';
+import { HoardingSite } from '@/types/invoice';
+import { formatCurrency, GST_STATE_CODES } from '@/lib/utils';
+import { listSites, saveSite, deleteSite, getCampaigns, formatSiteSize, ILLUMINATION_TYPES } from '@/lib/site-inventory';
+
+interface SiteInventoryProps {
+  onAddSites: (sites: HoardingSite[]) => void;
+  onClose: () => void;
+}
+
+const createEmptySite = (): HoardingSite => ({
+  id: Date.now().toString(),
+  siteCode: '',
+  town: '',
+  location: '',
+  media: 'Hoarding',
+  width: 0,
+  height: 0,
+  illumination: 'Non-Lit',
+  ratePM: 0,
+  hsn: '998366', // Default HSN for advertising services
+  campaign: ''
+});
+
+export default function SiteInventory({ onAddSites, onClose }: SiteInventoryProps) {
+  const [sites, setSites] = useState<HoardingSite[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<HoardingSite | null>(null);
+  const [error, setError] = useState('');
+
+  const loadSites = useCallback(() => {
+    listSites()
+      .then(setSites)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load sites'));
+  }, []);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  const toggleSite = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Bulk-select every site booked under a campaign
+  const selectCampaign = useCallback((campaign: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      sites.filter(site => site.campaign === campaign).forEach(site => next.add(site.id));
+      return next;
+    });
+  }, [sites]);
+
+  const handleSave = useCallback(() => {
+    if (!editing) return;
+    saveSite(editing)
+      .then(() => {
+        setEditing(null);
+        setError('');
+        loadSites();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [editing, loadSites]);
+
+  const handleDelete = useCallback((site: HoardingSite) => {
+    if (!window.confirm(`Delete site ${site.siteCode}?`)) return;
+    deleteSite(site.id).then(loadSites);
+  }, [loadSites]);
+
+  const handleAddSelected = useCallback(() => {
+    onAddSites(sites.filter(site => selectedIds.has(site.id)));
+  }, [sites, selectedIds, onAddSites]);
+
+  const query = search.trim().toLowerCase();
+  const visibleSites = query
+    ? sites.filter(site =>
+        site.siteCode.toLowerCase().includes(query) ||
+        site.town.toLowerCase().includes(query) ||
+        site.location.toLowerCase().includes(query) ||
+        (site.campaign || '').toLowerCase().includes(query)
+      )
+    : sites;
+  const campaigns = getCampaigns(sites);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Site Inventory</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3 p-4 border-b bg-gray-50">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Search by site code, town, location or campaign"
+            />
+          </div>
+          <select
+            value=""
+            onChange={(e) => e.target.value && selectCampaign(e.target.value)}
+            disabled={campaigns.length === 0}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Select campaign sites...</option>
+            {campaigns.map(campaign => (
+              <option key={campaign} value={campaign}>{campaign}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setEditing(createEmptySite())}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Site
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {editing && (
+            <div className="mb-6 p-4 border border-blue-200 bg-blue-50 rounded-lg">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Site Code *</label>
+                  <input
+                    type="text"
+                    value={editing.siteCode}
+                    onChange={(e) => setEditing({ ...editing, siteCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="RPR-001"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Town</label>
+                  <input
+                    type="text"
+                    value={editing.town}
+                    onChange={(e) => setEditing({ ...editing, town: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                  <select
+                    value={editing.state || ''}
+                    onChange={(e) => setEditing({ ...editing, state: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select State</option>
+                    {Object.values(GST_STATE_CODES).map(({ state }) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                  <input
+                    type="text"
+                    value={editing.location}
+                    onChange={(e) => setEditing({ ...editing, location: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Media</label>
+                  <input
+                    type="text"
+                    value={editing.media}
+                    onChange={(e) => setEditing({ ...editing, media: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Width (ft)</label>
+                  <input
+                    type="number"
+                    value={editing.width}
+                    onChange={(e) => setEditing({ ...editing, width: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Height (ft)</label>
+                  <input
+                    type="number"
+                    value={editing.height}
+                    onChange={(e) => setEditing({ ...editing, height: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Illumination</label>
+                  <select
+                    value={editing.illumination}
+                    onChange={(e) => setEditing({ ...editing, illumination: e.target.value as HoardingSite['illumination'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ILLUMINATION_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rate P.M.</label>
+                  <input
+                    type="number"
+                    value={editing.ratePM}
+                    onChange={(e) => setEditing({ ...editing, ratePM: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Campaign</label>
+                  <input
+                    type="text"
+                    value={editing.campaign || ''}
+                    onChange={(e) => setEditing({ ...editing, campaign: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g., MSP STEEL 2026"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3 mt-4">
+                <button
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Save Site
+                </button>
+              </div>
+            </div>
+          )}
+
+          {visibleSites.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No sites in the inventory</p>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700"></th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Site Code</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Town</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Location</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Size</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Type</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Rate P.M.</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Campaign</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleSites.map(site => (
+                  <tr key={site.id} className={selectedIds.has(site.id) ? 'bg-blue-50' : ''}>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(site.id)}
+                        onChange={() => toggleSite(site.id)}
+                      />
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{site.siteCode}</td>
+                    <td className="border border-gray-300 px-2 py-2">
+                      {site.town}
+                      {site.state && <span className="block text-xs text-gray-500">{site.state}</span>}
+                    </td>
+                    <td className="border border-gray-300 px-2 py-2">{site.location}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{formatSiteSize(site)}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{site.illumination}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(site.ratePM)}</td>
+                    <td className="border border-gray-300 px-2 py-2">{site.campaign}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => setEditing({ ...site })}
+                          className="text-blue-600 hover:text-blue-800 transition-colors"
+                          title="Edit Site"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(site)}
+                          className="text-red-600 hover:text-red-800 transition-colors"
+                          title="Delete Site"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center gap-4 p-6 border-t bg-gray-50">
+          <span className="text-sm text-gray-600">{selectedIds.size} site{selectedIds.size === 1 ? '' : 's'} selected</span>
+          <button
+            onClick={handleAddSelected}
+            disabled={selectedIds.size === 0}
+            className="flex items-center px-6 py-2 text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <ListPlus className="w-4 h-4 mr-2" />
+            Add to Invoice
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, FileSpreadsheet, Upload } from 'lucide-react';
+import { CompanyDetails } from '@/types/invoice';
+import { formatCurrency } from '@/lib/utils';
+import { listCompanies, COMPANY_PROFILE_ID } from '@/lib/company';
+import { TdsReport as TdsReportData, loadTdsReport, exportTdsReportExcel, importTdsStatement, listRecentQuarters } from '@/lib/tds';
+
+interface TdsReportProps {
+  onClose: () => void;
+}
+
+const QUARTERS = listRecentQuarters(8);
+
+export default function TdsReport({ onClose }: TdsReportProps) {
+  const [quarter, setQuarter] = useState(QUARTERS[0]);
+  const [companies, setCompanies] = useState<CompanyDetails[]>([]);
+  const [companyId, setCompanyId] = useState(COMPANY_PROFILE_ID);
+  const [report, setReport] = useState<TdsReportData | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [version, setVersion] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listCompanies()
+      .then(setCompanies)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load companies'));
+  }, []);
+
+  useEffect(() => {
+    loadTdsReport(quarter, companyId)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not build the TDS reconciliation'));
+  }, [quarter, companyId, version]);
+
+  // Form 26AS is per PAN, so entries are filed under the company selected when importing
+  const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    importTdsStatement(file, companyId)
+      .then(count => {
+        setMessage(`Imported ${count} TDS entr${count === 1 ? 'y' : 'ies'} from ${file.name}`);
+        setVersion(v => v + 1);
+      })
+      .catch(err => setError(`Import failed: ${err instanceof Error ? err.message : err}`));
+  }, [companyId]);
+
+  const differenceClass = (difference: number) => (difference === 0 ? '' : difference > 0 ? 'text-red-600' : 'text-orange-600');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">TDS Reconciliation</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4 p-4 border-b bg-gray-50">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quarter</label>
+            <select
+              value={quarter}
+              onChange={(e) => setQuarter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {QUARTERS.map(q => (
+                <option key={q} value={q}>{q}</option>
+              ))}
+            </select>
+          </div>
+          {companies.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Company</label>
+              <select
+                value={companyId}
+                onChange={(e) => setCompanyId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {companies.map(company => (
+                  <option key={company.id} value={company.id}>{company.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex-1 text-sm text-gray-500">
+            {report && `${report.from} to ${report.to}`}
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import 26AS/AIS
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.xlsx,.xls"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => report && exportTdsReportExcel(report)}
+            disabled={!report || report.rows.length === 0}
+            className="flex items-center px-4 py-2 text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Export Excel
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {message && <p className="text-sm text-blue-700 mb-4">{message}</p>}
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {report && report.rows.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No TDS expected or reported in {quarter}</p>
+          ) : report && (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Deductor</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">TAN</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Section</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Invoices</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Expected TDS</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Deducted per Receipts</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Reported in 26AS/AIS</th>
+                  <th className="border border-gray-300 px-2 py-2 text-xs font-medium text-gray-700">Difference</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.key}>
+                    <td className="border border-gray-300 px-2 py-2 font-medium">{row.name}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{row.tan || '—'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{row.section || '—'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-center">{row.invoiceCount}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.expected) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.deducted) || '0'}</td>
+                    <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(row.reported) || '0'}</td>
+                    <td className={`border border-gray-300 px-2 py-2 text-right font-medium ${differenceClass(row.difference)}`}>
+                      {formatCurrency(row.difference) || '0'}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-bold">
+                  <td className="border border-gray-300 px-2 py-2" colSpan={4}>Total</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.expected) || '0'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.deducted) || '0'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">{formatCurrency(report.totals.reported) || '0'}</td>
+                  <td className={`border border-gray-300 px-2 py-2 text-right ${differenceClass(report.totals.difference)}`}>
+                    {formatCurrency(report.totals.difference) || '0'}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-gray-500 mt-4">
+            A positive difference is TDS the client should have reported against our PAN but has not yet; follow it up before filing the return.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
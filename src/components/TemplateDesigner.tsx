@@ -0,0 +1,461 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { X, Save, Copy, Trash2, Upload, ArrowUp, ArrowDown, Plus } from 'lucide-react';
+import { CompanyDetails, Invoice, InvoiceTemplate, ItemColumnKey, TemplateBlock } from '@/types/invoice';
+import { readImageFile } from '@/lib/company';
+import {
+  listInvoiceTemplates,
+  saveInvoiceTemplate,
+  deleteInvoiceTemplate,
+  copyInvoiceTemplate,
+  normalizeColumnWidths,
+  validateTemplate,
+  ITEM_COLUMN_LABELS,
+  TEMPLATE_BLOCK_LABELS,
+  TEMPLATE_FONTS,
+  STANDARD_TEMPLATE,
+  BUILT_IN_TEMPLATES
+} from '@/lib/invoice-templates';
+import PdfPreview from './PdfPreview';
+
+interface TemplateDesignerProps {
+  invoice: Invoice; // Previewed in each layout, so the designer shows the invoice being worked on
+  company: CompanyDetails;
+  selectedId?: string;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+type ImageField = 'headerImage' | 'footerImage';
+
+const IMAGE_FIELDS: { field: ImageField; label: string }[] = [
+  { field: 'headerImage', label: 'Header Image' },
+  { field: 'footerImage', label: 'Footer Image' }
+];
+
+// Width a new column starts with, before the widths are evened out again
+const NEW_COLUMN_WIDTH = 0.08;
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+export default function TemplateDesigner({ invoice, company, selectedId, onChanged, onClose }: TemplateDesignerProps) {
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>(BUILT_IN_TEMPLATES);
+  const [template, setTemplate] = useState<InvoiceTemplate>(STANDARD_TEMPLATE);
+  const [error, setError] = useState('');
+
+  const loadTemplates = useCallback((selectId?: string) => {
+    listInvoiceTemplates()
+      .then(loaded => {
+        setTemplates(loaded);
+        setTemplate(loaded.find(option => option.id === selectId) || STANDARD_TEMPLATE);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  useEffect(() => {
+    loadTemplates(selectedId);
+  }, [loadTemplates, selectedId]);
+
+  const selectTemplate = useCallback((selected: InvoiceTemplate) => {
+    setTemplate(selected);
+    setError('');
+  }, []);
+
+  const update = useCallback((changes: Partial<InvoiceTemplate>) => {
+    setTemplate(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const updateColumn = useCallback((index: number, changes: { label?: string; width?: number }) => {
+    setTemplate(prev => ({
+      ...prev,
+      columns: prev.columns.map((col, i) => (i === index ? { ...col, ...changes } : col))
+    }));
+  }, []);
+
+  const moveColumn = useCallback((index: number, direction: 1 | -1) => {
+    setTemplate(prev => {
+      const columns = [...prev.columns];
+      [columns[index], columns[index + direction]] = [columns[index + direction], columns[index]];
+      return { ...prev, columns };
+    });
+  }, []);
+
+  const removeColumn = useCallback((index: number) => {
+    setTemplate(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }));
+  }, []);
+
+  // New columns go in before AMOUNT, which stays last
+  const addColumn = useCallback((key: ItemColumnKey) => {
+    setTemplate(prev => {
+      const column = { key, label: ITEM_COLUMN_LABELS[key], width: NEW_COLUMN_WIDTH };
+      const amountIndex = prev.columns.findIndex(col => col.key === 'amount');
+      const columns = [...prev.columns];
+      columns.splice(amountIndex < 0 ? columns.length : amountIndex, 0, column);
+      return { ...prev, columns };
+    });
+  }, []);
+
+  const handleImage = useCallback((field: ImageField, file: File | undefined) => {
+    if (!file) return;
+    readImageFile(file)
+      .then(dataUrl => {
+        setError('');
+        setTemplate(prev => ({ ...prev, [field]: dataUrl }));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const handleCopy = useCallback(() => {
+    setTemplate(copyInvoiceTemplate(template));
+    setError('');
+  }, [template]);
+
+  const handleSave = useCallback(() => {
+    saveInvoiceTemplate(template)
+      .then(saved => {
+        loadTemplates(saved.id);
+        onChanged();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [template, loadTemplates, onChanged]);
+
+  const handleDelete = useCallback(() => {
+    if (!window.confirm(`Delete the ${template.name} template? Clients and invoices using it go back to the standard layout.`)) return;
+    deleteInvoiceTemplate(template.id)
+      .then(() => {
+        loadTemplates();
+        onChanged();
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [template, loadTemplates, onChanged]);
+
+  const isSaved = templates.some(option => option.id === template.id);
+  const readOnly = Boolean(template.builtIn);
+  const problems = validateTemplate(template);
+  const unusedColumns = (Object.keys(ITEM_COLUMN_LABELS) as ItemColumnKey[])
+    .filter(key => !template.columns.some(col => col.key === key));
+  const totalWidth = template.columns.reduce((sum, col) => sum + col.width, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2">
+      <div className="bg-white rounded-lg max-w-7xl w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Invoice Templates</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          <aside className="w-52 border-r bg-gray-50 p-3 overflow-y-auto space-y-1">
+            {templates.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectTemplate(option)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                  option.id === template.id ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <span className="block font-medium truncate">{option.name}</span>
+                <span className="block text-xs opacity-75">
+                  {option.orientation === 'landscape' ? 'Landscape' : 'Portrait'} · {option.builtIn ? 'built-in' : `${option.columns.length} columns`}
+                </span>
+              </button>
+            ))}
+            {!isSaved && (
+              <p className="px-3 py-2 rounded-md text-sm bg-blue-600 text-white truncate">{template.name || 'New template'}</p>
+            )}
+          </aside>
+
+          <div className="w-[28rem] shrink-0 p-4 overflow-y-auto space-y-5 border-r">
+            {readOnly && (
+              <p className="text-sm text-gray-600 bg-gray-50 border rounded-md p-2">
+                Built-in layouts can&apos;t be changed. Copy one to make your own.
+              </p>
+            )}
+
+            <section className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={template.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  disabled={readOnly}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Page</label>
+                <select
+                  value={template.orientation}
+                  onChange={(e) => update({ orientation: e.target.value as InvoiceTemplate['orientation'] })}
+                  disabled={readOnly}
+                  className={INPUT_CLASS}
+                >
+                  <option value="portrait">A4 portrait</option>
+                  <option value="landscape">A4 landscape</option>
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+                <input
+                  type="checkbox"
+                  checked={template.compact}
+                  onChange={(e) => update({ compact: e.target.checked })}
+                  disabled={readOnly}
+                />
+                Compact spacing
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Font</label>
+                <select
+                  value={template.font}
+                  onChange={(e) => update({ font: e.target.value as InvoiceTemplate['font'] })}
+                  disabled={readOnly}
+                  className={`${INPUT_CLASS} capitalize`}
+                >
+                  {TEMPLATE_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Table Font Size (pt)</label>
+                <input
+                  type="number"
+                  value={template.fontSize}
+                  onChange={(e) => update({ fontSize: Number(e.target.value) })}
+                  disabled={readOnly}
+                  className={INPUT_CLASS}
+                  min="5"
+                  max="12"
+                  step="0.5"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Heading Colour</label>
+                <input
+                  type="color"
+                  value={template.headingColor}
+                  onChange={(e) => update({ headingColor: e.target.value })}
+                  disabled={readOnly}
+                  className="w-full h-10 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Accent Colour</label>
+                <input
+                  type="color"
+                  value={template.accentColor}
+                  onChange={(e) => update({ accentColor: e.target.value })}
+                  disabled={readOnly}
+                  className="w-full h-10 border border-gray-300 rounded-md"
+                />
+              </div>
+            </section>
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-800">
+                  Columns <span className={`text-xs font-normal ${Math.abs(totalWidth - 1) > 0.005 ? 'text-red-600' : 'text-gray-500'}`}>({Math.round(totalWidth * 1000) / 10}% of the width)</span>
+                </h3>
+                <button
+                  onClick={() => update({ columns: normalizeColumnWidths(template.columns) })}
+                  disabled={readOnly}
+                  className="px-2 py-1 text-xs font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Fit to 100%
+                </button>
+              </div>
+              <div className="space-y-1">
+                {template.columns.map((col, index) => (
+                  <div key={col.key} className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      value={col.label}
+                      onChange={(e) => updateColumn(index, { label: e.target.value })}
+                      disabled={readOnly}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md disabled:bg-gray-100"
+                      title={ITEM_COLUMN_LABELS[col.key]}
+                    />
+                    <input
+                      type="number"
+                      value={Math.round(col.width * 1000) / 10}
+                      onChange={(e) => updateColumn(index, { width: Number(e.target.value) / 100 })}
+                      disabled={readOnly}
+                      className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded-md disabled:bg-gray-100"
+                      min="1"
+                      max="100"
+                      step="0.5"
+                      title="Width (%)"
+                    />
+                    <button
+                      onClick={() => moveColumn(index, -1)}
+                      disabled={readOnly || index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move left"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveColumn(index, 1)}
+                      disabled={readOnly || index === template.columns.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move right"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeColumn(index)}
+                      disabled={readOnly || col.key === 'amount'}
+                      className="p-1 text-red-500 hover:text-red-700 disabled:opacity-30"
+                      title="Remove column"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {!readOnly && unusedColumns.length > 0 && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Plus className="w-4 h-4 text-gray-500" />
+                  <select
+                    value=""
+                    onChange={(e) => addColumn(e.target.value as ItemColumnKey)}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">Add a column…</option>
+                    {unusedColumns.map(key => (
+                      <option key={key} value={key}>{ITEM_COLUMN_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">Sections</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(TEMPLATE_BLOCK_LABELS) as TemplateBlock[]).map(block => (
+                  <label key={block} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={template.blocks[block]}
+                      onChange={(e) => update({ blocks: { ...template.blocks, [block]: e.target.checked } })}
+                      disabled={readOnly}
+                    />
+                    {TEMPLATE_BLOCK_LABELS[block]}
+                  </label>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-800 mb-1">Images</h3>
+              <p className="text-xs text-gray-500 mb-2">Printed instead of the company&apos;s own banners; leave empty to keep them</p>
+              <div className="grid grid-cols-2 gap-3">
+                {IMAGE_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="border border-gray-300 rounded-md p-2 space-y-2">
+                    <p className="text-sm font-medium text-gray-700">{label}</p>
+                    <div className="h-12 flex items-center justify-center bg-gray-50 rounded">
+                      {template[field] ? (
+                        <Image
+                          src={template[field]!}
+                          alt={label}
+                          width={180}
+                          height={48}
+                          unoptimized
+                          className="max-h-12 w-auto object-contain"
+                        />
+                      ) : (
+                        <span className="text-xs text-gray-400">Company&apos;s</span>
+                      )}
+                    </div>
+                    {!readOnly && (
+                      <div className="flex gap-2">
+                        <label className="flex items-center px-2 py-1 text-xs font-semibold text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 cursor-pointer">
+                          <Upload className="w-3 h-3 mr-1" />
+                          Upload
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg,image/svg+xml"
+                            className="hidden"
+                            onChange={(e) => {
+                              handleImage(field, e.target.files?.[0]);
+                              e.target.value = '';
+                            }}
+                          />
+                        </label>
+                        {template[field] && (
+                          <button
+                            onClick={() => update({ [field]: undefined })}
+                            className="flex items-center px-2 py-1 text-xs font-semibold text-red-600 border border-gray-300 rounded-md hover:bg-red-50"
+                          >
+                            <Trash2 className="w-3 h-3 mr-1" />
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {!readOnly && problems.length > 0 && (
+              <ul className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2 list-disc list-inside">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Rendered with the layout as it stands, before it is saved */}
+          <div className="flex-1 min-w-0 p-4 flex flex-col">
+            {problems.length === 0 ? (
+              <PdfPreview invoice={invoice} company={company} template={template} />
+            ) : (
+              <p className="text-sm text-gray-500">The preview returns once the layout is valid.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4 p-6 border-t bg-gray-50">
+          {isSaved && !readOnly && (
+            <button
+              onClick={handleDelete}
+              className="mr-auto flex items-center px-4 py-2 text-red-600 border border-gray-300 rounded-md hover:bg-red-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={readOnly || problems.length > 0}
+            className="px-6 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2 inline" />
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
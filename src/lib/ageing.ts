@@ -0,0 +1,153 @@
+import * as XLSX from 'xlsx';
+import { InvoiceRecord, NoteRecord, Payment } from '@/types/invoice';
+import { getAll } from './db';
+import { listInvoiceRecords } from './invoice-register';
+import { getClientId } from './client-directory';
+import { getDueDate, getInvoiceBalance, listPayments } from './payments';
+
+export type AgeingBucket = 'not-due' | '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string }[] = [
+  { key: 'not-due', label: 'Not Due' },
+  { key: '0-30', label: '0–30 Days' },
+  { key: '31-60', label: '31–60 Days' },
+  { key: '61-90', label: '61–90 Days' },
+  { key: '90+', label: '90+ Days' }
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface AgeingRow {
+  record: InvoiceRecord;
+  dueDate: string;
+  daysOverdue: number;
+  outstanding: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgeingGroup {
+  id: string; // GSTIN, or a name-based key for unregistered parties
+  name: string;
+  gstin: string;
+  rows: AgeingRow[];
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  groups: AgeingGroup[];
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+}
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { 'not-due': 0, '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
+
+export function getAgeingBucket(daysOverdue: number): AgeingBucket {
+  if (daysOverdue < 0) return 'not-due';
+  if (daysOverdue <= 30) return '0-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
+
+// Outstanding issued invoices as of a date, bucketed by days past due and grouped per client GSTIN
+export function buildAgeingReport(
+  records: InvoiceRecord[],
+  payments: Payment[],
+  notes: NoteRecord[],
+  asOf: string = new Date().toISOString().split('T')[0]
+): AgeingReport {
+  const groups = new Map<string, AgeingGroup>();
+  const totals = emptyBuckets();
+
+  records
+    .filter(record => record.status === 'issued' && record.invoice.invoiceDate <= asOf)
+    .forEach(record => {
+      const { outstanding } = getInvoiceBalance(record, payments, notes);
+      if (outstanding <= 0) return;
+
+      const dueDate = getDueDate(record.invoice);
+      const daysOverdue = Math.round((new Date(asOf).getTime() - new Date(dueDate).getTime()) / MS_PER_DAY);
+      const bucket = getAgeingBucket(daysOverdue);
+      const party = record.invoice.billingParty;
+      const id = getClientId(party);
+
+      const group = groups.get(id) || {
+        id,
+        name: party.name,
+        gstin: party.gstin,
+        rows: [],
+        buckets: emptyBuckets(),
+        total: 0
+      };
+      group.rows.push({ record, dueDate, daysOverdue, outstanding, bucket });
+      group.buckets[bucket] += outstanding;
+      group.total += outstanding;
+      groups.set(id, group);
+      totals[bucket] += outstanding;
+    });
+
+  const sortedGroups = Array.from(groups.values()).sort((a, b) => b.total - a.total);
+  sortedGroups.forEach(group => group.rows.sort((a, b) => b.daysOverdue - a.daysOverdue));
+
+  return {
+    asOf,
+    groups: sortedGroups,
+    buckets: totals,
+    total: sortedGroups.reduce((sum, group) => sum + group.total, 0)
+  };
+}
+
+export async function loadAgeingReport(asOf?: string): Promise<AgeingReport> {
+  const [records, payments, notes] = await Promise.all([
+    listInvoiceRecords('issued'),
+    listPayments(),
+    getAll<NoteRecord>('notes')
+  ]);
+  return buildAgeingReport(records, payments, notes, asOf);
+}
+
+// Party-wise summary sheet plus an invoice-wise sheet for follow-up calls
+export function exportAgeingExcel(report: AgeingReport): void {
+  const bucketLabels = AGEING_BUCKETS.map(bucket => bucket.label);
+
+  const summary = [
+    [`Outstanding Ageing as on ${report.asOf}`],
+    [],
+    ['Party', 'GSTIN', ...bucketLabels, 'Total'],
+    ...report.groups.map(group => [
+      group.name,
+      group.gstin,
+      ...AGEING_BUCKETS.map(bucket => group.buckets[bucket.key]),
+      group.total
+    ]),
+    ['Total', '', ...AGEING_BUCKETS.map(bucket => report.buckets[bucket.key]), report.total]
+  ];
+
+  const details = [
+    ['Party', 'GSTIN', 'Invoice No.', 'Invoice Date', 'Due Date', 'Days Overdue', 'Bucket', 'Invoice Total', 'Outstanding'],
+    ...report.groups.flatMap(group => group.rows.map(row => [
+      group.name,
+      group.gstin,
+      row.record.invoice.invoiceNumber,
+      row.record.invoice.invoiceDate,
+      row.dueDate,
+      Math.max(row.daysOverdue, 0),
+      AGEING_BUCKETS.find(bucket => bucket.key === row.bucket)?.label || row.bucket,
+      row.record.invoice.grandTotal,
+      row.outstanding
+    ]))
+  ];
+
+  const wb = XLSX.utils.book_new();
+  const summarySheet = XLSX.utils.aoa_to_sheet(summary);
+  summarySheet['!cols'] = [{ wch: 35 }, { wch: 18 }, ...bucketLabels.map(() => ({ wch: 14 })), { wch: 14 }];
+  const detailSheet = XLSX.utils.aoa_to_sheet(details);
+  detailSheet['!cols'] = [{ wch: 35 }, { wch: 18 }, { wch: 20 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 14 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(wb, summarySheet, 'Summary');
+  XLSX.utils.book_append_sheet(wb, detailSheet, 'Invoices');
+  XLSX.writeFile(wb, `Ageing_${report.asOf}.xlsx`);
+}
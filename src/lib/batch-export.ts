@@ -0,0 +1,264 @@
+import * as XLSX from 'xlsx';
+import { zipSync, Zippable } from 'fflate';
+import { Client, CompanyDetails, Invoice, InvoiceFormData, InvoiceItem } from '@/types/invoice';
+import { calculateAreaFromSize, getDocumentFileName } from './utils';
+import { findCompany, getCompanySeriesId } from './company';
+import { billingPartyFromClient } from './client-directory';
+import { buildInvoiceFromForm } from './invoice-builder';
+import { checkPlaceOfSupply, determinePlaceOfSupply } from './place-of-supply';
+import { ensureUniqueInvoiceNumber, INVOICE_SERIES_ID } from './invoice-numbering';
+import { issueInvoiceRecord, getInvoiceNumberLabel } from './invoice-register';
+import { generateInvoicePDF } from './pdf-export';
+import { getInvoiceExcelBytes } from './excel-export';
+import { getInvoiceTemplate } from './invoice-templates';
+import { roundMoney } from './money';
+import { DEFAULT_GST_RATE } from './tax-rates';
+
+export interface BatchInvoice {
+  label: string; // Shown in progress and errors, e.g. the invoice number and client
+  invoice: Invoice;
+  recordId?: string; // Register record the invoice came from, whose own number is not a clash
+  formData?: InvoiceFormData; // Set while the invoice is not issued; it is issued from its company's series before rendering
+}
+
+export interface BatchError {
+  label: string;
+  message: string;
+}
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+  current: string;
+}
+
+export interface BatchOptions {
+  includeExcel: boolean;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchResult {
+  zip: Uint8Array;
+  fileCount: number;
+  errors: BatchError[];
+}
+
+// Columns of the upload sheet: one row per line item, with the invoice's own columns repeated on each of its rows
+// invoiceRef only groups the lines into invoices; the number is taken from the company's series on issue
+export const BATCH_SHEET_COLUMNS = [
+  'invoiceRef', 'invoiceDate', 'poNumber', 'poDate', 'displayName', 'companyGstin',
+  'client', 'gstin', 'address', 'city', 'state', 'pincode',
+  'town', 'location', 'hsn', 'media', 'size', 'type', 'ratePM', 'period', 'amount', 'gstRate'
+];
+
+function text(value: unknown): string {
+  return String(value ?? '').trim();
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// XLSX sheets give dates as Excel serial numbers (15-Apr-2026 is 46127); CSV as YYYY-MM-DD or DD/MM/YYYY text
+function dateText(value: unknown, field: string): string {
+  const raw = text(value);
+  if (!raw) return '';
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    const parsed: { y: number; m: number; d: number } | null = XLSX.SSF.parse_date_code(Number(raw));
+    if (parsed) return isoDate(parsed.y, parsed.m, parsed.d);
+  }
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const indian = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (indian) return isoDate(Number(indian[3]), Number(indian[2]), Number(indian[1]));
+  throw new Error(`${field} "${raw}" is not a date; use YYYY-MM-DD or DD/MM/YYYY`);
+}
+
+export function formatBatchLabel(invoice: Invoice): string {
+  return `${getInvoiceNumberLabel(invoice)} – ${invoice.billingParty.name || 'No client'}`;
+}
+
+/**
+ * Turns the rows of an upload sheet into invoices. Clients are taken from the directory by GSTIN or name
+ * when they are there, otherwise from the address columns. Invoices that can't be built are listed as errors
+ * rather than stopping the rest.
+ */
+export function parseBatchSheet(
+  rows: Record<string, unknown>[],
+  companies: CompanyDetails[],
+  clients: Client[]
+): { invoices: BatchInvoice[]; errors: BatchError[] } {
+  const groups = new Map<string, Record<string, unknown>[]>();
+  const errors: BatchError[] = [];
+
+  rows.forEach((row, index) => {
+    const invoiceRef = text(row.invoiceRef);
+    if (!invoiceRef) {
+      if (Object.values(row).some(value => text(value))) {
+        errors.push({ label: `Row ${index + 2}`, message: 'Invoice reference is missing' });
+      }
+      return;
+    }
+    groups.set(invoiceRef, [...(groups.get(invoiceRef) || []), row]);
+  });
+
+  const invoices: BatchInvoice[] = [];
+  groups.forEach((lines, invoiceRef) => {
+    const first = lines[0];
+    const label = `${invoiceRef} – ${text(first.client) || 'No client'}`;
+    try {
+      const companyGstin = text(first.companyGstin).toUpperCase();
+      const company = companyGstin
+        ? companies.find(c => c.gstin.toUpperCase() === companyGstin)
+        : findCompany(companies);
+      if (!company) {
+        throw new Error(`No company profile has GSTIN ${companyGstin}`);
+      }
+
+      const gstin = text(first.gstin).toUpperCase();
+      const client = clients.find(c => (gstin && c.gstin === gstin) || c.name.toLowerCase() === text(first.client).toLowerCase());
+      const billingParty = client ? billingPartyFromClient(client) : {
+        name: text(first.client),
+        address: text(first.address),
+        city: text(first.city),
+        state: text(first.state),
+        pincode: text(first.pincode),
+        gstin,
+        phone: '',
+        email: ''
+      };
+      if (!billingParty.name) {
+        throw new Error('Client name is missing');
+      }
+
+      const items: InvoiceItem[] = lines.map((line, index) => {
+        const amount = Number(text(line.amount).replace(/,/g, ''));
+        if (!(amount > 0)) {
+          throw new Error(`Line ${index + 1} has no amount`);
+        }
+        const size = text(line.size);
+        return {
+          id: `${invoiceRef}-${index}`,
+          sno: index + 1,
+          town: text(line.town),
+          location: text(line.location),
+          hsn: text(line.hsn) || '998366',
+          media: text(line.media),
+          size,
+          area: calculateAreaFromSize(size) ?? '',
+          type: text(line.type),
+          ratePM: text(line.ratePM),
+          period: text(line.period),
+          amount: roundMoney(amount),
+          gstRate: text(line.gstRate) ? Number(line.gstRate) : undefined
+        };
+      });
+
+      const formData: InvoiceFormData = {
+        companyId: company.id,
+        invoiceNumber: '',
+        clientId: client?.id,
+        invoiceDate: dateText(first.invoiceDate, 'Invoice date') || new Date().toISOString().split('T')[0],
+        dueDate: '',
+        creditDays: client?.creditDays || 0,
+        poNumber: text(first.poNumber),
+        poDate: dateText(first.poDate, 'PO date'),
+        displayName: text(first.displayName),
+        duration: '',
+        startDate: '',
+        billingParty,
+        items,
+        gstRate: DEFAULT_GST_RATE,
+        isInterstate: false,
+        roundingPolicy: company.roundingPolicy,
+        termsAndConditions: client?.termsAndConditions?.trim() || company.termsAndConditions.join('\n'),
+        templateId: client?.templateId
+      };
+      formData.isInterstate = determinePlaceOfSupply(company, billingParty, items).isInterstate ?? false;
+      // A fixed record id means exporting the same upload twice can't issue its invoices twice
+      const recordId = `batch-${Date.now()}-${invoices.length}`;
+      invoices.push({ label, invoice: buildInvoiceFromForm(formData, company), recordId, formData });
+    } catch (err) {
+      errors.push({ label, message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  return { invoices, errors };
+}
+
+export async function importBatchFile(
+  file: File,
+  companies: CompanyDetails[],
+  clients: Client[]
+): Promise<{ invoices: BatchInvoice[]; errors: BatchError[] }> {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) {
+    throw new Error(`${file.name} has no sheets`);
+  }
+  return parseBatchSheet(XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: '' }), companies, clients);
+}
+
+export function downloadBatchTemplate(): void {
+  const ws = XLSX.utils.aoa_to_sheet([BATCH_SHEET_COLUMNS]);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Invoices');
+  XLSX.writeFile(wb, 'Batch_Invoices.xlsx');
+}
+
+// Lets the browser paint the progress bar between invoices
+function nextTick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// Same file name twice (e.g. a number used by two companies) gets a counter rather than overwriting
+function uniqueName(files: Zippable, name: string): string {
+  if (!(name in files)) return name;
+  const dot = name.lastIndexOf('.');
+  let counter = 2;
+  while (`${name.slice(0, dot)}_${counter}${name.slice(dot)}` in files) counter++;
+  return `${name.slice(0, dot)}_${counter}${name.slice(dot)}`;
+}
+
+// Renders each invoice's PDF (and Excel) into one ZIP. Invoices not yet issued are issued first, so every file
+// carries a number taken from the series; an invoice that fails, e.g. on a number already issued in the
+// register, is reported and the rest carry on
+export async function exportInvoicesZip(
+  invoices: BatchInvoice[],
+  companies: CompanyDetails[],
+  { includeExcel, onProgress }: BatchOptions
+): Promise<BatchResult> {
+  const files: Zippable = {};
+  const errors: BatchError[] = [];
+
+  for (let index = 0; index < invoices.length; index++) {
+    const { label, recordId, formData } = invoices[index];
+    let { invoice } = invoices[index];
+    onProgress?.({ done: index, total: invoices.length, current: label });
+    await nextTick();
+    try {
+      const company = findCompany(companies, invoice.companyId);
+      const problems = checkPlaceOfSupply(invoice, company);
+      if (problems.length > 0) {
+        throw new Error(problems.join('; '));
+      }
+      if (formData) {
+        const seriesId = getCompanySeriesId(INVOICE_SERIES_ID, company.id);
+        invoice = (await issueInvoiceRecord(recordId || `batch-${Date.now()}-${index}`, formData, invoice, seriesId)).invoice;
+      } else {
+        await ensureUniqueInvoiceNumber(invoice.invoiceNumber, recordId);
+      }
+      const template = await getInvoiceTemplate(invoice.templateId);
+      files[uniqueName(files, getDocumentFileName(invoice, 'pdf'))] = await generateInvoicePDF(invoice, company, template);
+      if (includeExcel) {
+        // Already a zip inside, so it is stored as it is
+        files[uniqueName(files, getDocumentFileName(invoice, 'xlsx'))] = [getInvoiceExcelBytes(invoice, company), { level: 0 }];
+      }
+    } catch (err) {
+      errors.push({ label, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  onProgress?.({ done: invoices.length, total: invoices.length, current: '' });
+
+  return { zip: zipSync(files), fileCount: Object.keys(files).length, errors };
+}
@@ -0,0 +1,137 @@
+import * as XLSX from 'xlsx';
+import { BillingParty, Client, TdsSection, TdsTerms } from '@/types/invoice';
+import { getAll, getById, put, putMany, remove } from './db';
+import { getStateFromGSTIN } from './utils';
+
+// Spreadsheet column order used for both import and export
+const CLIENT_COLUMNS: (keyof Omit<Client, 'id'>)[] = [
+  'name', 'address', 'city', 'state', 'pincode', 'gstin', 'phone', 'email', 'creditDays', 'termsAndConditions',
+  'tdsSection', 'tdsRate', 'tan', 'templateId'
+];
+
+export function getClientId(client: Pick<Client, 'gstin' | 'name'>): string {
+  const gstin = client.gstin.trim().toUpperCase();
+  return gstin || `NOGST-${client.name.trim().toUpperCase().replace(/\s+/g, '-')}`;
+}
+
+function normalizeClient(client: Omit<Client, 'id'> & { id?: string }): Client {
+  const gstin = client.gstin.trim().toUpperCase();
+  const stateInfo = getStateFromGSTIN(gstin);
+  const normalized = {
+    ...client,
+    name: client.name.trim(),
+    gstin,
+    state: stateInfo?.state || client.state,
+    creditDays: Number(client.creditDays) || 0,
+    tdsSection: client.tdsSection || undefined,
+    tdsRate: client.tdsSection && client.tdsRate !== undefined ? Number(client.tdsRate) : undefined,
+    tan: client.tan?.trim().toUpperCase() || undefined,
+    templateId: client.templateId || undefined
+  };
+  return { ...normalized, id: getClientId(normalized) };
+}
+
+export async function listClients(): Promise<Client[]> {
+  const clients = await getAll<Client>('clients');
+  return clients.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function searchClients(clients: Client[], query: string): Client[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return clients;
+  return clients.filter(client =>
+    client.name.toLowerCase().includes(q) || client.gstin.toLowerCase().includes(q)
+  );
+}
+
+export async function saveClient(client: Omit<Client, 'id'> & { id?: string }): Promise<Client> {
+  if (!client.name.trim()) {
+    throw new Error('Client name is required');
+  }
+  const normalized = normalizeClient(client);
+  // Changing the GSTIN changes the key, so drop the entry saved under the old one
+  if (client.id && client.id !== normalized.id) {
+    await remove('clients', client.id);
+  }
+  return put<Client>('clients', normalized);
+}
+
+export function deleteClient(id: string): Promise<void> {
+  return remove('clients', id);
+}
+
+function clientFromBillingParty(
+  party: BillingParty,
+  creditDays: number = 0,
+  tds?: TdsTerms,
+  templateId?: string
+): Omit<Client, 'id'> {
+  return { ...party, creditDays, tdsSection: tds?.section, tdsRate: tds?.rate, templateId };
+}
+
+// The invoice form only knows the party and its terms, so keep the stored TAN and custom terms
+export async function saveClientFromBillingParty(
+  party: BillingParty,
+  creditDays: number = 0,
+  tds?: TdsTerms,
+  templateId?: string
+): Promise<Client> {
+  const stored = await getById<Client>('clients', getClientId(party));
+  return saveClient({ ...stored, ...clientFromBillingParty(party, creditDays, tds, templateId) });
+}
+
+export function billingPartyFromClient(client: Client): BillingParty {
+  return {
+    name: client.name,
+    address: client.address,
+    city: client.city,
+    state: client.state,
+    pincode: client.pincode,
+    gstin: client.gstin,
+    phone: client.phone || '',
+    email: client.email || ''
+  };
+}
+
+export function exportClientsExcel(clients: Client[]): void {
+  const rows = clients.map(client => CLIENT_COLUMNS.map(column => client[column] ?? ''));
+  const ws = XLSX.utils.aoa_to_sheet([CLIENT_COLUMNS, ...rows]);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Clients');
+  XLSX.writeFile(wb, 'Clients.xlsx');
+}
+
+function parseTdsSection(value: unknown): TdsSection | undefined {
+  const section = String(value || '').trim().toUpperCase();
+  return section === '194C' || section === '194J' ? section : undefined;
+}
+
+// Accepts the exported workbook or any CSV/XLSX with the same column headers
+export async function importClientsFile(file: File): Promise<number> {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) return 0;
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: '' });
+  const clients = rows
+    .filter(row => String(row.name || '').trim())
+    .map(row => normalizeClient({
+      name: String(row.name),
+      address: String(row.address || ''),
+      city: String(row.city || ''),
+      state: String(row.state || ''),
+      pincode: String(row.pincode || ''),
+      gstin: String(row.gstin || ''),
+      phone: String(row.phone || ''),
+      email: String(row.email || ''),
+      creditDays: Number(row.creditDays) || 0,
+      termsAndConditions: String(row.termsAndConditions || '') || undefined,
+      tdsSection: parseTdsSection(row.tdsSection),
+      tdsRate: String(row.tdsRate ?? '').trim() ? Number(row.tdsRate) : undefined,
+      tan: String(row.tan || '') || undefined,
+      templateId: String(row.templateId || '') || undefined
+    }));
+
+  await putMany('clients', clients);
+  return clients.length;
+}
@@ -0,0 +1,224 @@
+import { CompanyDetails, Invoice, InvoiceRecord, NoteRecord, NumberSeries } from '@/types/invoice';
+import { getAll, getById, put, putMany, remove } from './db';
+import { getStateCodeByName, getStateFromGSTIN } from './utils';
+import { INVOICE_SERIES_ID, CREDIT_NOTE_SERIES_ID, DEBIT_NOTE_SERIES_ID, RECEIPT_SERIES_ID } from './invoice-numbering';
+
+// The original profile; invoices saved before multi-company support belong to it
+export const COMPANY_PROFILE_ID = 'default';
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const CODE_PATTERN = /^[A-Z0-9-]{1,8}$/;
+
+// Images are kept inline in IndexedDB, so keep them small
+const MAX_IMAGE_BYTES = 1024 * 1024;
+
+// Used until the profile is saved from the settings screen
+export const DEFAULT_COMPANY_DETAILS: CompanyDetails = {
+  id: COMPANY_PROFILE_ID,
+  code: 'DA',
+  name: 'DESHKAR ADVERTISING',
+  address: 'R15, SP Tower 1st Floor, Anupam Nagar, Nr. Flyover',
+  city: 'Raipur',
+  state: 'Chhattisgarh',
+  pincode: '492007',
+  gstin: '22AKJPD0941N4Z8',
+  pan: 'AKJPD0941N',
+  phone: '+91 771 2538818',
+  email: 'deshkaradvertising@gmail.com',
+  website: 'www.deshkaradvertising.com',
+  bank: {
+    bankName: '',
+    branch: '',
+    accountName: '',
+    accountNumber: '',
+    ifsc: ''
+  },
+  termsAndConditions: [
+    'Any complaint about the advertisement must be received within 7 days from the date of bill.',
+    'Cheques/D.D.(crossed) to be drawn in favour of DESHKAR ADVERTISING, RAIPUR',
+    'Interest will be charged @ 24% if the bill is not paid in 10 days.',
+    'No receipt is valid unless given on official form.',
+    'Subject to Raipur Jurisdiction. State: Chhattisgarh, State Code : 22',
+    'Enquiry Pin Code : 492001',
+    'Our PAN NO.: AKJPD0941N & Our GST NO.: 22AKJPD0941N4Z8'
+  ],
+  headerImage: '/header-image.jpg',
+  footerImage: '/footer-image.jpg'
+};
+
+// Blank profile for a new firm or branch, keeping the group's terms as a starting point
+export function createCompanyDetails(): CompanyDetails {
+  return {
+    ...DEFAULT_COMPANY_DETAILS,
+    id: Date.now().toString(),
+    code: '',
+    name: '',
+    address: '',
+    city: '',
+    state: '',
+    pincode: '',
+    gstin: '',
+    pan: '',
+    phone: '',
+    email: '',
+    website: '',
+    bank: { bankName: '', branch: '', accountName: '', accountNumber: '', ifsc: '' },
+    logo: undefined,
+    headerImage: undefined,
+    footerImage: undefined,
+    signature: undefined
+  };
+}
+
+// The default profile always comes first, even before it has been saved
+export async function listCompanies(): Promise<CompanyDetails[]> {
+  const stored = await getAll<CompanyDetails>('companies');
+  const defaultCompany = stored.find(company => company.id === COMPANY_PROFILE_ID);
+  return [
+    { ...DEFAULT_COMPANY_DETAILS, ...defaultCompany },
+    ...stored
+      .filter(company => company.id !== COMPANY_PROFILE_ID)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  ];
+}
+
+export function findCompany(companies: CompanyDetails[], companyId?: string): CompanyDetails {
+  const id = companyId || COMPANY_PROFILE_ID;
+  return companies.find(company => company.id === id) || companies[0] || DEFAULT_COMPANY_DETAILS;
+}
+
+export async function getCompanyDetails(companyId: string = COMPANY_PROFILE_ID): Promise<CompanyDetails> {
+  const company = await getById<CompanyDetails>('companies', companyId);
+  if (company) return { ...DEFAULT_COMPANY_DETAILS, ...company };
+  if (companyId !== COMPANY_PROFILE_ID) {
+    throw new Error('Company profile not found');
+  }
+  return DEFAULT_COMPANY_DETAILS;
+}
+
+export function isIssuedBy(invoice: Invoice, companyId: string): boolean {
+  return (invoice.companyId || COMPANY_PROFILE_ID) === companyId;
+}
+
+// Entities other than the default company keep their own counters under "<companyId>/<series>"
+export function getCompanySeriesId(seriesId: string, companyId?: string): string {
+  return companyId && companyId !== COMPANY_PROFILE_ID ? `${companyId}/${seriesId}` : seriesId;
+}
+
+// New entities start their series from their own code, e.g. DB/2026-27/0001 and DB/CN/2026-27/0001
+function createCompanySeries(company: CompanyDetails): NumberSeries[] {
+  const formats: [string, string][] = [
+    [INVOICE_SERIES_ID, `${company.code}/{FY}/{SEQ}`],
+    [CREDIT_NOTE_SERIES_ID, `${company.code}/CN/{FY}/{SEQ}`],
+    [DEBIT_NOTE_SERIES_ID, `${company.code}/DN/{FY}/{SEQ}`],
+    [RECEIPT_SERIES_ID, `${company.code}/RCPT/{FY}/{SEQ}`]
+  ];
+  return formats.map(([seriesId, format]) => ({
+    id: getCompanySeriesId(seriesId, company.id),
+    format,
+    padding: 4,
+    counters: {}
+  }));
+}
+
+export async function saveCompanyDetails(company: CompanyDetails): Promise<CompanyDetails> {
+  const gstin = company.gstin.trim().toUpperCase();
+  const pan = company.pan.trim().toUpperCase();
+  const ifsc = company.bank.ifsc.trim().toUpperCase();
+  const code = company.code.trim().toUpperCase();
+
+  if (!company.name.trim()) {
+    throw new Error('Company name is required');
+  }
+  if (!CODE_PATTERN.test(code)) {
+    throw new Error('Series code must be 1–8 letters, digits or -');
+  }
+  if (!GSTIN_PATTERN.test(gstin)) {
+    throw new Error('Enter a valid 15-character GSTIN');
+  }
+  if (!PAN_PATTERN.test(pan)) {
+    throw new Error('Enter a valid 10-character PAN');
+  }
+  if (gstin.substring(2, 12) !== pan) {
+    throw new Error(`PAN ${pan} does not match the PAN inside GSTIN ${gstin}`);
+  }
+  const stateCode = getStateCodeByName(company.state);
+  if (stateCode && stateCode !== gstin.substring(0, 2)) {
+    throw new Error(`GSTIN ${gstin} is not registered in ${company.state} (state code ${stateCode})`);
+  }
+  if (ifsc && !IFSC_PATTERN.test(ifsc)) {
+    throw new Error(`IFSC ${ifsc} is not valid`);
+  }
+
+  const companies = await listCompanies();
+  if (companies.some(other => other.id !== company.id && other.code.toUpperCase() === code)) {
+    throw new Error(`Series code ${code} is already used by another company`);
+  }
+
+  const isNew = !companies.some(other => other.id === company.id);
+  const saved = await put<CompanyDetails>('companies', {
+    ...company,
+    id: company.id || COMPANY_PROFILE_ID,
+    code,
+    name: company.name.trim(),
+    gstin,
+    pan,
+    bank: { ...company.bank, ifsc },
+    termsAndConditions: company.termsAndConditions.map(term => term.trim()).filter(Boolean)
+  });
+  if (isNew) {
+    await putMany<NumberSeries>('numberSeries', createCompanySeries(saved));
+  }
+  return saved;
+}
+
+// Only entities that have never issued or drafted anything can be removed
+export async function deleteCompany(companyId: string): Promise<void> {
+  if (companyId === COMPANY_PROFILE_ID) {
+    throw new Error('The main company profile cannot be deleted');
+  }
+  const [records, notes] = await Promise.all([getAll<InvoiceRecord>('invoices'), getAll<NoteRecord>('notes')]);
+  const used = records.some(record => record.invoice.companyId === companyId) ||
+    notes.some(record => record.note.companyId === companyId);
+  if (used) {
+    throw new Error('This company has invoices in the register and cannot be deleted');
+  }
+  await remove('companies', companyId);
+}
+
+export function getCompanyStateCode(company: CompanyDetails): string {
+  return getStateFromGSTIN(company.gstin)?.code || getStateCodeByName(company.state) || '';
+}
+
+export function formatCompanyAddress(company: CompanyDetails): string {
+  return `${company.address}, ${company.city}, ${company.state} ${company.pincode}`;
+}
+
+// One line for the invoice footer; empty until an account number is entered
+export function formatBankDetails(company: CompanyDetails): string {
+  const { bankName, branch, accountName, accountNumber, ifsc } = company.bank;
+  if (!accountNumber.trim()) return '';
+  return [
+    bankName && `Bank: ${bankName}${branch ? `, ${branch}` : ''}`,
+    accountName && `A/c Name: ${accountName}`,
+    `A/c No: ${accountNumber}`,
+    ifsc && `IFSC: ${ifsc}`
+  ].filter(Boolean).join(' | ');
+}
+
+export function readImageFile(file: File): Promise<string> {
+  if (!['image/png', 'image/jpeg', 'image/svg+xml'].includes(file.type)) {
+    return Promise.reject(new Error(`${file.name} must be a PNG, JPEG or SVG image`));
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return Promise.reject(new Error(`${file.name} is larger than 1 MB`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,142 @@
+import { CreditNote, DebitNote, InvoiceRecord, NoteRecord } from '@/types/invoice';
+import { getAll } from './db';
+import { numberToWords } from './utils';
+import { calculateInvoiceTaxes } from './tax-rates';
+import { saveWithNextNumber, CREDIT_NOTE_SERIES_ID, DEBIT_NOTE_SERIES_ID } from './invoice-numbering';
+import { getCompanySeriesId } from './company';
+import { roundMoney } from './money';
+import { getTaxableItems } from './discounts';
+
+export type NoteType = 'credit-note' | 'debit-note';
+
+// One selected line of the original invoice and the amount being reversed (credit) or added (debit)
+export interface NoteLine {
+  itemId: string;
+  amount: number;
+}
+
+export interface NoteInput {
+  type: NoteType;
+  original: InvoiceRecord;
+  lines: NoteLine[];
+  noteDate: string;
+  reason: string;
+}
+
+export async function listNoteRecords(originalRecordId?: string): Promise<NoteRecord[]> {
+  const notes = await getAll<NoteRecord>('notes');
+  return notes
+    .filter(record => !originalRecordId || record.originalRecordId === originalRecordId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Builds the note with the same tax treatment (rate and CGST/SGST vs IGST) as the original invoice
+export function buildNote(input: NoteInput, noteNumber: string): CreditNote | DebitNote {
+  const { type, original, lines, noteDate, reason } = input;
+  const amounts = new Map(lines.map(line => [line.itemId, roundMoney(line.amount)]));
+
+  const items = original.invoice.items
+    .filter(item => amounts.has(item.id))
+    // The amounts are taxable values, so any discount given on the invoice is already taken off
+    .map((item, index) => ({
+      ...item,
+      sno: index + 1,
+      amount: amounts.get(item.id) || 0,
+      discount: undefined
+    }));
+
+  // Each line keeps the rate it was billed at on the original invoice
+  const taxes = calculateInvoiceTaxes(
+    items,
+    original.formData.gstRate,
+    original.formData.isInterstate,
+    original.invoice.roundingPolicy
+  );
+
+  return {
+    documentType: type,
+    originalInvoice: {
+      invoiceNumber: original.invoice.invoiceNumber,
+      invoiceDate: original.invoice.invoiceDate
+    },
+    noteReason: reason.trim() || undefined,
+    companyId: original.invoice.companyId,
+    invoiceNumber: noteNumber,
+    invoiceDate: noteDate,
+    displayName: original.invoice.displayName,
+    duration: original.invoice.duration,
+    billingParty: original.invoice.billingParty,
+    placeOfSupply: original.invoice.placeOfSupply,
+    items,
+    gstRate: original.formData.gstRate,
+    taxBreakup: taxes.taxBreakup,
+    subtotal: taxes.subtotal,
+    cgst: taxes.cgst,
+    sgst: taxes.sgst,
+    igst: taxes.igst,
+    roundOff: taxes.roundOff || undefined,
+    grandTotal: taxes.grandTotal,
+    roundingPolicy: original.invoice.roundingPolicy,
+    totalInWords: numberToWords(taxes.grandTotal),
+    termsAndConditions: []
+  };
+}
+
+// Taxable value of each line still open to credit: its value after discounts and commission, less the
+// credit notes already issued against it
+export async function getCreditableAmounts(original: InvoiceRecord): Promise<Map<string, number>> {
+  const previousNotes = await listNoteRecords(original.id);
+  const remaining = new Map(getTaxableItems(original.invoice).map(item => [item.id, item.amount]));
+  previousNotes
+    .filter(record => record.note.documentType === 'credit-note')
+    .forEach(record => record.note.items.forEach(item => {
+      remaining.set(item.id, roundMoney((remaining.get(item.id) ?? 0) - item.amount));
+    }));
+  return remaining;
+}
+
+// Credit notes can't reverse more than was billed, counting notes already issued on the invoice
+export async function validateNote(input: NoteInput): Promise<void> {
+  if (input.lines.length === 0) {
+    throw new Error('Select at least one item');
+  }
+  if (input.lines.some(line => !(line.amount > 0))) {
+    throw new Error('Every selected item needs an amount greater than zero');
+  }
+  if (input.noteDate < input.original.invoice.invoiceDate) {
+    throw new Error('The note cannot be dated before the original invoice');
+  }
+  if (input.type !== 'credit-note') return;
+
+  const creditable = await getCreditableAmounts(input.original);
+  input.lines.forEach(line => {
+    const item = input.original.invoice.items.find(i => i.id === line.itemId);
+    if (!item) {
+      throw new Error('Selected item is not on the original invoice');
+    }
+    const remaining = creditable.get(item.id) ?? 0;
+    if (line.amount > remaining) {
+      throw new Error(`Item ${item.sno} (${item.location || item.town}) has only ${remaining} left to credit`);
+    }
+  });
+}
+
+export async function issueNote(input: NoteInput): Promise<NoteRecord> {
+  await validateNote(input);
+
+  // Notes are numbered in the series of the entity that issued the original invoice
+  const seriesId = getCompanySeriesId(
+    input.type === 'credit-note' ? CREDIT_NOTE_SERIES_ID : DEBIT_NOTE_SERIES_ID,
+    input.original.invoice.companyId
+  );
+  const id = Date.now().toString();
+
+  return saveWithNextNumber<NoteRecord>('notes', id, input.noteDate, seriesId, noteNumber => ({
+    id,
+    originalRecordId: input.original.id,
+    note: buildNote(input, noteNumber),
+    gstRate: input.original.formData.gstRate,
+    isInterstate: input.original.formData.isInterstate,
+    createdAt: new Date().toISOString()
+  }));
+}
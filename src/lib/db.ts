@@ -0,0 +1,135 @@
+// Small promise wrapper around the browser's IndexedDB used for all local persistence
+const DB_NAME = 'deshkar-invoice';
+const DB_VERSION = 10;
+
+export type StoreName = 'invoices' | 'numberSeries' | 'clients' | 'sites' | 'notes' | 'payments' | 'companies' | 'tdsCredits' | 'recurringTemplates' | 'invoiceTemplates';
+
+const STORES: StoreName[] = ['invoices', 'numberSeries', 'clients', 'sites', 'notes', 'payments', 'companies', 'tdsCredits', 'recurringTemplates', 'invoiceTemplates'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Create any stores added since the user's last visit
+      STORES.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function runRequest<T>(store: StoreName, mode: IDBTransactionMode, action: (os: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDB().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function getAll<T>(store: StoreName): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', os => os.getAll());
+}
+
+export function getById<T>(store: StoreName, id: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', os => os.get(id));
+}
+
+export function put<T extends { id: string }>(store: StoreName, value: T): Promise<T> {
+  return runRequest<IDBValidKey>(store, 'readwrite', os => os.put(value)).then(() => value);
+}
+
+export function putMany<T extends { id: string }>(store: StoreName, values: T[]): Promise<void> {
+  return openDB().then(db => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const os = tx.objectStore(store);
+    values.forEach(value => os.put(value));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function remove(store: StoreName, id: string): Promise<void> {
+  return runRequest<undefined>(store, 'readwrite', os => os.delete(id)).then(() => undefined);
+}
+
+// Read-modify-write in a single transaction so concurrent callers can't both see the same value
+export function update<T extends { id: string }>(store: StoreName, id: string, updater: (current: T | undefined) => T): Promise<T> {
+  return openDB().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const os = tx.objectStore(store);
+    let next: T;
+
+    const getRequest = os.get(id);
+    getRequest.onsuccess = () => {
+      next = updater(getRequest.result as T | undefined);
+      os.put(next);
+    };
+
+    tx.oncomplete = () => resolve(next);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export interface RecordKey {
+  store: StoreName;
+  id: string;
+}
+
+export interface RecordWrite {
+  store: StoreName;
+  value: { id: string };
+}
+
+// Reads several records and writes what the updater returns in one transaction, so either every write is
+// kept or none is. Throwing from the updater aborts the transaction and rejects with that error
+export function updateMany(keys: RecordKey[], updater: (currents: unknown[]) => RecordWrite[]): Promise<void> {
+  return openDB().then(db => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(Array.from(new Set(keys.map(key => key.store))), 'readwrite');
+    const currents: unknown[] = new Array(keys.length);
+    let pending = keys.length;
+    let failure: unknown = null;
+
+    keys.forEach((key, index) => {
+      const getRequest = tx.objectStore(key.store).get(key.id);
+      getRequest.onsuccess = () => {
+        currents[index] = getRequest.result;
+        if (--pending > 0) return;
+        try {
+          updater(currents).forEach(write => tx.objectStore(write.store).put(write.value));
+        } catch (err) {
+          failure = err;
+          tx.abort();
+        }
+      };
+    });
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(failure ?? tx.error);
+  }));
+}
@@ -0,0 +1,88 @@
+import { Discount, Invoice, InvoiceItem } from '@/types/invoice';
+import { allocatePaise, percentOf, toPaise, toRupees } from './money';
+
+// Standard commission media owners allow advertising agencies on the space booked through them
+export const AGENCY_COMMISSION_RATE = 15;
+
+export interface DeductionInput {
+  items: InvoiceItem[];
+  discount?: Discount; // Invoice-level, on top of any line discounts
+  agencyCommissionRate?: number;
+}
+
+export interface Deductions {
+  items: InvoiceItem[]; // Same lines with amount reduced to their taxable value
+  grossAmount: number;
+  lineDiscount: number;
+  invoiceDiscount: number;
+  agencyCommission: number;
+}
+
+export interface DeductionLine {
+  label: string;
+  amount: number;
+}
+
+// Never more than the amount it is taken off
+function discountPaise(amount: number, discount?: Discount): number {
+  if (!discount || !(discount.value > 0)) return 0;
+  const paise = discount.type === 'percent' ? percentOf(amount, discount.value) : toPaise(discount.value);
+  return Math.min(paise, amount);
+}
+
+function spread(lines: number[], deduction: number): number[] {
+  const shares = allocatePaise(deduction, lines);
+  return lines.map((line, index) => line - shares[index]);
+}
+
+// Line discounts come off each line first, then the invoice discount and the agency commission are shared out
+// across the lines by value, so each line (and so each GST rate) carries its part of the reduced taxable value
+export function applyDeductions({ items, discount, agencyCommissionRate }: DeductionInput): Deductions {
+  const gross = items.map(item => toPaise(item.amount));
+  const afterLines = gross.map((amount, index) => amount - discountPaise(amount, items[index].discount));
+  const afterLinesTotal = afterLines.reduce((sum, amount) => sum + amount, 0);
+
+  const invoiceDiscount = discountPaise(afterLinesTotal, discount);
+  const afterDiscount = spread(afterLines, invoiceDiscount);
+
+  const commission = agencyCommissionRate ? percentOf(afterLinesTotal - invoiceDiscount, agencyCommissionRate) : 0;
+  const net = spread(afterDiscount, commission);
+
+  const grossTotal = gross.reduce((sum, amount) => sum + amount, 0);
+  return {
+    items: items.map((item, index) => (net[index] === gross[index] ? item : { ...item, amount: toRupees(net[index]) })),
+    grossAmount: toRupees(grossTotal),
+    lineDiscount: toRupees(grossTotal - afterLinesTotal),
+    invoiceDiscount: toRupees(invoiceDiscount),
+    agencyCommission: toRupees(commission)
+  };
+}
+
+// Net taxable value of each line of a saved invoice, in the order of its items
+export function getTaxableItems(invoice: Invoice): InvoiceItem[] {
+  return applyDeductions(invoice).items;
+}
+
+// Rows printed between the line total and the SUB TOTAL; none when nothing was deducted
+export function getDeductionLines(invoice: Invoice): DeductionLine[] {
+  const { grossAmount, lineDiscount, invoiceDiscount, agencyCommission } = applyDeductions(invoice);
+  if (lineDiscount + invoiceDiscount + agencyCommission === 0) return [];
+
+  const lines: DeductionLine[] = [{ label: 'GROSS AMOUNT', amount: grossAmount }];
+  if (lineDiscount) {
+    lines.push({ label: 'Less : Line Discounts', amount: lineDiscount });
+  }
+  if (invoiceDiscount) {
+    const rate = invoice.discount?.type === 'percent' ? ` @ ${invoice.discount.value}%` : '';
+    lines.push({ label: `Less : Discount${rate}`, amount: invoiceDiscount });
+  }
+  if (agencyCommission) {
+    lines.push({ label: `Less : Agency Commission @ ${invoice.agencyCommissionRate}%`, amount: agencyCommission });
+  }
+  return lines;
+}
+
+// Advance received against the PO is adjusted after GST, so the tax invoice value is unchanged
+export function getNetPayable(invoice: Invoice): number {
+  return toRupees(toPaise(invoice.grandTotal) - toPaise(invoice.advance || 0));
+}
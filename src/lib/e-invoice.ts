@@ -0,0 +1,309 @@
+import QRCode from 'qrcode';
+import { CompanyDetails, EInvoiceDetails, Invoice } from '@/types/invoice';
+import { downloadBlob, getStateCodeByName, getStateFromGSTIN, getDocumentFileName } from './utils';
+import { allocateItemTaxes } from './tax-rates';
+import { getCompanyStateCode } from './company';
+import { roundMoney } from './money';
+
+// Local stand-in for the NIC Invoice Registration Portal, see src/app/api/mock-irp
+export const MOCK_IRP_ENDPOINT = '/api/mock-irp';
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const DOC_NUMBER_PATTERN = /^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/;
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+export interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  TrdNm?: string;
+  Pos?: string; // Buyer only: place of supply state code
+  Addr1: string;
+  Addr2?: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number; // Line's share of discounts and agency commission
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  TotItemVal: number;
+}
+
+// NIC e-invoice schema version 1.1; optional blocks we never use (e-way bill, export, payment) are left out
+export interface EInvoicePayload {
+  Version: '1.1';
+  TranDtls: { TaxSch: 'GST'; SupTyp: 'B2B'; RegRev: 'N'; IgstOnIntra: 'N' };
+  DocDtls: { Typ: 'INV' | 'CRN' | 'DBN'; No: string; Dt: string };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty;
+  ItemList: EInvoiceItem[];
+  ValDtls: { AssVal: number; CgstVal: number; SgstVal: number; IgstVal: number; RndOffAmt: number; TotInvVal: number };
+  RefDtls?: { PrecDocDtls: { InvNo: string; InvDt: string }[] };
+}
+
+export interface EInvoiceFieldError {
+  field: string; // Path in the payload, e.g. BuyerDtls.Gstin or ItemList[0].HsnCd
+  message: string;
+}
+
+// 2026-04-15 -> 15/04/2026
+function toIrpDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+// The schema caps each address line at 100 characters, so long addresses spill into Addr2
+function splitAddress(address: string): { Addr1: string; Addr2?: string } {
+  const clean = address.replace(/\s+/g, ' ').trim();
+  if (clean.length <= 100) return { Addr1: clean };
+  const cut = clean.lastIndexOf(' ', 100) > 0 ? clean.lastIndexOf(' ', 100) : 100;
+  return { Addr1: clean.slice(0, cut).trim(), Addr2: clean.slice(cut).trim().slice(0, 100) };
+}
+
+function toSellerParty(company: CompanyDetails): EInvoiceParty {
+  return {
+    Gstin: company.gstin,
+    LglNm: company.name,
+    ...splitAddress(company.address),
+    Loc: company.city.trim(),
+    Pin: Number(company.pincode) || 0,
+    Stcd: getCompanyStateCode(company),
+    // The IRP wants the number without country code or punctuation
+    Ph: company.phone.replace(/\D/g, '').replace(/^91(?=\d{10}$)/, '') || undefined,
+    Em: company.email.trim() || undefined
+  };
+}
+
+export function buildEInvoicePayload(invoice: Invoice, company: CompanyDetails): EInvoicePayload {
+  const party = invoice.billingParty;
+  const buyerState = getStateFromGSTIN(party.gstin)?.code || getStateCodeByName(party.state) || '';
+  const lines = allocateItemTaxes(invoice);
+  const taxTotal = invoice.igst + invoice.cgst + invoice.sgst;
+
+  const payload: EInvoicePayload = {
+    Version: '1.1',
+    TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+    DocDtls: {
+      Typ: invoice.documentType === 'credit-note' ? 'CRN' : invoice.documentType === 'debit-note' ? 'DBN' : 'INV',
+      No: invoice.invoiceNumber,
+      Dt: toIrpDate(invoice.invoiceDate)
+    },
+    SellerDtls: toSellerParty(company),
+    BuyerDtls: {
+      Gstin: party.gstin.trim().toUpperCase(),
+      LglNm: party.name.trim(),
+      Pos: invoice.placeOfSupply?.code || buyerState,
+      ...splitAddress(party.address),
+      Loc: party.city.trim(),
+      Pin: Number(party.pincode) || 0,
+      Stcd: buyerState,
+      Ph: party.phone?.replace(/\D/g, '') || undefined,
+      Em: party.email?.trim() || undefined
+    },
+    ItemList: lines.map(({ item, rate, taxableValue, igst, cgst, sgst }, index) => ({
+      SlNo: String(index + 1),
+      PrdDesc: [item.media, item.location, item.town].filter(part => part && part.trim()).join(', ') || 'Advertising services',
+      IsServc: 'Y',
+      HsnCd: item.hsn.trim(),
+      UnitPrice: roundMoney(item.amount),
+      TotAmt: roundMoney(item.amount),
+      Discount: roundMoney(item.amount - taxableValue),
+      AssAmt: roundMoney(taxableValue),
+      GstRt: rate,
+      IgstAmt: igst,
+      CgstAmt: cgst,
+      SgstAmt: sgst,
+      TotItemVal: roundMoney(taxableValue + igst + cgst + sgst)
+    })),
+    ValDtls: {
+      AssVal: roundMoney(invoice.subtotal),
+      CgstVal: roundMoney(invoice.cgst),
+      SgstVal: roundMoney(invoice.sgst),
+      IgstVal: roundMoney(invoice.igst),
+      // Older invoices carry no roundOff, so fall back to whatever separates the total from its parts
+      RndOffAmt: roundMoney(invoice.roundOff ?? invoice.grandTotal - invoice.subtotal - taxTotal),
+      TotInvVal: roundMoney(invoice.grandTotal)
+    }
+  };
+
+  if (invoice.originalInvoice) {
+    payload.RefDtls = {
+      PrecDocDtls: [{ InvNo: invoice.originalInvoice.invoiceNumber, InvDt: toIrpDate(invoice.originalInvoice.invoiceDate) }]
+    };
+  }
+  return payload;
+}
+
+function validateParty(party: EInvoiceParty, prefix: string, errors: EInvoiceFieldError[]): void {
+  const add = (field: string, message: string) => errors.push({ field: `${prefix}.${field}`, message });
+
+  if (!GSTIN_PATTERN.test(party.Gstin)) add('Gstin', 'must be a valid 15-character GSTIN');
+  if (party.LglNm.length < 3 || party.LglNm.length > 100) add('LglNm', 'legal name must be 3–100 characters');
+  if (!party.Addr1 || party.Addr1.length > 100) add('Addr1', 'address is required (max 100 characters)');
+  if (party.Loc.length < 3 || party.Loc.length > 50) add('Loc', 'city/location must be 3–50 characters');
+  if (!Number.isInteger(party.Pin) || party.Pin < 100000 || party.Pin > 999999) add('Pin', 'must be a 6-digit PIN code');
+  if (!/^\d{2}$/.test(party.Stcd)) add('Stcd', 'state code is missing');
+  if (party.Gstin && party.Stcd && party.Gstin.slice(0, 2) !== party.Stcd) add('Stcd', `does not match the GSTIN state code ${party.Gstin.slice(0, 2)}`);
+  if (party.Ph && !/^\d{6,12}$/.test(party.Ph)) add('Ph', 'phone must be 6–12 digits');
+  if (party.Em && !/^\S+@\S+\.\S+$/.test(party.Em)) add('Em', 'email is not valid');
+}
+
+// Field-level checks mirroring the NIC schema and its value validations
+export function validateEInvoicePayload(payload: EInvoicePayload): EInvoiceFieldError[] {
+  const errors: EInvoiceFieldError[] = [];
+  const add = (field: string, message: string) => errors.push({ field, message });
+
+  if (!DOC_NUMBER_PATTERN.test(payload.DocDtls.No)) {
+    add('DocDtls.No', 'document number must be 1–16 characters of letters, digits, / or -, not starting with 0, / or -');
+  }
+  if (!/^\d{2}\/\d{2}\/\d{4}$/.test(payload.DocDtls.Dt)) add('DocDtls.Dt', 'date must be in dd/mm/yyyy format');
+
+  validateParty(payload.SellerDtls, 'SellerDtls', errors);
+  validateParty(payload.BuyerDtls, 'BuyerDtls', errors);
+  if (!/^\d{2}$/.test(payload.BuyerDtls.Pos || '')) add('BuyerDtls.Pos', 'place of supply is missing');
+  if (payload.SellerDtls.Gstin && payload.SellerDtls.Gstin === payload.BuyerDtls.Gstin) {
+    add('BuyerDtls.Gstin', 'buyer and seller GSTIN cannot be the same');
+  }
+
+  if (payload.ItemList.length === 0 || payload.ItemList.length > 1000) add('ItemList', 'must have between 1 and 1000 items');
+  const isInterstate = payload.SellerDtls.Stcd !== payload.BuyerDtls.Pos;
+
+  payload.ItemList.forEach((item, index) => {
+    const path = `ItemList[${index}]`;
+    if (item.PrdDesc.length < 3 || item.PrdDesc.length > 300) add(`${path}.PrdDesc`, 'description must be 3–300 characters');
+    if (!/^(\d{4}|\d{6}|\d{8})$/.test(item.HsnCd)) add(`${path}.HsnCd`, 'HSN/SAC must be 4, 6 or 8 digits');
+    else if (item.IsServc === 'Y' && !item.HsnCd.startsWith('99')) add(`${path}.HsnCd`, 'services must use a SAC starting with 99');
+    if (!GST_RATES.includes(item.GstRt)) add(`${path}.GstRt`, `${item.GstRt}% is not a valid GST rate`);
+    if (item.AssAmt < 0) add(`${path}.AssAmt`, 'taxable value cannot be negative');
+    if (Math.abs(roundMoney(item.TotAmt - item.Discount) - item.AssAmt) > 0.01) add(`${path}.AssAmt`, 'should be TotAmt less Discount');
+    if (isInterstate && (item.CgstAmt !== 0 || item.SgstAmt !== 0)) add(`${path}.CgstAmt`, 'inter-state supply must be charged IGST only');
+    if (!isInterstate && item.IgstAmt !== 0) add(`${path}.IgstAmt`, 'intra-state supply must be charged CGST and SGST');
+    const expected = roundMoney(item.AssAmt + item.IgstAmt + item.CgstAmt + item.SgstAmt);
+    if (Math.abs(expected - item.TotItemVal) > 0.01) add(`${path}.TotItemVal`, `should be ${expected}`);
+  });
+
+  const sum = (pick: (item: EInvoiceItem) => number) => roundMoney(payload.ItemList.reduce((total, item) => total + pick(item), 0));
+  const totals: [keyof EInvoicePayload['ValDtls'], number][] = [
+    ['AssVal', sum(item => item.AssAmt)],
+    ['IgstVal', sum(item => item.IgstAmt)],
+    ['CgstVal', sum(item => item.CgstAmt)],
+    ['SgstVal', sum(item => item.SgstAmt)]
+  ];
+  totals.forEach(([field, expected]) => {
+    if (Math.abs(payload.ValDtls[field] - expected) > 1) add(`ValDtls.${field}`, `does not match the item total of ${expected}`);
+  });
+  const { AssVal, CgstVal, SgstVal, IgstVal, RndOffAmt, TotInvVal } = payload.ValDtls;
+  if (Math.abs(RndOffAmt) > 99.99) add('ValDtls.RndOffAmt', 'round-off must be within ±99.99');
+  if (Math.abs(roundMoney(AssVal + CgstVal + SgstVal + IgstVal + RndOffAmt) - TotInvVal) > 0.01) {
+    add('ValDtls.TotInvVal', 'must equal taxable value + taxes + round-off');
+  }
+
+  return errors;
+}
+
+export function formatFieldErrors(errors: EInvoiceFieldError[]): string {
+  return errors.map(error => `${error.field}: ${error.message}`).join('\n');
+}
+
+export function downloadEInvoiceJson(invoice: Invoice, company: CompanyDetails): void {
+  const payload = buildEInvoicePayload(invoice, company);
+  const errors = validateEInvoicePayload(payload);
+  if (errors.length > 0) {
+    throw new Error(`The e-invoice has ${errors.length} error(s):\n${formatFieldErrors(errors)}`);
+  }
+  // The IRP bulk upload tool takes an array of documents
+  const blob = new Blob([JSON.stringify([payload], null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `EInvoice_${getDocumentFileName(invoice, 'json')}`);
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+// Accepts the IRP API response ({ Status, Data, ErrorDetails }) or the record downloaded from the portal
+export function parseIrpResponse(response: unknown): EInvoiceDetails {
+  let data = asObject(Array.isArray(response) ? response[0] : response);
+  if (!data) {
+    throw new Error('The IRP response is not a JSON object');
+  }
+
+  if (data.Status === 0 || data.Status === '0') {
+    const details = Array.isArray(data.ErrorDetails) ? data.ErrorDetails as { ErrorCode?: string; ErrorMessage?: string }[] : [];
+    const messages = details.map(detail => `${detail.ErrorCode || ''} ${detail.ErrorMessage || ''}`.trim());
+    throw new Error(`The IRP rejected the invoice:\n${messages.join('\n') || 'No error details returned'}`);
+  }
+  if ('Data' in data) {
+    data = asObject(typeof data.Data === 'string' ? JSON.parse(data.Data) : data.Data);
+    if (!data) {
+      throw new Error('The IRP response has no registration data');
+    }
+  }
+
+  const irn = String(data.Irn || '');
+  const ackNo = String(data.AckNo || '');
+  const signedQrCode = String(data.SignedQRCode || '');
+  if (!/^[0-9a-f]{64}$/i.test(irn)) {
+    throw new Error('Irn must be the 64-character hash returned by the IRP');
+  }
+  if (!/^\d+$/.test(ackNo)) {
+    throw new Error('AckNo is missing from the IRP response');
+  }
+  if (signedQrCode.split('.').length !== 3) {
+    throw new Error('SignedQRCode is missing or is not a signed token');
+  }
+
+  return {
+    irn: irn.toLowerCase(),
+    ackNo,
+    ackDate: String(data.AckDt || ''),
+    signedQrCode,
+    signedInvoice: data.SignedInvoice ? String(data.SignedInvoice) : undefined
+  };
+}
+
+export async function readIrpResponseFile(file: File): Promise<EInvoiceDetails> {
+  const text = await file.text();
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`${file.name} is not a JSON file`);
+  }
+  return parseIrpResponse(json);
+}
+
+export async function requestMockIrn(invoice: Invoice, company: CompanyDetails, endpoint: string = MOCK_IRP_ENDPOINT): Promise<EInvoiceDetails> {
+  const payload = buildEInvoicePayload(invoice, company);
+  const errors = validateEInvoicePayload(payload);
+  if (errors.length > 0) {
+    throw new Error(`The e-invoice has ${errors.length} error(s):\n${formatFieldErrors(errors)}`);
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  return parseIrpResponse(await response.json());
+}
+
+// Dark/light modules of the QR code, for drawing into the PDF or an SVG
+export function getQrMatrix(text: string): boolean[][] {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => Boolean(modules.get(row, col)))
+  );
+}
@@ -1,80 +1,83 @@
 import * as XLSX from 'xlsx';
-import { Invoice } from '@/types/invoice';
+import { CompanyDetails, Invoice } from '@/types/invoice';
+import { getDocumentFileName } from './utils';
+import { DocumentRow, buildInvoiceDocument, formatField } from './invoice-document';
 
-export function generateInvoiceExcel(invoice: Invoice): void {
+// Amounts and quantities stay numbers so the sheet can total them
+const toCells = (row: DocumentRow) => row.cells.map(cell => cell.value);
+
+export function createInvoiceWorkbook(invoice: Invoice, company: CompanyDetails): XLSX.WorkBook {
   // Create a new workbook
   const wb = XLSX.utils.book_new();
+  // Same headings, labels and rows as the PDF and the preview. The sheet keeps the standard layout's full
+  // column set whatever PDF template the invoice uses, so every field can still be filtered and summed.
+  const model = buildInvoiceDocument(invoice, company);
+  const labels = model.labels;
+  const [numberField, dateField, ...otherDetails] = model.details;
   
   // Company Header Data
   const headerData = [
-    ['DESHKAR ADVERTISING'],
-    ['Shop No. 123, Advertisement Plaza'],
-    ['Mumbai, Maharashtra - 400001'],
-    ['Phone: +91 98765 43210 | Email: info@deshkaradvertising.com'],
-    ['GSTIN: 27AAAAA0000A1Z5'],
+    [model.company.name],
+    [model.company.address],
+    [model.company.contact.join(' | ')],
+    [model.company.registration],
     [''],
-    ['TAX INVOICE'],
+    [labels.title.toUpperCase()],
     [''],
-    [`Invoice No: ${invoice.invoiceNumber}`, '', '', `Invoice Date: ${invoice.invoiceDate}`],
-    [invoice.dueDate ? `Due Date: ${invoice.dueDate}` : ''],
+    [formatField(numberField), '', '', formatField(dateField)],
+    ...otherDetails.map(field => [formatField(field)]),
     [''],
-    ['BILL TO:'],
-    [invoice.billingParty.name],
-    [invoice.billingParty.address],
-    [`${invoice.billingParty.city}, ${invoice.billingParty.state} - ${invoice.billingParty.pincode}`],
-    [`GSTIN: ${invoice.billingParty.gstin}`],
+    [model.party.heading],
+    [model.party.name],
+    [model.party.address],
+    [model.party.cityLine],
+    ...model.party.fields.map(field => [formatField(field)]),
     [''],
-    ['INVOICE DETAILS:'],
-    ['S.No.', 'Town', 'Location', 'HSN', 'Media', 'Size', 'Area', 'Type', 'Rate P.M.', 'Period', 'Amount']
+    ...(model.description ? [
+      [model.description.heading],
+      [formatField(model.description.display)],
+      [formatField(model.description.duration)],
+      ['']
+    ] : []),
+    model.columns.map(column => column.label)
   ];
   
   // Add invoice items
-  const itemsData = invoice.items.map(item => [
-    item.sno,
-    item.town,
-    item.location,
-    item.hsn,
-    item.media,
-    item.size,
-    item.area,
-    item.type,
-    item.ratePM,
-    item.period,
-    item.amount
-  ]);
+  const itemsData = model.items.map(toCells);
   
-  // Tax summary data
+  // Totals under the items
   const taxData = [
     [''],
-    ['', '', '', '', '', '', '', '', 'Subtotal:', '', invoice.subtotal],
+    ...model.totals.map(toCells)
   ];
   
-  if (invoice.cgst > 0) {
-    taxData.push(
-      ['', '', '', '', '', '', '', '', 'CGST:', '', invoice.cgst],
-      ['', '', '', '', '', '', '', '', 'SGST:', '', invoice.sgst]
-    );
-  } else {
-    taxData.push(['', '', '', '', '', '', '', '', 'IGST:', '', invoice.igst]);
-  }
-  
-  taxData.push(['', '', '', '', '', '', '', '', 'Grand Total:', '', invoice.grandTotal]);
-  
   // Amount in words
   const wordsData = [
     [''],
-    [`Amount in Words: ${invoice.totalInWords}`],
+    [model.amountInWords],
+    ...(model.netReceivable ? [[model.netReceivable]] : []),
     ['']
   ];
+
+  // HSN/SAC-wise tax summary
+  const hsnData = model.hsn ? [
+    ['HSN/SAC SUMMARY:'],
+    model.hsn.head,
+    ...model.hsn.rows.map(toCells),
+    ['']
+  ] : [];
   
-  // Terms and conditions
+  // Terms and conditions (notes carry the reason for the adjustment instead)
   const termsData = [
-    ['TERMS & CONDITIONS:'],
-    ...invoice.termsAndConditions.map((term, index) => [`${index + 1}. ${term}`]),
-    [''],
-    [''],
-    ['For DESHKAR ADVERTISING'],
-    ['Authorized Signatory']
+    ...(invoice.originalInvoice || !model.terms.length ? [] : [['TERMS & CONDITIONS:']]),
+    ...model.terms.map(term => [term]),
+    ...(model.bankDetails ? [[''], [model.bankDetails]] : []),
+    ...(model.signature ? [
+      [''],
+      [''],
+      [model.signature.forCompany],
+      [model.signature.signatory]
+    ] : [])
   ];
   
   // Combine all data
@@ -83,6 +86,7 @@ export function generateInvoiceExcel(invoice: Invoice): void {
     ...itemsData,
     ...taxData,
     ...wordsData,
+    ...hsnData,
     ...termsData
   ];
   
@@ -109,12 +113,12 @@ export function generateInvoiceExcel(invoice: Invoice): void {
   const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
   
   // Apply styles to specific cells (basic styling)
-  for (let row = 0; row <= 6; row++) {
+  for (let row = 0; row <= 5; row++) {
     for (let col = 0; col <= range.e.c; col++) {
       const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
       if (ws[cellAddress]) {
         ws[cellAddress].s = {
-          font: { bold: true, sz: row === 0 ? 16 : row === 6 ? 14 : 12 },
+          font: { bold: true, sz: row === 0 ? 16 : row === 5 ? 14 : 12 },
           alignment: { horizontal: 'center' }
         };
       }
@@ -135,8 +139,56 @@ export function generateInvoiceExcel(invoice: Invoice): void {
   }
   
   // Add worksheet to workbook
-  XLSX.utils.book_append_sheet(wb, ws, 'Invoice');
+  XLSX.utils.book_append_sheet(wb, ws, labels.file);
   
-  // Save the file
-  XLSX.writeFile(wb, `Invoice_${invoice.invoiceNumber}.xlsx`);
+  return wb;
+}
+
+export function generateInvoiceExcel(invoice: Invoice, company: CompanyDetails): void {
+  XLSX.writeFile(createInvoiceWorkbook(invoice, company), getDocumentFileName(invoice, 'xlsx'));
+}
+
+// The .xlsx file's bytes, for bundling several invoices into one download
+export function getInvoiceExcelBytes(invoice: Invoice, company: CompanyDetails): Uint8Array {
+  return new Uint8Array(XLSX.write(createInvoiceWorkbook(invoice, company), { type: 'array', bookType: 'xlsx' }));
+}
+
+export interface SheetPreviewCell {
+  text: string;
+  numeric: boolean;
+}
+
+export interface SheetPreview {
+  name: string;
+  columns: { label: string; width: number }[]; // Width in characters, as Excel sizes columns
+  rows: SheetPreviewCell[][];
+}
+
+// The workbook's cell values and column widths, for previewing before the download.
+// Styles are left out: the community xlsx build does not write them to the file.
+export function getInvoiceSheetPreview(invoice: Invoice, company: CompanyDetails): SheetPreview {
+  const wb = createInvoiceWorkbook(invoice, company);
+  const name = wb.SheetNames[0];
+  const ws = wb.Sheets[name];
+  const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
+  const widths = ws['!cols'] || [];
+
+  const columns = [];
+  for (let col = 0; col <= range.e.c; col++) {
+    columns.push({ label: XLSX.utils.encode_col(col), width: widths[col]?.wch || 10 });
+  }
+
+  const rows: SheetPreviewCell[][] = [];
+  for (let row = 0; row <= range.e.r; row++) {
+    const cells: SheetPreviewCell[] = [];
+    for (let col = 0; col <= range.e.c; col++) {
+      const cell = ws[XLSX.utils.encode_cell({ r: row, c: col })];
+      cells.push({
+        text: cell?.v === undefined ? '' : String(cell.v),
+        numeric: cell?.t === 'n'
+      });
+    }
+    rows.push(cells);
+  }
+  return { name, columns, rows };
 }
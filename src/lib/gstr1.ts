@@ -0,0 +1,597 @@
+import * as XLSX from 'xlsx';
+import { BillingParty, CompanyDetails, Invoice, InvoiceItem, InvoiceRecord, NoteRecord, TaxRateRow } from '@/types/invoice';
+import { getAll } from './db';
+import { listInvoiceRecords } from './invoice-register';
+import { combineHsnRows, summarizeHsn } from './hsn-summary';
+import { getCompanyDetails, isIssuedBy } from './company';
+import { getTaxBreakup } from './tax-rates';
+import { getTaxableItems } from './discounts';
+import { downloadBlob, getStateCodeByName, getStateFromGSTIN, GST_STATE_CODES } from './utils';
+import { roundMoney } from './money';
+
+// Inter-state supplies to unregistered persons above this invoice value are reported invoice-wise in B2CL
+export const B2CL_THRESHOLD = 100000;
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+interface Gstr1ItemDetail {
+  txval: number;
+  rt: number;
+  iamt?: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface Gstr1Item {
+  num: number;
+  itm_det: Gstr1ItemDetail;
+}
+
+// Regular supplies, or zero-rated supplies to an SEZ without payment of tax (under LUT)
+type Gstr1InvoiceType = 'R' | 'SEWOP';
+
+interface Gstr1B2BInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: Gstr1InvoiceType;
+  itms: Gstr1Item[];
+}
+
+interface Gstr1B2CLInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  itms: Gstr1Item[];
+}
+
+interface Gstr1B2CS {
+  sply_ty: 'INTRA' | 'INTER';
+  pos: string;
+  typ: 'OE';
+  txval: number;
+  rt: number;
+  iamt?: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface Gstr1Note {
+  ntty: 'C' | 'D';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: Gstr1InvoiceType;
+  itms: Gstr1Item[];
+}
+
+// Zero-rated supplies to buyers without a GSTIN are exports of services, made without payment of tax (under LUT)
+interface Gstr1ExportInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  itms: { txval: number; rt: number; iamt: number; csamt: number }[];
+}
+
+// Notes to unregistered buyers against B2CL invoices and exports, reported note-wise
+interface Gstr1UnregisteredNote {
+  ntty: 'C' | 'D';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  typ: 'B2CL' | 'EXPWOP';
+  pos?: string; // B2CL only
+  itms: Gstr1Item[];
+}
+
+// Table 8: exempt and nil-rated supplies, by inter/intra-state and registered/unregistered recipient
+interface Gstr1Nil {
+  sply_ty: 'INTRB2B' | 'INTRAB2B' | 'INTRB2C' | 'INTRAB2C';
+  expt_amt: number;
+  nil_amt: number;
+  ngsup_amt: number;
+}
+
+interface Gstr1Hsn {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: 'NA';
+  qty: number;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1Return {
+  gstin: string;
+  fp: string; // Return period as MMYYYY
+  version: string;
+  b2b: { ctin: string; inv: Gstr1B2BInvoice[] }[];
+  b2cl: { pos: string; inv: Gstr1B2CLInvoice[] }[];
+  b2cs: Gstr1B2CS[];
+  exp: { exp_typ: 'WOPAY'; inv: Gstr1ExportInvoice[] }[];
+  cdnr: { ctin: string; nt: Gstr1Note[] }[];
+  cdnur: Gstr1UnregisteredNote[];
+  nil: { inv: Gstr1Nil[] };
+  hsn: { data: Gstr1Hsn[] };
+}
+
+// An invoice or note reduced to what the return needs
+interface TaxDocument {
+  kind: 'invoice' | 'credit-note' | 'debit-note';
+  source: Invoice;
+  number: string;
+  date: string;
+  party: BillingParty;
+  pos: string;
+  isInterstate: boolean;
+  breakup: TaxRateRow[];
+  items: InvoiceItem[];
+  txval: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  val: number;
+  invoiceValue: number; // For a note, the total of the invoice it adjusts
+}
+
+export interface Gstr1Totals {
+  txval: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+}
+
+export interface Gstr1Result {
+  period: string; // YYYY-MM
+  data: Gstr1Return;
+  documents: TaxDocument[];
+  totals: Gstr1Totals;
+  errors: string[];
+}
+
+// 2026-04-15 -> 15-04-2026, the date format used by the GST portal
+function toReturnDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}-${month}-${year}`;
+}
+
+export function getReturnPeriod(period: string): string {
+  const [year, month] = period.split('-');
+  return `${month}${year}`;
+}
+
+// Invoice and note types as the offline tool spells them
+const SUPPLY_TYPE_LABELS: Record<Gstr1InvoiceType, string> = {
+  R: 'Regular B2B',
+  SEWOP: 'SEZ supplies without payment'
+};
+
+const NIL_SUPPLY_DESCRIPTIONS: Record<Gstr1Nil['sply_ty'], string> = {
+  INTRB2B: 'Inter-State supplies to registered persons',
+  INTRAB2B: 'Intra-State supplies to registered persons',
+  INTRB2C: 'Inter-State supplies to unregistered persons',
+  INTRAB2C: 'Intra-State supplies to unregistered persons'
+};
+
+function isRegistered(party: BillingParty): boolean {
+  return party.gstin.trim() !== '';
+}
+
+// Documents mixing zero-rated lines with others fail validation, so a zero-rated document is reported as a whole
+function isZeroRated(doc: TaxDocument): boolean {
+  return doc.breakup.some(row => row.category === 'zero-rated');
+}
+
+// Inter-state invoices to unregistered buyers above the threshold, and the notes against them
+function isB2cl(doc: TaxDocument): boolean {
+  return !isRegistered(doc.party) && doc.isInterstate && doc.invoiceValue > B2CL_THRESHOLD;
+}
+
+// Older documents without a stored place of supply fall back to the buyer's state, then our own
+function getPlaceOfSupply(invoice: Invoice, sellerStateCode: string): string {
+  const party = invoice.billingParty;
+  return invoice.placeOfSupply?.code || getStateFromGSTIN(party.gstin)?.code || getStateCodeByName(party.state) || sellerStateCode;
+}
+
+function formatPlaceOfSupply(code: string): string {
+  return `${code}-${GST_STATE_CODES[code]?.state || ''}`;
+}
+
+function taxDetail(txval: number, rate: number, igst: number, cgst: number, sgst: number, isInterstate: boolean): Gstr1ItemDetail {
+  return isInterstate
+    ? { txval: roundMoney(txval), rt: rate, iamt: roundMoney(igst), csamt: 0 }
+    : { txval: roundMoney(txval), rt: rate, camt: roundMoney(cgst), samt: roundMoney(sgst), csamt: 0 };
+}
+
+// Exempt and nil-rated lines go to Table 8 instead of the invoice-wise sections
+function isNilRow(row: TaxRateRow): boolean {
+  return row.category === 'exempt' || (row.category === 'taxable' && row.rate === 0);
+}
+
+// One item per rate on the document, which the portal numbers as rate * 100 + 1
+function documentItems(doc: TaxDocument): Gstr1Item[] {
+  return doc.breakup.filter(row => !isNilRow(row)).map(row => ({
+    num: row.rate * 100 + 1,
+    itm_det: taxDetail(row.taxableValue, row.rate, row.igst, row.cgst, row.sgst, doc.isInterstate)
+  }));
+}
+
+// B2CL invoices and the notes against them carry IGST only
+function igstItems(items: Gstr1Item[]): Gstr1Item[] {
+  return items.map(item => ({ num: item.num, itm_det: { txval: item.itm_det.txval, rt: item.itm_det.rt, iamt: item.itm_det.iamt, csamt: 0 } }));
+}
+
+function fromInvoiceRecord(record: InvoiceRecord, sellerStateCode: string): TaxDocument {
+  const { invoice, formData } = record;
+  return {
+    kind: 'invoice',
+    source: invoice,
+    number: invoice.invoiceNumber,
+    date: invoice.invoiceDate,
+    party: invoice.billingParty,
+    pos: getPlaceOfSupply(invoice, sellerStateCode),
+    isInterstate: formData.isInterstate,
+    breakup: getTaxBreakup(invoice),
+    items: invoice.items,
+    txval: invoice.subtotal,
+    igst: invoice.igst,
+    cgst: invoice.cgst,
+    sgst: invoice.sgst,
+    val: invoice.grandTotal,
+    invoiceValue: invoice.grandTotal
+  };
+}
+
+function fromNoteRecord(record: NoteRecord, original: InvoiceRecord | undefined, sellerStateCode: string): TaxDocument {
+  const { note } = record;
+  return {
+    kind: note.documentType,
+    source: note,
+    number: note.invoiceNumber,
+    date: note.invoiceDate,
+    party: note.billingParty,
+    pos: getPlaceOfSupply(note, sellerStateCode),
+    isInterstate: record.isInterstate,
+    breakup: getTaxBreakup(note),
+    items: note.items,
+    txval: note.subtotal,
+    igst: note.igst,
+    cgst: note.cgst,
+    sgst: note.sgst,
+    val: note.grandTotal,
+    invoiceValue: original?.invoice.grandTotal ?? 0
+  };
+}
+
+function validateDocument(doc: TaxDocument): string[] {
+  const errors: string[] = [];
+  const label = `${doc.kind === 'invoice' ? 'Invoice' : doc.kind === 'credit-note' ? 'Credit note' : 'Debit note'} ${doc.number}`;
+  const gstin = doc.party.gstin.trim();
+
+  if (gstin && !GSTIN_PATTERN.test(gstin)) {
+    errors.push(`${label}: recipient GSTIN ${gstin} is not valid`);
+  }
+  if (!doc.pos || !GST_STATE_CODES[doc.pos]) {
+    errors.push(`${label}: place of supply could not be determined from the GSTIN or state`);
+  }
+  doc.items.forEach(item => {
+    if (!/^\d{4,8}$/.test(item.hsn.trim())) {
+      errors.push(`${label}: item ${item.sno} has no valid HSN/SAC code`);
+    }
+  });
+
+  // Lines are compared after discounts and agency commission, as the taxable value is
+  const itemTotal = roundMoney(getTaxableItems(doc.source).reduce((sum, item) => sum + item.amount, 0));
+  if (Math.abs(itemTotal - doc.txval) > 1) {
+    errors.push(`${label}: line items add up to ${itemTotal} but the taxable value is ${doc.txval}`);
+  }
+  // Zero-rated supplies go to their own sections (SEZ in B2B/CDNR, exports in EXP/CDNUR) invoice by invoice
+  if (isZeroRated(doc)) {
+    if (doc.breakup.some(row => row.category !== 'zero-rated')) {
+      errors.push(`${label}: mixes zero-rated lines with other supplies; issue the zero-rated lines on their own document`);
+    }
+    if (!doc.isInterstate) {
+      errors.push(`${label}: zero-rated supplies are inter-state, so the document must be billed under IGST`);
+    }
+  }
+  const tax = doc.isInterstate ? doc.igst : doc.cgst + doc.sgst;
+  if (doc.isInterstate ? doc.cgst + doc.sgst !== 0 : doc.igst !== 0) {
+    errors.push(`${label}: mixes IGST with CGST/SGST`);
+  }
+  // Allow a rupee for the CGST/SGST halves being rounded separately
+  if (Math.abs(doc.txval + tax - doc.val) > 1) {
+    errors.push(`${label}: taxable value ${doc.txval} + tax ${tax} does not match the total of ${doc.val}`);
+  }
+  return errors;
+}
+
+function sumTotals(entries: { txval: number; iamt?: number; camt?: number; samt?: number }[], sign = 1): Gstr1Totals {
+  return entries.reduce<Gstr1Totals>((totals, entry) => ({
+    txval: totals.txval + sign * entry.txval,
+    igst: totals.igst + sign * (entry.iamt || 0),
+    cgst: totals.cgst + sign * (entry.camt || 0),
+    sgst: totals.sgst + sign * (entry.samt || 0)
+  }), { txval: 0, igst: 0, cgst: 0, sgst: 0 });
+}
+
+function addTotals(...totals: Gstr1Totals[]): Gstr1Totals {
+  return totals.reduce((sum, total) => ({
+    txval: roundMoney(sum.txval + total.txval),
+    igst: roundMoney(sum.igst + total.igst),
+    cgst: roundMoney(sum.cgst + total.cgst),
+    sgst: roundMoney(sum.sgst + total.sgst)
+  }), { txval: 0, igst: 0, cgst: 0, sgst: 0 });
+}
+
+// A return is filed per GSTIN, so only documents issued by that company are included
+export function buildGstr1(period: string, records: InvoiceRecord[], notes: NoteRecord[], company: CompanyDetails): Gstr1Result {
+  const inPeriod = (date: string) => date.startsWith(period);
+  const sellerGstin = company.gstin;
+  const sellerStateCode = sellerGstin.substring(0, 2);
+  const recordsById = new Map(records.map(record => [record.id, record]));
+  const documents = [
+    ...records
+      .filter(record => record.status === 'issued' && isIssuedBy(record.invoice, company.id) && inPeriod(record.invoice.invoiceDate))
+      .map(record => fromInvoiceRecord(record, sellerStateCode)),
+    ...notes
+      .filter(record => isIssuedBy(record.note, company.id) && inPeriod(record.note.invoiceDate))
+      .map(record => fromNoteRecord(record, recordsById.get(record.originalRecordId), sellerStateCode))
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+
+  const errors = documents.flatMap(validateDocument);
+  if (documents.length === 0) {
+    errors.push(`No issued invoices or notes dated in ${period}`);
+  }
+
+  const b2b = new Map<string, Gstr1B2BInvoice[]>();
+  const b2cl = new Map<string, Gstr1B2CLInvoice[]>();
+  const b2cs = new Map<string, Gstr1B2CS>();
+  const cdnr = new Map<string, Gstr1Note[]>();
+  const cdnur: Gstr1UnregisteredNote[] = [];
+  const exp: Gstr1ExportInvoice[] = [];
+  const nil = new Map<Gstr1Nil['sply_ty'], Gstr1Nil>();
+
+  documents.forEach(doc => {
+    const ctin = doc.party.gstin.trim().toUpperCase();
+    const sign = doc.kind === 'credit-note' ? -1 : 1;
+    const items = documentItems(doc);
+    const zeroRated = isZeroRated(doc);
+
+    doc.breakup.filter(isNilRow).forEach(row => {
+      const supplyType = `${doc.isInterstate ? 'INTR' : 'INTRA'}${isRegistered(doc.party) ? 'B2B' : 'B2C'}` as Gstr1Nil['sply_ty'];
+      const entry = nil.get(supplyType) || { sply_ty: supplyType, expt_amt: 0, nil_amt: 0, ngsup_amt: 0 };
+      if (row.category === 'exempt') {
+        entry.expt_amt = roundMoney(entry.expt_amt + sign * row.taxableValue);
+      } else {
+        entry.nil_amt = roundMoney(entry.nil_amt + sign * row.taxableValue);
+      }
+      nil.set(supplyType, entry);
+    });
+
+    if (items.length === 0) {
+      return;
+    } else if (doc.kind === 'invoice' && isRegistered(doc.party)) {
+      b2b.set(ctin, [...(b2b.get(ctin) || []), {
+        inum: doc.number,
+        idt: toReturnDate(doc.date),
+        val: roundMoney(doc.val),
+        pos: doc.pos,
+        rchrg: 'N',
+        inv_typ: zeroRated ? 'SEWOP' : 'R',
+        itms: items
+      }]);
+    } else if (doc.kind === 'invoice' && zeroRated) {
+      exp.push({
+        inum: doc.number,
+        idt: toReturnDate(doc.date),
+        val: roundMoney(doc.val),
+        itms: items.map(({ itm_det: detail }) => ({ txval: detail.txval, rt: detail.rt, iamt: detail.iamt || 0, csamt: 0 }))
+      });
+    } else if (doc.kind === 'invoice' && isB2cl(doc)) {
+      b2cl.set(doc.pos, [...(b2cl.get(doc.pos) || []), {
+        inum: doc.number,
+        idt: toReturnDate(doc.date),
+        val: roundMoney(doc.val),
+        itms: igstItems(items)
+      }]);
+    } else if (doc.kind !== 'invoice' && isRegistered(doc.party)) {
+      cdnr.set(ctin, [...(cdnr.get(ctin) || []), {
+        ntty: doc.kind === 'credit-note' ? 'C' : 'D',
+        nt_num: doc.number,
+        nt_dt: toReturnDate(doc.date),
+        val: roundMoney(doc.val),
+        pos: doc.pos,
+        rchrg: 'N',
+        inv_typ: zeroRated ? 'SEWOP' : 'R',
+        itms: items
+      }]);
+    } else if (zeroRated) {
+      cdnur.push({
+        ntty: doc.kind === 'credit-note' ? 'C' : 'D',
+        nt_num: doc.number,
+        nt_dt: toReturnDate(doc.date),
+        val: roundMoney(doc.val),
+        typ: 'EXPWOP',
+        itms: igstItems(items)
+      });
+    } else if (isB2cl(doc)) {
+      cdnur.push({
+        ntty: doc.kind === 'credit-note' ? 'C' : 'D',
+        nt_num: doc.number,
+        nt_dt: toReturnDate(doc.date),
+        val: roundMoney(doc.val),
+        typ: 'B2CL',
+        pos: doc.pos,
+        itms: igstItems(items)
+      });
+    } else {
+      // B2C small supplies are reported net, so unregistered notes adjust the same rate/state bucket
+      const supplyType = doc.isInterstate ? 'INTER' : 'INTRA';
+      items.forEach(({ itm_det: detail }) => {
+        const key = `${supplyType}|${doc.pos}|${detail.rt}`;
+        const entry = b2cs.get(key) || {
+          sply_ty: supplyType,
+          pos: doc.pos,
+          typ: 'OE',
+          txval: 0,
+          rt: detail.rt,
+          ...(doc.isInterstate ? { iamt: 0 } : { camt: 0, samt: 0 }),
+          csamt: 0
+        };
+        entry.txval = roundMoney(entry.txval + sign * detail.txval);
+        if (doc.isInterstate) {
+          entry.iamt = roundMoney((entry.iamt || 0) + sign * (detail.iamt || 0));
+        } else {
+          entry.camt = roundMoney((entry.camt || 0) + sign * (detail.camt || 0));
+          entry.samt = roundMoney((entry.samt || 0) + sign * (detail.samt || 0));
+        }
+        b2cs.set(key, entry);
+      });
+    }
+  });
+
+  const data: Gstr1Return = {
+    gstin: sellerGstin,
+    fp: getReturnPeriod(period),
+    version: 'GST3.2.1',
+    b2b: Array.from(b2b, ([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Array.from(b2cl, ([pos, inv]) => ({ pos, inv })),
+    b2cs: Array.from(b2cs.values()),
+    exp: exp.length > 0 ? [{ exp_typ: 'WOPAY', inv: exp }] : [],
+    cdnr: Array.from(cdnr, ([ctin, nt]) => ({ ctin, nt })),
+    cdnur,
+    nil: { inv: Array.from(nil.values()) },
+    hsn: {
+      data: combineHsnRows(documents.map(doc => ({
+        rows: summarizeHsn(doc.source),
+        sign: doc.kind === 'credit-note' ? -1 : 1
+      }))).map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsn,
+        desc: row.description,
+        uqc: 'NA',
+        qty: 0,
+        rt: row.rate,
+        txval: row.taxableValue,
+        iamt: row.igst,
+        camt: row.cgst,
+        samt: row.sgst,
+        csamt: 0
+      }))
+    }
+  };
+
+  // The HSN summary must agree with the document sections, otherwise the portal rejects the upload
+  const sectionTotals = addTotals(
+    sumTotals(data.b2b.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(item => item.itm_det)))),
+    sumTotals(data.b2cl.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(item => item.itm_det)))),
+    sumTotals(data.b2cs),
+    sumTotals(data.exp.flatMap(entry => entry.inv.flatMap(inv => inv.itms))),
+    ...data.cdnr.flatMap(entry => entry.nt.map(nt => sumTotals(nt.itms.map(item => item.itm_det), nt.ntty === 'C' ? -1 : 1))),
+    ...data.cdnur.map(nt => sumTotals(nt.itms.map(item => item.itm_det), nt.ntty === 'C' ? -1 : 1)),
+    sumTotals(data.nil.inv.map(entry => ({ txval: entry.expt_amt + entry.nil_amt + entry.ngsup_amt })))
+  );
+  const hsnTotals = addTotals(sumTotals(data.hsn.data));
+  (['txval', 'igst', 'cgst', 'sgst'] as const).forEach(key => {
+    if (Math.abs(sectionTotals[key] - hsnTotals[key]) > 0.01) {
+      errors.push(`HSN summary ${key} of ${hsnTotals[key]} does not match the invoice sections (${sectionTotals[key]})`);
+    }
+  });
+
+  return { period, data, documents, totals: sectionTotals, errors };
+}
+
+export async function loadGstr1(period: string, companyId?: string): Promise<Gstr1Result> {
+  const [records, notes, company] = await Promise.all([
+    listInvoiceRecords('issued'),
+    getAll<NoteRecord>('notes'),
+    getCompanyDetails(companyId)
+  ]);
+  return buildGstr1(period, records, notes, company);
+}
+
+function assertValid(result: Gstr1Result): void {
+  if (result.errors.length > 0) {
+    throw new Error(`GSTR-1 for ${result.period} has ${result.errors.length} problem(s):\n${result.errors.join('\n')}`);
+  }
+}
+
+export function exportGstr1Json(result: Gstr1Result): void {
+  assertValid(result);
+  const blob = new Blob([JSON.stringify(result.data, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `GSTR1_${result.data.gstin}_${result.data.fp}.json`);
+}
+
+// One CSV per section in the column layout of the GST offline tool templates
+export function exportGstr1Csv(result: Gstr1Result): void {
+  assertValid(result);
+  const { data, documents } = result;
+  const names = new Map(documents.map(doc => [doc.number, doc.party.name]));
+
+  const sheets: Record<string, (string | number)[][]> = {
+    b2b: [
+      ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+      ...data.b2b.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(item => [
+        entry.ctin, names.get(inv.inum) || '', inv.inum, inv.idt, inv.val, formatPlaceOfSupply(inv.pos), 'N', '', SUPPLY_TYPE_LABELS[inv.inv_typ], '', item.itm_det.rt, item.itm_det.txval, 0
+      ])))
+    ],
+    b2cl: [
+      ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+      ...data.b2cl.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(item => [
+        inv.inum, inv.idt, inv.val, formatPlaceOfSupply(entry.pos), '', item.itm_det.rt, item.itm_det.txval, 0, ''
+      ])))
+    ],
+    b2cs: [
+      ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+      ...data.b2cs.map(entry => [entry.typ, formatPlaceOfSupply(entry.pos), '', entry.rt, entry.txval, 0, ''])
+    ],
+    exp: [
+      ['Export Type', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Port Code', 'Shipping Bill Number', 'Shipping Bill Date', 'Rate', 'Taxable Value', 'Cess Amount'],
+      ...data.exp.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(item => [
+        entry.exp_typ, inv.inum, inv.idt, inv.val, '', '', '', item.rt, item.txval, 0
+      ])))
+    ],
+    cdnr: [
+      ['GSTIN/UIN of Recipient', 'Receiver Name', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Reverse Charge', 'Note Supply Type', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+      ...data.cdnr.flatMap(entry => entry.nt.flatMap(nt => nt.itms.map(item => [
+        entry.ctin, names.get(nt.nt_num) || '', nt.nt_num, nt.nt_dt, nt.ntty, formatPlaceOfSupply(nt.pos), 'N', SUPPLY_TYPE_LABELS[nt.inv_typ], nt.val, '', item.itm_det.rt, item.itm_det.txval, 0
+      ])))
+    ],
+    cdnur: [
+      ['UR Type', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+      ...data.cdnur.flatMap(nt => nt.itms.map(item => [
+        nt.typ, nt.nt_num, nt.nt_dt, nt.ntty, nt.pos ? formatPlaceOfSupply(nt.pos) : '', nt.val, '', item.itm_det.rt, item.itm_det.txval, 0
+      ]))
+    ],
+    exemp: [
+      ['Description', 'Nil Rated Supplies', 'Exempted(other than nil rated/non GST supply)', 'Non-GST Supplies'],
+      ...data.nil.inv.map(entry => [NIL_SUPPLY_DESCRIPTIONS[entry.sply_ty], entry.nil_amt, entry.expt_amt, entry.ngsup_amt])
+    ],
+    hsn: [
+      ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+      ...data.hsn.data.map(entry => [
+        entry.hsn_sc, entry.desc, entry.uqc, entry.qty,
+        roundMoney(entry.txval + entry.iamt + entry.camt + entry.samt),
+        entry.rt, entry.txval, entry.iamt, entry.camt, entry.samt, entry.csamt
+      ])
+    ]
+  };
+
+  Object.entries(sheets)
+    .filter(([, rows]) => rows.length > 1)
+    .forEach(([section, rows]) => {
+      const csv = XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows));
+      downloadBlob(new Blob([csv], { type: 'text/csv' }), `GSTR1_${data.fp}_${section}.csv`);
+    });
+}
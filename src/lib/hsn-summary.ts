@@ -0,0 +1,125 @@
+import * as XLSX from 'xlsx';
+import { Invoice, InvoiceRecord, NoteRecord } from '@/types/invoice';
+import { getAll } from './db';
+import { listInvoiceRecords } from './invoice-register';
+import { isIssuedBy } from './company';
+import { allocateItemTaxes } from './tax-rates';
+import { roundMoney } from './money';
+
+export const HSN_DESCRIPTIONS: Record<string, string> = {
+  '998361': 'Advertising services',
+  '998365': 'Sale of advertising space in print media',
+  '998366': 'Sale of advertising space or time (outdoor media)'
+};
+
+export interface HsnSummaryRow {
+  hsn: string;
+  description: string;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export interface HsnReport {
+  from: string;
+  to: string;
+  documentCount: number;
+  rows: HsnSummaryRow[];
+  totals: Omit<HsnSummaryRow, 'hsn' | 'description' | 'rate'>;
+}
+
+// Groups the invoice lines by HSN/SAC and rate; tax is shared out by taxable value so the rows match the invoice totals
+export function summarizeHsn(invoice: Invoice): HsnSummaryRow[] {
+  const rows = new Map<string, HsnSummaryRow>();
+
+  allocateItemTaxes(invoice).forEach(line => {
+    const hsn = line.item.hsn.trim();
+    const key = `${hsn}|${line.rate}`;
+    const row = rows.get(key) || {
+      hsn,
+      description: HSN_DESCRIPTIONS[hsn] || '',
+      rate: line.rate,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      totalTax: 0
+    };
+    row.taxableValue = roundMoney(row.taxableValue + line.taxableValue);
+    row.cgst = roundMoney(row.cgst + line.cgst);
+    row.sgst = roundMoney(row.sgst + line.sgst);
+    row.igst = roundMoney(row.igst + line.igst);
+    row.totalTax = roundMoney(row.cgst + row.sgst + row.igst);
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values());
+}
+
+// Adds up per-document summaries by HSN and rate; credit notes are passed with a sign of -1
+export function combineHsnRows(groups: { rows: HsnSummaryRow[]; sign: number }[]): HsnSummaryRow[] {
+  const combined = new Map<string, HsnSummaryRow>();
+  groups.forEach(({ rows, sign }) => rows.forEach(row => {
+    const key = `${row.hsn}|${row.rate}`;
+    const total = combined.get(key) || { ...row, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0 };
+    total.taxableValue = roundMoney(total.taxableValue + sign * row.taxableValue);
+    total.cgst = roundMoney(total.cgst + sign * row.cgst);
+    total.sgst = roundMoney(total.sgst + sign * row.sgst);
+    total.igst = roundMoney(total.igst + sign * row.igst);
+    total.totalTax = roundMoney(total.cgst + total.sgst + total.igst);
+    combined.set(key, total);
+  }));
+  return Array.from(combined.values()).sort((a, b) => a.hsn.localeCompare(b.hsn) || a.rate - b.rate);
+}
+
+// HSN-wise totals for issued invoices and notes dated within the period (inclusive), optionally for one company
+export function buildHsnReport(records: InvoiceRecord[], notes: NoteRecord[], from: string, to: string, companyId?: string): HsnReport {
+  const included = (invoice: Invoice) =>
+    invoice.invoiceDate >= from && invoice.invoiceDate <= to && (!companyId || isIssuedBy(invoice, companyId));
+  const invoices = records.filter(record => record.status === 'issued' && included(record.invoice));
+  const periodNotes = notes.filter(record => included(record.note));
+
+  const rows = combineHsnRows([
+    ...invoices.map(record => ({ rows: summarizeHsn(record.invoice), sign: 1 })),
+    ...periodNotes.map(record => ({
+      rows: summarizeHsn(record.note),
+      sign: record.note.documentType === 'credit-note' ? -1 : 1
+    }))
+  ]);
+
+  const totals = rows.reduce((sum, row) => ({
+    taxableValue: roundMoney(sum.taxableValue + row.taxableValue),
+    cgst: roundMoney(sum.cgst + row.cgst),
+    sgst: roundMoney(sum.sgst + row.sgst),
+    igst: roundMoney(sum.igst + row.igst),
+    totalTax: roundMoney(sum.totalTax + row.totalTax)
+  }), { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0 });
+
+  return { from, to, documentCount: invoices.length + periodNotes.length, rows, totals };
+}
+
+export async function loadHsnReport(from: string, to: string, companyId?: string): Promise<HsnReport> {
+  const [records, notes] = await Promise.all([listInvoiceRecords('issued'), getAll<NoteRecord>('notes')]);
+  return buildHsnReport(records, notes, from, to, companyId);
+}
+
+export function exportHsnReportExcel(report: HsnReport): void {
+  const data = [
+    [`HSN/SAC Summary from ${report.from} to ${report.to}`],
+    [],
+    ['HSN/SAC', 'Description', 'Rate %', 'Taxable Value', 'CGST', 'SGST', 'IGST', 'Total Tax'],
+    ...report.rows.map(row => [
+      row.hsn, row.description, row.rate, row.taxableValue, row.cgst, row.sgst, row.igst, row.totalTax
+    ]),
+    ['Total', '', '', report.totals.taxableValue, report.totals.cgst, report.totals.sgst, report.totals.igst, report.totals.totalTax]
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  ws['!cols'] = [{ wch: 12 }, { wch: 45 }, { wch: 8 }, { wch: 15 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'HSN Summary');
+  XLSX.writeFile(wb, `HSN_Summary_${report.from}_${report.to}.xlsx`);
+}
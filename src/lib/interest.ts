@@ -0,0 +1,216 @@
+import { DebitNote, Invoice, InvoiceItem, InvoiceRecord, NoteRecord, Payment, TaxCategory } from '@/types/invoice';
+import { getAll } from './db';
+import { numberToWords } from './utils';
+import { allocateItemTaxes, calculateInvoiceTaxes } from './tax-rates';
+import { getDueDate, listPayments } from './payments';
+import { getNetPayable } from './discounts';
+import { saveWithNextNumber, DEBIT_NOTE_SERIES_ID } from './invoice-numbering';
+import { getCompanySeriesId } from './company';
+import { allocatePaise, toPaise, toRupees } from './money';
+
+// Per annum, as promised in our terms for bills not paid in time
+export const INTEREST_RATE = 24;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// One stretch of days over which the overdue balance stayed the same
+export interface InterestPeriod {
+  from: string;
+  to: string;
+  days: number;
+  balance: number;
+  interest: number;
+}
+
+export interface InterestCalculation {
+  rate: number;
+  dueDate: string;
+  from: string; // Due date, or the date interest was last billed up to
+  asOf: string;
+  periods: InterestPeriod[];
+  interest: number;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Day-wise simple interest on the overdue balance of an issued invoice.
+ * The balance starts at the invoice total and moves with every credit/debit note and payment
+ * (amount + TDS) on its date; interest runs from the due date, or from where the last interest
+ * debit note stopped, up to `asOf`. Interest notes themselves never attract further interest.
+ */
+export function calculateInterest(
+  record: InvoiceRecord,
+  payments: Payment[],
+  notes: NoteRecord[],
+  asOf: string = new Date().toISOString().split('T')[0],
+  rate: number = INTEREST_RATE
+): InterestCalculation {
+  const dueDate = getDueDate(record.invoice);
+  const ownNotes = notes.filter(note => note.originalRecordId === record.id);
+  const billedUpTo = ownNotes
+    .map(note => note.interestUpTo || '')
+    .reduce((latest, date) => (date > latest ? date : latest), '');
+  const from = billedUpTo > dueDate ? billedUpTo : dueDate;
+
+  // Dated changes to the principal balance
+  const changes = [
+    ...ownNotes
+      .filter(note => !note.interestUpTo)
+      .map(note => ({
+        date: note.note.invoiceDate,
+        amount: note.note.documentType === 'credit-note' ? -note.note.grandTotal : note.note.grandTotal
+      })),
+    ...payments
+      .filter(payment => payment.invoiceRecordId === record.id)
+      .map(payment => ({ date: payment.date, amount: -(payment.amount + payment.tdsDeducted) }))
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  // The PO advance was in hand before the invoice, so it never falls overdue
+  let balance = getNetPayable(record.invoice);
+  let cursor = from;
+  const periods: InterestPeriod[] = [];
+
+  const accrue = (to: string) => {
+    const days = daysBetween(cursor, to);
+    if (days > 0 && balance > 0) {
+      periods.push({
+        from: cursor,
+        to,
+        days,
+        balance,
+        interest: (balance * rate * days) / (100 * 365)
+      });
+    }
+    if (to > cursor) cursor = to;
+  };
+
+  changes.forEach(change => {
+    // A payment made on a given day stops interest from that day
+    if (change.date > from && change.date <= asOf) accrue(change.date);
+    if (change.date <= asOf) balance += change.amount;
+  });
+  accrue(asOf);
+
+  return {
+    rate,
+    dueDate,
+    from,
+    asOf,
+    periods,
+    interest: Math.round(periods.reduce((sum, period) => sum + period.interest, 0))
+  };
+}
+
+// The invoice's taxable value under each HSN/SAC, tax category and rate
+interface InterestShare {
+  hsn: string;
+  category: TaxCategory;
+  rate: number;
+  taxable: number;
+}
+
+function getInterestShares(invoice: Invoice): InterestShare[] {
+  const shares = new Map<string, InterestShare>();
+  allocateItemTaxes(invoice).forEach(line => {
+    const key = `${line.item.hsn}|${line.category}|${line.rate}`;
+    const share = shares.get(key) || { hsn: line.item.hsn, category: line.category, rate: line.rate, taxable: 0 };
+    share.taxable += toPaise(line.taxableValue);
+    shares.set(key, share);
+  });
+  return Array.from(shares.values()).filter(share => share.taxable > 0);
+}
+
+// Interest for late payment is part of the value of the supply, so it is split across the invoice's HSN/SAC
+// codes and rates in proportion to their taxable value and each part is taxed like the lines it came from
+export function buildInterestNote(
+  record: InvoiceRecord,
+  calculation: InterestCalculation,
+  noteDate: string,
+  noteNumber: string
+): DebitNote {
+  const shares = getInterestShares(record.invoice);
+  const parts = calculation.periods.flatMap(period => shares.map(share => ({ period, share })));
+  // The rounded total is shared across the parts so the note adds up to the interest calculated
+  const amounts = allocatePaise(
+    toPaise(calculation.interest),
+    parts.map(({ period, share }) => period.interest * share.taxable)
+  );
+  const items: InvoiceItem[] = parts.map(({ period, share }, index) => ({
+    id: `interest-${index + 1}`,
+    sno: index + 1,
+    town: '',
+    location: `Interest @ ${calculation.rate}% p.a. on overdue balance of Rs. ${Math.round(period.balance)}`,
+    hsn: share.hsn,
+    media: '',
+    size: '',
+    area: '',
+    type: '',
+    ratePM: '',
+    period: `${period.from} to ${period.to} (${period.days} days)`,
+    amount: toRupees(amounts[index]),
+    gstRate: share.rate,
+    taxCategory: share.category
+  }));
+
+  const taxes = calculateInvoiceTaxes(
+    items,
+    record.formData.gstRate,
+    record.formData.isInterstate,
+    record.invoice.roundingPolicy
+  );
+
+  return {
+    documentType: 'debit-note',
+    originalInvoice: {
+      invoiceNumber: record.invoice.invoiceNumber,
+      invoiceDate: record.invoice.invoiceDate
+    },
+    noteReason: `Interest @ ${calculation.rate}% p.a. for late payment (due ${calculation.dueDate}), up to ${calculation.asOf}`,
+    companyId: record.invoice.companyId,
+    invoiceNumber: noteNumber,
+    invoiceDate: noteDate,
+    displayName: record.invoice.displayName,
+    billingParty: record.invoice.billingParty,
+    placeOfSupply: record.invoice.placeOfSupply,
+    items,
+    gstRate: record.formData.gstRate,
+    taxBreakup: taxes.taxBreakup,
+    subtotal: taxes.subtotal,
+    cgst: taxes.cgst,
+    sgst: taxes.sgst,
+    igst: taxes.igst,
+    roundOff: taxes.roundOff || undefined,
+    grandTotal: taxes.grandTotal,
+    roundingPolicy: record.invoice.roundingPolicy,
+    totalInWords: numberToWords(taxes.grandTotal),
+    termsAndConditions: []
+  };
+}
+
+export async function issueInterestNote(record: InvoiceRecord, asOf: string): Promise<NoteRecord> {
+  if (record.status !== 'issued') {
+    throw new Error('Interest can only be charged on issued invoices');
+  }
+
+  const [payments, notes] = await Promise.all([listPayments(record.id), getAll<NoteRecord>('notes')]);
+  const calculation = calculateInterest(record, payments, notes, asOf);
+  if (calculation.interest <= 0) {
+    throw new Error(`No interest is due on ${record.invoice.invoiceNumber} up to ${asOf}`);
+  }
+
+  const seriesId = getCompanySeriesId(DEBIT_NOTE_SERIES_ID, record.invoice.companyId);
+  const id = Date.now().toString();
+
+  return saveWithNextNumber<NoteRecord>('notes', id, asOf, seriesId, noteNumber => ({
+    id,
+    originalRecordId: record.id,
+    note: buildInterestNote(record, calculation, asOf, noteNumber),
+    gstRate: record.formData.gstRate,
+    isInterstate: record.formData.isInterstate,
+    interestUpTo: calculation.asOf,
+    createdAt: new Date().toISOString()
+  }));
+}
@@ -0,0 +1,52 @@
+import { CompanyDetails, Invoice, InvoiceFormData, PlaceOfSupply } from '@/types/invoice';
+import { numberToWords } from './utils';
+import { DEFAULT_ROUNDING_POLICY } from './money';
+import { applyDeductions } from './discounts';
+import { calculateInvoiceTaxes, InvoiceTaxes } from './tax-rates';
+import { determinePlaceOfSupply } from './place-of-supply';
+
+// Discounts and agency commission come off before GST is worked out
+export function calculateFormTaxes(formData: InvoiceFormData): InvoiceTaxes {
+  const taxableItems = applyDeductions(formData).items;
+  return calculateInvoiceTaxes(taxableItems, formData.gstRate, formData.isInterstate, formData.roundingPolicy);
+}
+
+// The invoice saved to the register and printed from the form's fields
+export function buildInvoice(formData: InvoiceFormData, totals: InvoiceTaxes, placeOfSupply: PlaceOfSupply | null): Invoice {
+  return {
+    invoiceNumber: formData.invoiceNumber,
+    invoiceDate: formData.invoiceDate,
+    dueDate: formData.dueDate || undefined,
+    poNumber: formData.poNumber || undefined,
+    poDate: formData.poDate || undefined,
+    displayName: formData.displayName || undefined,
+    duration: formData.duration || undefined,
+    billingParty: formData.billingParty,
+    items: formData.items,
+    discount: formData.discount?.value ? formData.discount : undefined,
+    agencyCommissionRate: formData.agencyCommissionRate || undefined,
+    advance: formData.advance || undefined,
+    tds: formData.tds,
+    gstRate: formData.gstRate,
+    subtotal: totals.subtotal,
+    cgst: totals.cgst,
+    sgst: totals.sgst,
+    igst: totals.igst,
+    roundOff: totals.roundOff || undefined,
+    grandTotal: totals.grandTotal,
+    roundingPolicy: formData.roundingPolicy || DEFAULT_ROUNDING_POLICY,
+    taxBreakup: totals.taxBreakup,
+    totalInWords: numberToWords(totals.grandTotal),
+    termsAndConditions: formData.termsAndConditions.split('\n').filter(term => term.trim()),
+    eInvoice: formData.eInvoice,
+    companyId: formData.companyId,
+    placeOfSupply: placeOfSupply || undefined,
+    templateId: formData.templateId
+  };
+}
+
+// For invoices put together outside the form, such as drafts from a recurring template
+export function buildInvoiceFromForm(formData: InvoiceFormData, company: CompanyDetails): Invoice {
+  const { placeOfSupply } = determinePlaceOfSupply(company, formData.billingParty, formData.items);
+  return buildInvoice(formData, calculateFormTaxes(formData), placeOfSupply);
+}
@@ -0,0 +1,293 @@
+import { CompanyDetails, Invoice, InvoiceItem, InvoiceTemplate, ItemColumnKey } from '@/types/invoice';
+import { formatCurrency, getDocumentLabels, getStateFromGSTIN } from './utils';
+import { summarizeHsn } from './hsn-summary';
+import { getTaxLines } from './tax-rates';
+import { getDeductionLines, getNetPayable } from './discounts';
+import { formatNetReceivable } from './tds';
+import { formatBankDetails, formatCompanyAddress } from './company';
+import { getInvoicePlaceOfSupply, formatPlaceOfSupply } from './place-of-supply';
+import { STANDARD_TEMPLATE } from './invoice-templates';
+
+/*
+ * The printed invoice as plain data: every heading, label, row and total the PDF, the on-screen preview and
+ * the Excel sheet show, worked out once. The renderers only decide how it looks on their medium, so a
+ * wording or layout change made here shows up the same way in all three.
+ */
+
+export type CellAlign = 'left' | 'center' | 'right';
+
+// Item rows; totals rows leave the item columns blank; strong and carry rows are shaded
+export type DocumentRowKind = 'item' | 'total' | 'strong' | 'carry';
+
+export interface DocumentColumn {
+  key: ItemColumnKey;
+  label: string;
+  width: number; // Share of the table width; the columns add up to 1
+  align: CellAlign;
+  maxChars: number; // Longest text that prints at full size
+}
+
+export interface DocumentCell {
+  text: string; // As printed
+  value: string | number; // For spreadsheets, where amounts stay numbers
+  scale: number; // Font size relative to the table's own, so long text shrinks to fit its column; it then wraps
+}
+
+export interface DocumentRow {
+  kind: DocumentRowKind;
+  cells: DocumentCell[];
+}
+
+export interface DocumentField {
+  label: string;
+  value: string;
+  strong?: boolean; // Value printed in bold, e.g. the client's GSTIN
+}
+
+export interface InvoiceDocument {
+  labels: ReturnType<typeof getDocumentLabels>;
+  company: {
+    name: string;
+    address: string;
+    contact: string[]; // Phone, email and website, each with its label
+    registration: string;
+  };
+  eInvoice?: {
+    irn: DocumentField;
+    acknowledgement: DocumentField[];
+    qrCode: string;
+  };
+  party: {
+    heading: string;
+    name: string;
+    address: string;
+    cityLine: string;
+    fields: DocumentField[];
+  };
+  details: DocumentField[];
+  // The blocks below that a template can leave out are absent, or empty, when it does
+  description?: {
+    heading: string;
+    display: DocumentField;
+    duration: DocumentField;
+  };
+  columns: DocumentColumn[];
+  items: DocumentRow[];
+  totals: DocumentRow[];
+  amountInWords: string;
+  netReceivable: string; // Empty unless the client deducts TDS
+  hsn?: {
+    head: string[];
+    rows: DocumentRow[]; // The last row is the total
+  };
+  terms: string[]; // Numbered terms, or the reason for a credit/debit note
+  bankDetails: string;
+  signature?: {
+    forCompany: string;
+    signatory: string;
+  };
+}
+
+// How each column's text is aligned, and how much of it prints at full size before it shrinks
+const COLUMN_FORMATS: Record<ItemColumnKey, Pick<DocumentColumn, 'align' | 'maxChars'>> = {
+  sno: { align: 'center', maxChars: 3 },
+  town: { align: 'center', maxChars: 8 },
+  location: { align: 'center', maxChars: 15 },
+  hsn: { align: 'center', maxChars: 8 },
+  media: { align: 'center', maxChars: 10 },
+  size: { align: 'center', maxChars: 8 },
+  area: { align: 'center', maxChars: 6 },
+  type: { align: 'center', maxChars: 8 },
+  ratePM: { align: 'right', maxChars: 10 },
+  period: { align: 'center', maxChars: 20 },
+  amount: { align: 'right', maxChars: 12 }
+};
+
+// The template's columns, in its order and widths
+export function getDocumentColumns(template: InvoiceTemplate): DocumentColumn[] {
+  return template.columns.map(column => ({ ...column, ...COLUMN_FORMATS[column.key] }));
+}
+
+export const CARRIED_FORWARD_LABEL = 'C/F (Carried Forward)';
+export const BROUGHT_FORWARD_LABEL = 'B/F (Brought Forward)';
+
+// Text up to the column's limit prints at full size, and is made a step smaller at 1.5x, 2x and beyond
+export function getTextScale(text: string, maxChars: number): number {
+  const steps = text.length <= maxChars ? 0
+    : text.length <= maxChars * 1.5 ? 1
+    : text.length <= maxChars * 2 ? 2
+    : 3;
+  return (7 - steps) / 7;
+}
+
+function cell(text: string, value: string | number = text, maxChars?: number): DocumentCell {
+  return {
+    text,
+    value,
+    scale: maxChars ? getTextScale(text, maxChars) : 1
+  };
+}
+
+export function formatField(field: DocumentField): string {
+  return `${field.label}: ${field.value}`;
+}
+
+// Numbers typed as text (the monthly rate) go to spreadsheets as numbers when they are numbers
+function toValue(text: string): string | number {
+  const number = Number(text.replace(/,/g, ''));
+  return text.trim() !== '' && !isNaN(number) ? number : text;
+}
+
+// A row with only the last two columns filled (the label and AMOUNT), as the totals under the items are printed
+export function createTotalsRow(
+  columns: DocumentColumn[],
+  label: string,
+  amount: number,
+  kind: DocumentRowKind = 'total'
+): DocumentRow {
+  return {
+    kind,
+    cells: [
+      ...columns.slice(0, -2).map(() => cell('')),
+      cell(label),
+      cell(formatCurrency(amount) || '0', amount)
+    ]
+  };
+}
+
+function createItemRow(columns: DocumentColumn[], item: InvoiceItem): DocumentRow {
+  return {
+    kind: 'item',
+    cells: columns.map(column => {
+      const raw = item[column.key];
+      if (column.key === 'ratePM' || column.key === 'amount') {
+        const text = formatCurrency(raw as string | number);
+        return cell(text, toValue(String(raw ?? '')), column.maxChars);
+      }
+      const text = String(raw ?? '');
+      return cell(text, typeof raw === 'number' ? raw : text, column.maxChars);
+    })
+  };
+}
+
+export function buildInvoiceDocument(
+  invoice: Invoice,
+  company: CompanyDetails,
+  template: InvoiceTemplate = STANDARD_TEMPLATE
+): InvoiceDocument {
+  const labels = getDocumentLabels(invoice);
+  const columns = getDocumentColumns(template);
+  const { blocks } = template;
+  const totalsRow = (label: string, amount: number, kind?: DocumentRowKind) => createTotalsRow(columns, label, amount, kind);
+  const placeOfSupply = getInvoicePlaceOfSupply(invoice, company);
+  const party = invoice.billingParty;
+  const hsnRows = summarizeHsn(invoice);
+  const totalTax = invoice.cgst + invoice.sgst + invoice.igst;
+
+  const details: DocumentField[] = [
+    { label: labels.number, value: invoice.invoiceNumber },
+    { label: labels.date, value: invoice.invoiceDate },
+    ...(placeOfSupply ? [{ label: 'Place of Supply', value: formatPlaceOfSupply(placeOfSupply) }] : []),
+    ...(invoice.originalInvoice ? [{
+      label: 'Against Invoice No',
+      value: `${invoice.originalInvoice.invoiceNumber} dated ${invoice.originalInvoice.invoiceDate}`
+    }] : []),
+    ...(invoice.poNumber ? [{ label: 'PO NO.', value: invoice.poNumber }] : []),
+    ...(invoice.poDate ? [{ label: 'PO Date', value: invoice.poDate }] : []),
+    ...(invoice.dueDate && !invoice.originalInvoice ? [{ label: 'Due Date', value: invoice.dueDate }] : [])
+  ];
+
+  return {
+    labels,
+    company: {
+      name: company.name,
+      address: formatCompanyAddress(company),
+      contact: [
+        `Phone: ${company.phone}`,
+        `Email: ${company.email}`,
+        ...(company.website ? [`Website: ${company.website}`] : [])
+      ],
+      registration: `GSTIN: ${company.gstin} | PAN: ${company.pan}`
+    },
+    eInvoice: invoice.eInvoice && {
+      irn: { label: 'IRN', value: invoice.eInvoice.irn },
+      acknowledgement: [
+        { label: 'Ack No', value: invoice.eInvoice.ackNo },
+        { label: 'Ack Date', value: invoice.eInvoice.ackDate }
+      ],
+      qrCode: invoice.eInvoice.signedQrCode
+    },
+    party: {
+      heading: 'To,',
+      name: party.name,
+      address: party.address,
+      cityLine: `${party.city}, ${party.state} - ${party.pincode}`,
+      fields: [
+        { label: 'GSTIN', value: party.gstin || '', strong: true },
+        { label: 'State', value: `${party.state}, State Code: ${getStateFromGSTIN(party.gstin || '')?.code || '00'}` }
+      ]
+    },
+    details,
+    description: blocks.description ? {
+      heading: 'Towards the hoarding display charges at following particulars.',
+      display: { label: 'Display', value: invoice.displayName || party.name, strong: true },
+      duration: { label: 'Duration', value: invoice.duration || '37 Days' }
+    } : undefined,
+    columns,
+    items: invoice.items.map(item => createItemRow(columns, item)),
+    totals: [
+      // Gross amount, discounts and agency commission when anything was deducted before GST
+      ...getDeductionLines(invoice).map(line => totalsRow(line.label, line.amount)),
+      totalsRow('SUB TOTAL', invoice.subtotal, 'strong'),
+      // One row per tax and rate actually charged, e.g. CGST @ 2.5% and CGST @ 9% on a mixed-rate invoice
+      ...getTaxLines(invoice).map(line => totalsRow(`Add : ${line.label}`, line.amount)),
+      ...(invoice.roundOff ? [totalsRow('Round Off', invoice.roundOff)] : []),
+      totalsRow('GRAND TOTAL', invoice.grandTotal, 'strong'),
+      // The PO advance is adjusted after GST, leaving the invoice value unchanged
+      ...(invoice.advance ? [
+        totalsRow('Less : PO Advance', invoice.advance),
+        totalsRow('NET PAYABLE', getNetPayable(invoice), 'strong')
+      ] : [])
+    ],
+    amountInWords: `Total in words : Rs. ${invoice.totalInWords}.`,
+    netReceivable: formatNetReceivable(invoice, formatCurrency),
+    hsn: blocks.hsnSummary ? {
+      head: ['HSN/SAC', 'Taxable Value', 'Rate', 'CGST', 'SGST', 'IGST', 'Total Tax'],
+      rows: [
+        ...hsnRows.map(row => ({
+          kind: 'item' as const,
+          cells: [
+            cell(row.hsn || '-', row.hsn),
+            cell(formatCurrency(row.taxableValue), row.taxableValue),
+            cell(`${row.rate}%`, row.rate),
+            cell(formatCurrency(row.cgst) || '0', row.cgst),
+            cell(formatCurrency(row.sgst) || '0', row.sgst),
+            cell(formatCurrency(row.igst) || '0', row.igst),
+            cell(formatCurrency(row.totalTax) || '0', row.totalTax)
+          ]
+        })),
+        {
+          kind: 'strong',
+          cells: [
+            cell('Total'),
+            cell(formatCurrency(invoice.subtotal), invoice.subtotal),
+            cell(''),
+            cell(formatCurrency(invoice.cgst) || '0', invoice.cgst),
+            cell(formatCurrency(invoice.sgst) || '0', invoice.sgst),
+            cell(formatCurrency(invoice.igst) || '0', invoice.igst),
+            cell(formatCurrency(totalTax) || '0', totalTax)
+          ]
+        }
+      ]
+    } : undefined,
+    // Notes carry the reason for the adjustment instead of the invoice terms
+    terms: invoice.originalInvoice
+      ? [`Reason: ${invoice.noteReason || '-'}`]
+      : blocks.terms ? invoice.termsAndConditions.map((term, index) => `${index + 1}. ${term}`) : [],
+    bankDetails: blocks.bankDetails ? formatBankDetails(company) : '',
+    signature: blocks.signature ? {
+      forCompany: `For, ${company.name}`,
+      signatory: 'Authorised Signatory'
+    } : undefined
+  };
+}
@@ -0,0 +1,127 @@
+import { InvoiceRecord, NoteRecord, NumberSeries } from '@/types/invoice';
+import { getAll, getById, put, updateMany, StoreName } from './db';
+
+export const INVOICE_SERIES_ID = 'invoice';
+export const CREDIT_NOTE_SERIES_ID = 'credit-note';
+export const DEBIT_NOTE_SERIES_ID = 'debit-note';
+export const RECEIPT_SERIES_ID = 'receipt';
+
+const DEFAULT_FORMATS: Record<string, string> = {
+  [INVOICE_SERIES_ID]: 'DA/{FY}/{SEQ}',
+  [CREDIT_NOTE_SERIES_ID]: 'CN/{FY}/{SEQ}',
+  [DEBIT_NOTE_SERIES_ID]: 'DN/{FY}/{SEQ}',
+  [RECEIPT_SERIES_ID]: 'RCPT/{FY}/{SEQ}'
+};
+
+function createDefaultSeries(seriesId: string): NumberSeries {
+  // Company-specific series ids look like "<companyId>/invoice"
+  const baseSeriesId = seriesId.split('/').pop() || seriesId;
+  return {
+    id: seriesId,
+    format: DEFAULT_FORMATS[baseSeriesId] || DEFAULT_FORMATS[INVOICE_SERIES_ID],
+    padding: 4,
+    counters: {}
+  };
+}
+
+// Indian financial year runs 1 April to 31 March, e.g. 2026-27
+export function getFinancialYear(date: string | Date): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const validDate = isNaN(d.getTime()) ? new Date() : d;
+  const startYear = validDate.getMonth() >= 3 ? validDate.getFullYear() : validDate.getFullYear() - 1;
+  const endYear = (startYear + 1) % 100;
+  return `${startYear}-${endYear.toString().padStart(2, '0')}`;
+}
+
+export function formatSeriesNumber(series: Pick<NumberSeries, 'format' | 'padding'>, financialYear: string, sequence: number): string {
+  return series.format
+    .replace(/\{FY\}/g, financialYear)
+    .replace(/\{SEQ\}/g, sequence.toString().padStart(series.padding, '0'));
+}
+
+export async function getNumberSeries(seriesId: string = INVOICE_SERIES_ID): Promise<NumberSeries> {
+  const series = await getById<NumberSeries>('numberSeries', seriesId);
+  return series || createDefaultSeries(seriesId);
+}
+
+export async function saveNumberSeries(series: NumberSeries): Promise<NumberSeries> {
+  if (!series.format.includes('{SEQ}')) {
+    throw new Error('Number format must contain {SEQ}');
+  }
+  return put<NumberSeries>('numberSeries', series);
+}
+
+// Numbers held by issued (and cancelled) invoices and notes, optionally ignoring the record being edited
+export async function getIssuedNumbers(excludeRecordId?: string): Promise<Set<string>> {
+  const [records, notes] = await Promise.all([getAll<InvoiceRecord>('invoices'), getAll<NoteRecord>('notes')]);
+  return new Set([
+    ...records
+      .filter(record => record.status !== 'draft' && record.id !== excludeRecordId)
+      .map(record => record.invoice.invoiceNumber),
+    ...notes.map(record => record.note.invoiceNumber)
+  ].map(number => number.trim().toUpperCase()));
+}
+
+function nextFreeSequence(series: NumberSeries, financialYear: string, taken: Set<string>): number {
+  let sequence = (series.counters[financialYear] || 0) + 1;
+  while (taken.has(formatSeriesNumber(series, financialYear, sequence).toUpperCase())) {
+    sequence++;
+  }
+  return sequence;
+}
+
+// Shows what the next number will be without consuming it
+export async function peekNextInvoiceNumber(invoiceDate: string, seriesId: string = INVOICE_SERIES_ID): Promise<string> {
+  const [series, taken] = await Promise.all([getNumberSeries(seriesId), getIssuedNumbers()]);
+  const financialYear = getFinancialYear(invoiceDate);
+  return formatSeriesNumber(series, financialYear, nextFreeSequence(series, financialYear, taken));
+}
+
+// The series with the invoice date's next free number taken, for writing back in the same transaction
+// that uses the number. Counters are kept per financial year, so the series starts again from 1 on 1 April.
+export function takeNextNumber(
+  current: NumberSeries | undefined,
+  seriesId: string,
+  invoiceDate: string,
+  taken: Set<string>
+): { series: NumberSeries; number: string } {
+  const series = current || createDefaultSeries(seriesId);
+  const financialYear = getFinancialYear(invoiceDate);
+  const sequence = nextFreeSequence(series, financialYear, taken);
+  return {
+    series: { ...series, counters: { ...series.counters, [financialYear]: sequence } },
+    number: formatSeriesNumber(series, financialYear, sequence)
+  };
+}
+
+// Takes the next number in the date's series and saves the record built with it in one transaction, so a
+// number is only used up by a note or receipt that was actually saved
+export async function saveWithNextNumber<T extends { id: string }>(
+  store: StoreName,
+  id: string,
+  date: string,
+  seriesId: string,
+  build: (number: string) => T
+): Promise<T> {
+  const taken = await getIssuedNumbers();
+  let saved: T | undefined;
+
+  await updateMany([{ store: 'numberSeries', id: seriesId }, { store, id }], ([current]) => {
+    const { series, number } = takeNextNumber(current as NumberSeries | undefined, seriesId, date, taken);
+    saved = build(number);
+    return [{ store: 'numberSeries', value: series }, { store, value: saved }];
+  });
+
+  return saved!;
+}
+
+// Guards exports against reusing a number already held by another issued invoice
+export async function ensureUniqueInvoiceNumber(invoiceNumber: string, recordId?: string): Promise<void> {
+  if (!invoiceNumber.trim()) {
+    throw new Error('Invoice number is required');
+  }
+  const taken = await getIssuedNumbers(recordId);
+  if (taken.has(invoiceNumber.trim().toUpperCase())) {
+    throw new Error(`Invoice number ${invoiceNumber} has already been issued`);
+  }
+}
@@ -0,0 +1,139 @@
+import { EInvoiceDetails, Invoice, InvoiceFormData, InvoiceRecord, InvoiceStatus, NoteRecord, NumberSeries, Payment } from '@/types/invoice';
+import { getAll, getById, put, remove, update, updateMany } from './db';
+import { getTotalsDifference } from './money';
+import { getIssuedNumbers, takeNextNumber } from './invoice-numbering';
+
+// Newest first so the register opens on the invoice being worked on
+function sortByUpdated(records: InvoiceRecord[]): InvoiceRecord[] {
+  return [...records].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function listInvoiceRecords(status?: InvoiceStatus): Promise<InvoiceRecord[]> {
+  const records = await getAll<InvoiceRecord>('invoices');
+  return sortByUpdated(status ? records.filter(record => record.status === status) : records);
+}
+
+export function getInvoiceRecord(id: string): Promise<InvoiceRecord | undefined> {
+  return getById<InvoiceRecord>('invoices', id);
+}
+
+export async function getLatestDraft(): Promise<InvoiceRecord | undefined> {
+  const drafts = await listInvoiceRecords('draft');
+  return drafts[0];
+}
+
+// Drafts generated in the background are saved without a number; one is taken from the series on issue
+export function getInvoiceNumberLabel(invoice: Invoice): string {
+  return invoice.invoiceNumber || 'To be assigned';
+}
+
+function lockedMessage(record: InvoiceRecord): string {
+  return record.status === 'cancelled'
+    ? `Invoice ${record.invoice.invoiceNumber} has been cancelled`
+    : `Invoice ${record.invoice.invoiceNumber} has been issued; raise a credit or debit note to change it`;
+}
+
+// Saves a draft under the given id, keeping the original creation timestamp. Issued invoices are never
+// overwritten: what was issued (and registered for an IRN) is changed through credit and debit notes
+export async function saveInvoiceRecord(id: string, formData: InvoiceFormData, invoice: Invoice): Promise<InvoiceRecord> {
+  const existing = await getInvoiceRecord(id);
+  if (existing && existing.status !== 'draft') {
+    throw new Error(lockedMessage(existing));
+  }
+  const now = new Date().toISOString();
+
+  return put<InvoiceRecord>('invoices', {
+    id,
+    status: 'draft',
+    formData,
+    invoice,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  });
+}
+
+// Takes the next number in the series and saves the issued invoice in one transaction, so a number is only
+// used up by an invoice that was actually issued with it
+export async function issueInvoiceRecord(
+  id: string,
+  formData: InvoiceFormData,
+  invoice: Invoice,
+  seriesId: string
+): Promise<InvoiceRecord> {
+  const difference = getTotalsDifference(invoice);
+  if (difference !== 0) {
+    throw new Error(`Subtotal, taxes and round-off are ${difference} away from the grand total`);
+  }
+  const taken = await getIssuedNumbers();
+  let issued: InvoiceRecord | undefined;
+
+  await updateMany([{ store: 'numberSeries', id: seriesId }, { store: 'invoices', id }], ([series, current]) => {
+    const existing = current as InvoiceRecord | undefined;
+    if (existing && existing.status !== 'draft') {
+      throw new Error(lockedMessage(existing));
+    }
+    const next = takeNextNumber(series as NumberSeries | undefined, seriesId, formData.invoiceDate, taken);
+    const now = new Date().toISOString();
+    issued = {
+      id,
+      status: 'issued',
+      formData: { ...formData, invoiceNumber: next.number },
+      invoice: { ...invoice, invoiceNumber: next.number },
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      issuedAt: now
+    };
+    return [{ store: 'numberSeries', value: next.series }, { store: 'invoices', value: issued }];
+  });
+
+  return issued!;
+}
+
+// Issued invoices are cancelled rather than deleted, so their number stays taken and the series has no gap.
+// Anything settled or adjusted against the invoice has to be reversed first
+export async function cancelInvoiceRecord(id: string, reason: string): Promise<InvoiceRecord> {
+  if (!reason.trim()) {
+    throw new Error('Give a reason for cancelling the invoice');
+  }
+  const existing = await getInvoiceRecord(id);
+  if (!existing || existing.status !== 'issued') {
+    throw new Error('Only issued invoices can be cancelled');
+  }
+  const [payments, notes] = await Promise.all([getAll<Payment>('payments'), getAll<NoteRecord>('notes')]);
+  if (payments.some(payment => payment.invoiceRecordId === id)) {
+    throw new Error('Payments have been recorded against this invoice; remove them before cancelling it');
+  }
+  if (notes.some(record => record.originalRecordId === id)) {
+    throw new Error('Credit or debit notes have been issued against this invoice, so it can no longer be cancelled');
+  }
+
+  return update<InvoiceRecord>('invoices', id, record => {
+    const now = new Date().toISOString();
+    return { ...(record || existing), status: 'cancelled', cancelledAt: now, cancellationReason: reason.trim(), updatedAt: now };
+  });
+}
+
+export async function attachEInvoice(id: string, eInvoice: EInvoiceDetails): Promise<InvoiceRecord> {
+  const existing = await getInvoiceRecord(id);
+  if (!existing || existing.status !== 'issued') {
+    throw new Error('Only issued invoices can be registered for an IRN');
+  }
+  return update<InvoiceRecord>('invoices', id, record => {
+    const current = record || existing;
+    return {
+      ...current,
+      formData: { ...current.formData, eInvoice },
+      invoice: { ...current.invoice, eInvoice },
+      updatedAt: new Date().toISOString()
+    };
+  });
+}
+
+// Only drafts can be deleted; an issued invoice has used up its number and is cancelled instead
+export async function deleteInvoiceRecord(id: string): Promise<void> {
+  const existing = await getInvoiceRecord(id);
+  if (existing && existing.status !== 'draft') {
+    throw new Error(`Invoice ${existing.invoice.invoiceNumber} has been issued; cancel it instead of deleting it`);
+  }
+  return remove('invoices', id);
+}
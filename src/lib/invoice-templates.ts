@@ -0,0 +1,174 @@
+import { CompanyDetails, InvoiceTemplate, ItemColumnKey, TemplateBlock, TemplateColumn } from '@/types/invoice';
+import { getAll, getById, put, remove } from './db';
+
+// Headings as printed; also the columns the designer can add
+export const ITEM_COLUMN_LABELS: Record<ItemColumnKey, string> = {
+  sno: 'Sr.NO',
+  town: 'TOWN',
+  location: 'LOCATION',
+  hsn: 'HSN',
+  media: 'MEDIA',
+  size: 'SIZE',
+  area: 'AREA',
+  type: 'TYPE',
+  ratePM: 'RATE P.M.',
+  period: 'PERIOD',
+  amount: 'AMOUNT'
+};
+
+export const TEMPLATE_BLOCK_LABELS: Record<TemplateBlock, string> = {
+  description: 'Display and duration',
+  hsnSummary: 'HSN/SAC summary',
+  terms: 'Terms & conditions',
+  bankDetails: 'Bank details',
+  signature: 'Signature'
+};
+
+export const TEMPLATE_FONTS: InvoiceTemplate['font'][] = ['helvetica', 'times', 'courier'];
+
+const ALL_BLOCKS: Record<TemplateBlock, boolean> = {
+  description: true,
+  hsnSummary: true,
+  terms: true,
+  bankDetails: true,
+  signature: true
+};
+
+function column(key: ItemColumnKey, width: number): TemplateColumn {
+  return { key, label: ITEM_COLUMN_LABELS[key], width };
+}
+
+export const STANDARD_TEMPLATE: InvoiceTemplate = {
+  id: 'standard',
+  name: 'Standard (A4 portrait)',
+  orientation: 'portrait',
+  compact: false,
+  font: 'helvetica',
+  fontSize: 7,
+  headingColor: '#f0f0f0',
+  accentColor: '#ff8c42',
+  columns: [
+    column('sno', 0.05),
+    column('town', 0.07),
+    column('location', 0.10),
+    column('hsn', 0.06),
+    column('media', 0.07),
+    column('size', 0.06),
+    column('area', 0.05),
+    column('type', 0.05),
+    column('ratePM', 0.08),
+    column('period', 0.19),
+    column('amount', 0.22)
+  ],
+  blocks: ALL_BLOCKS,
+  builtIn: true
+};
+
+// Tighter spacing so short invoices fit on one page
+export const COMPACT_TEMPLATE: InvoiceTemplate = {
+  ...STANDARD_TEMPLATE,
+  id: 'compact',
+  name: 'Compact (one page)',
+  compact: true
+};
+
+// Large campaigns: a wide page gives long locations and periods room on one line
+export const LANDSCAPE_TEMPLATE: InvoiceTemplate = {
+  ...STANDARD_TEMPLATE,
+  id: 'landscape',
+  name: 'Landscape campaign',
+  orientation: 'landscape',
+  fontSize: 8,
+  columns: [
+    column('sno', 0.04),
+    column('town', 0.07),
+    column('location', 0.16),
+    column('hsn', 0.06),
+    column('media', 0.07),
+    column('size', 0.06),
+    column('area', 0.05),
+    column('type', 0.05),
+    column('ratePM', 0.08),
+    column('period', 0.18),
+    column('amount', 0.18)
+  ]
+};
+
+export const BUILT_IN_TEMPLATES = [STANDARD_TEMPLATE, COMPACT_TEMPLATE, LANDSCAPE_TEMPLATE];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Scales the widths so they fill the table exactly, keeping their proportions
+export function normalizeColumnWidths(columns: TemplateColumn[]): TemplateColumn[] {
+  const total = columns.reduce((sum, col) => sum + col.width, 0);
+  if (!(total > 0)) return columns.map(col => ({ ...col, width: 1 / columns.length }));
+  return columns.map(col => ({ ...col, width: col.width / total }));
+}
+
+export function validateTemplate(template: InvoiceTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('Template name is required');
+  if (template.columns.length < 2) errors.push('At least two columns are needed: totals are labelled in the one before AMOUNT');
+  if (template.columns[template.columns.length - 1]?.key !== 'amount') errors.push('AMOUNT must be the last column');
+  if (new Set(template.columns.map(col => col.key)).size !== template.columns.length) errors.push('A column is listed twice');
+  if (template.columns.some(col => !(col.width > 0))) errors.push('Every column needs a width');
+  const totalWidth = template.columns.reduce((sum, col) => sum + col.width, 0);
+  if (Math.abs(totalWidth - 1) > 0.005) errors.push(`Column widths add up to ${Math.round(totalWidth * 100)}% instead of 100%`);
+  if (!(template.fontSize >= 5 && template.fontSize <= 12)) errors.push('Font size must be between 5 and 12 pt');
+  if (!HEX_COLOR.test(template.headingColor) || !HEX_COLOR.test(template.accentColor)) errors.push('Colours must be #rrggbb');
+  return errors;
+}
+
+export async function listInvoiceTemplates(): Promise<InvoiceTemplate[]> {
+  const saved = await getAll<InvoiceTemplate>('invoiceTemplates');
+  return [...BUILT_IN_TEMPLATES, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+// The layout an invoice or client names, falling back to the standard one if it has since been deleted
+export async function getInvoiceTemplate(id?: string): Promise<InvoiceTemplate> {
+  const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === (id || STANDARD_TEMPLATE.id));
+  if (builtIn) return builtIn;
+  return (await getById<InvoiceTemplate>('invoiceTemplates', id!)) || STANDARD_TEMPLATE;
+}
+
+export function saveInvoiceTemplate(template: InvoiceTemplate): Promise<InvoiceTemplate> {
+  if (template.builtIn || BUILT_IN_TEMPLATES.some(builtIn => builtIn.id === template.id)) {
+    return Promise.reject(new Error('Built-in templates can\'t be changed; save a copy instead'));
+  }
+  const errors = validateTemplate(template);
+  if (errors.length) {
+    return Promise.reject(new Error(errors.join('; ')));
+  }
+  return put<InvoiceTemplate>('invoiceTemplates', { ...template, name: template.name.trim(), updatedAt: new Date().toISOString() });
+}
+
+export function deleteInvoiceTemplate(id: string): Promise<void> {
+  return remove('invoiceTemplates', id);
+}
+
+// An editable copy, e.g. of a built-in layout
+export function copyInvoiceTemplate(template: InvoiceTemplate): InvoiceTemplate {
+  return {
+    ...template,
+    id: Date.now().toString(),
+    name: `${template.name} (copy)`,
+    columns: template.columns.map(col => ({ ...col })),
+    blocks: { ...template.blocks },
+    builtIn: undefined,
+    updatedAt: undefined
+  };
+}
+
+// The template's own header and footer images take the place of the company's
+export function applyTemplateImages(company: CompanyDetails, template: InvoiceTemplate): CompanyDetails {
+  return {
+    ...company,
+    headerImage: template.headerImage || company.headerImage,
+    footerImage: template.footerImage || company.footerImage
+  };
+}
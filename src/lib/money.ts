@@ -0,0 +1,60 @@
+import { Invoice, RoundingPolicy } from '@/types/invoice';
+
+// Amounts are stored on invoices in rupees, but every calculation is done in whole paise so that
+// parts always add back up to their totals exactly
+export type Paise = number;
+
+// Per-rate rounding is how invoices were billed before the policy could be chosen
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = 'invoice';
+
+export const ROUNDING_POLICY_LABELS: Record<RoundingPolicy, string> = {
+  line: 'Round GST on each line',
+  invoice: 'Round GST once per rate on the invoice',
+  'round-off': 'Exact GST, grand total rounded with a Round Off row'
+};
+
+export function toPaise(rupees: number): Paise {
+  return Math.round(rupees * 100);
+}
+
+export function toRupees(paise: Paise): number {
+  return paise / 100;
+}
+
+// Drops anything below a paisa, e.g. from a rate per month spread over days
+export function roundMoney(rupees: number): number {
+  return toRupees(toPaise(rupees));
+}
+
+// Adds rupee amounts in paise so 0.1 + 0.2 comes out as 0.3
+export function addMoney(...amounts: number[]): number {
+  return toRupees(amounts.reduce((sum, amount) => sum + toPaise(amount), 0));
+}
+
+export function roundToRupee(paise: Paise): Paise {
+  return Math.round(paise / 100) * 100;
+}
+
+export function percentOf(paise: Paise, rate: number): Paise {
+  return Math.round((paise * rate) / 100);
+}
+
+// Splits a total across lines in proportion, putting the remainder on the last line
+export function allocatePaise(total: Paise, weights: number[]): Paise[] {
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightTotal === 0) return weights.map(() => 0);
+  let remaining = total;
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return remaining;
+    const share = Math.round((total * weight) / weightTotal);
+    remaining -= share;
+    return share;
+  });
+}
+
+// Zero when subtotal + taxes + roundOff equals the grand total to the paisa
+export function getTotalsDifference(invoice: Invoice): number {
+  const parts = toPaise(invoice.subtotal) + toPaise(invoice.cgst) + toPaise(invoice.sgst) +
+    toPaise(invoice.igst) + toPaise(invoice.roundOff || 0);
+  return toRupees(toPaise(invoice.grandTotal) - parts);
+}
@@ -0,0 +1,111 @@
+import { Invoice, InvoiceRecord, NoteRecord, Payment, PaymentMode, PaymentStatus } from '@/types/invoice';
+import { getAll, remove } from './db';
+import { saveWithNextNumber, RECEIPT_SERIES_ID } from './invoice-numbering';
+import { getCompanySeriesId } from './company';
+import { addMoney } from './money';
+
+export const PAYMENT_MODES: PaymentMode[] = ['Cheque', 'NEFT', 'UPI'];
+
+// Our terms charge interest when a bill isn't paid in 10 days, so that is the due date
+// for invoices issued without credit days
+export const DEFAULT_CREDIT_DAYS = 10;
+
+export interface InvoiceBalance {
+  billed: number;
+  advance: number; // Received against the PO before the invoice
+  credited: number;
+  debited: number;
+  received: number;
+  tds: number;
+  outstanding: number;
+}
+
+export type PaymentInput = Omit<Payment, 'id' | 'receiptNumber' | 'invoiceNumber' | 'createdAt'>;
+
+export async function listPayments(invoiceRecordId?: string): Promise<Payment[]> {
+  const payments = await getAll<Payment>('payments');
+  return payments
+    .filter(payment => !invoiceRecordId || payment.invoiceRecordId === invoiceRecordId)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getDueDate(invoice: Pick<Invoice, 'invoiceDate' | 'dueDate'>): string {
+  if (invoice.dueDate) return invoice.dueDate;
+  const date = new Date(invoice.invoiceDate);
+  date.setDate(date.getDate() + DEFAULT_CREDIT_DAYS);
+  return date.toISOString().split('T')[0];
+}
+
+// Credit notes reduce what the client owes and debit notes add to it
+export function getInvoiceBalance(record: InvoiceRecord, payments: Payment[], notes: NoteRecord[]): InvoiceBalance {
+  const ownNotes = notes.filter(note => note.originalRecordId === record.id);
+  const ownPayments = payments.filter(payment => payment.invoiceRecordId === record.id);
+
+  const billed = record.invoice.grandTotal;
+  const advance = record.invoice.advance || 0;
+  const credited = ownNotes
+    .filter(note => note.note.documentType === 'credit-note')
+    .reduce((sum, note) => sum + note.note.grandTotal, 0);
+  const debited = ownNotes
+    .filter(note => note.note.documentType === 'debit-note')
+    .reduce((sum, note) => sum + note.note.grandTotal, 0);
+  const received = ownPayments.reduce((sum, payment) => sum + payment.amount, 0);
+  const tds = ownPayments.reduce((sum, payment) => sum + payment.tdsDeducted, 0);
+
+  return {
+    billed,
+    advance,
+    credited,
+    debited,
+    received,
+    tds,
+    outstanding: addMoney(billed, debited, -advance, -credited, -received, -tds)
+  };
+}
+
+export function getPaymentStatus(
+  record: InvoiceRecord,
+  payments: Payment[],
+  notes: NoteRecord[],
+  asOf: string = new Date().toISOString().split('T')[0]
+): PaymentStatus {
+  const balance = getInvoiceBalance(record, payments, notes);
+  if (balance.outstanding <= 0) return 'paid';
+  if (asOf > getDueDate(record.invoice)) return 'overdue';
+  if (balance.received + balance.tds > 0) return 'partial';
+  return 'unpaid';
+}
+
+export async function recordPayment(record: InvoiceRecord, input: PaymentInput): Promise<Payment> {
+  if (record.status !== 'issued') {
+    throw new Error('Payments can only be recorded against issued invoices');
+  }
+  if (!(input.amount >= 0) || !(input.tdsDeducted >= 0) || input.amount + input.tdsDeducted <= 0) {
+    throw new Error('Enter the amount received and/or TDS deducted');
+  }
+  if (input.mode !== 'UPI' && !input.reference.trim()) {
+    throw new Error(`${input.mode} payments need a reference number`);
+  }
+
+  const [payments, notes] = await Promise.all([listPayments(), getAll<NoteRecord>('notes')]);
+  const { outstanding } = getInvoiceBalance(record, payments, notes);
+  if (input.amount + input.tdsDeducted > outstanding) {
+    throw new Error(`Payment exceeds the outstanding balance of ${outstanding}`);
+  }
+
+  const seriesId = getCompanySeriesId(RECEIPT_SERIES_ID, record.invoice.companyId);
+  const id = Date.now().toString();
+
+  return saveWithNextNumber<Payment>('payments', id, input.date, seriesId, receiptNumber => ({
+    ...input,
+    reference: input.reference.trim(),
+    id,
+    invoiceNumber: record.invoice.invoiceNumber,
+    receiptNumber,
+    createdAt: new Date().toISOString()
+  }));
+}
+
+export function deletePayment(id: string): Promise<void> {
+  return remove('payments', id);
+}
@@ -0,0 +1,220 @@
+import { jsPDF } from 'jspdf';
+import { CompanyDetails } from '@/types/invoice';
+
+export type PdfImageFormat = 'PNG' | 'JPEG';
+
+// Raster image ready for jsPDF's addImage, with its pixel size for fitting it into a box
+export interface PdfImage {
+  dataUrl: string;
+  format: PdfImageFormat;
+  width: number;
+  height: number;
+}
+
+export interface PdfAssets {
+  header: PdfImage | null;
+  footer: PdfImage | null;
+  logo: PdfImage | null;
+  signature: PdfImage | null;
+}
+
+export interface PdfAssetOptions {
+  strict?: boolean; // Throw when a configured image can't be loaded instead of drawing the fallback design
+}
+
+type AssetField = 'headerImage' | 'footerImage' | 'logo' | 'signature';
+
+const ASSET_LABELS: Record<AssetField, string> = {
+  headerImage: 'header image',
+  footerImage: 'footer image',
+  logo: 'logo',
+  signature: 'signature'
+};
+
+// A production invoice must not go out with a placeholder in place of the letterhead
+export const STRICT_ASSETS_BY_DEFAULT = process.env.NODE_ENV === 'production';
+
+// SVGs are rasterised at this many pixels per CSS pixel so they stay sharp when printed
+const SVG_SCALE = 4;
+
+// Keyed by the image's source, so a batch of invoices reads and converts each image once
+const cache = new Map<string, Promise<PdfImage>>();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Pixel size from the PNG header (IHDR) or the JPEG start-of-frame marker
+function readImageSize(bytes: Uint8Array, format: PdfImageFormat): { width: number; height: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (format === 'PNG') {
+    if (bytes.length < 24) throw new Error('The PNG is damaged');
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15, leaving out DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  throw new Error('The JPEG is damaged');
+}
+
+function getMimeType(dataUrl: string): string {
+  return dataUrl.slice(5, dataUrl.search(/[;,]/)).toLowerCase();
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  svg: 'image/svg+xml'
+};
+
+async function fetchDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  const type = response.headers.get('content-type')?.split(';')[0] || 'image/jpeg';
+  return `data:${type};base64,${toBase64(new Uint8Array(await response.arrayBuffer()))}`;
+}
+
+// Outside the browser there is no page to resolve a path like /header-image.jpg against, so it is fetched from
+// PDF_ASSET_BASE_URL when that is set and read from the public folder on disk otherwise
+async function readServerAsset(src: string): Promise<string> {
+  const baseUrl = process.env.PDF_ASSET_BASE_URL;
+  if (baseUrl) return fetchDataUrl(new URL(src, baseUrl).toString());
+
+  const { readFile } = await import(/* webpackIgnore: true */ /* turbopackIgnore: true */ 'node:fs/promises');
+  const path = await import(/* webpackIgnore: true */ /* turbopackIgnore: true */ 'node:path');
+  const publicDir = path.join(process.cwd(), 'public');
+  const file = path.join(publicDir, decodeURIComponent(src.split(/[?#]/)[0]));
+  if (!file.startsWith(publicDir + path.sep)) {
+    throw new Error('Only images in the public folder can be read');
+  }
+  const type = MIME_TYPES[path.extname(file).slice(1).toLowerCase()] || 'image/jpeg';
+  return `data:${type};base64,${(await readFile(file)).toString('base64')}`;
+}
+
+// Uploaded images are already data URLs; the bundled defaults under /public are fetched, or read from disk
+// when documents are generated on the server
+async function readDataUrl(src: string): Promise<string> {
+  if (src.startsWith('data:')) return src;
+  if (typeof window === 'undefined' && src.startsWith('/')) return readServerAsset(src);
+  return fetchDataUrl(src);
+}
+
+// jsPDF can't embed SVG, so it is drawn onto a canvas and taken back out as PNG
+function rasterizeSvg(dataUrl: string): Promise<string> {
+  if (typeof document === 'undefined') {
+    return Promise.reject(new Error('SVG images can only be converted in the browser; upload a PNG instead'));
+  }
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      // SVGs without width/height attributes report no size of their own
+      const width = (img.naturalWidth || 300) * SVG_SCALE;
+      const height = (img.naturalHeight || 100) * SVG_SCALE;
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available to convert the SVG'));
+        return;
+      }
+      context.drawImage(img, 0, 0, width, height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('The SVG could not be drawn'));
+    img.src = dataUrl;
+  });
+}
+
+function getFormat(mimeType: string): PdfImageFormat {
+  if (mimeType === 'image/png') return 'PNG';
+  if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') return 'JPEG';
+  throw new Error(`${mimeType || 'unknown'} images are not supported; use PNG, JPEG or SVG`);
+}
+
+async function convertImage(src: string): Promise<PdfImage> {
+  let dataUrl = await readDataUrl(src);
+  if (getMimeType(dataUrl) === 'image/svg+xml') {
+    dataUrl = await rasterizeSvg(dataUrl);
+  }
+  const format = getFormat(getMimeType(dataUrl));
+  return { dataUrl, format, ...readImageSize(fromBase64(dataUrl), format) };
+}
+
+export function loadPdfImage(src: string): Promise<PdfImage> {
+  let image = cache.get(src);
+  if (!image) {
+    image = convertImage(src);
+    // A failed load is tried again next time rather than remembered
+    image.catch(() => cache.delete(src));
+    cache.set(src, image);
+  }
+  return image;
+}
+
+// Short form of the source for messages, without a whole data URL
+function describeSource(src: string): string {
+  return src.startsWith('data:') ? `uploaded ${getMimeType(src) || 'image'}` : src;
+}
+
+/**
+ * Resolves every image the company's documents use before drawing starts, so layout never waits on a load.
+ * Images that aren't configured are left out and the drawn design is used. One that is configured but can't be
+ * loaded is an error in strict mode (the default in production builds) and is otherwise left out with a warning.
+ */
+export async function preloadPdfAssets(
+  company: CompanyDetails,
+  { strict = STRICT_ASSETS_BY_DEFAULT }: PdfAssetOptions = {}
+): Promise<PdfAssets> {
+  const load = async (field: AssetField): Promise<PdfImage | null> => {
+    const src = company[field];
+    if (!src) return null;
+    try {
+      return await loadPdfImage(src);
+    } catch (err) {
+      const message = `Could not load the ${ASSET_LABELS[field]} (${describeSource(src)}): ${err instanceof Error ? err.message : err}`;
+      if (strict) {
+        throw new Error(message);
+      }
+      console.warn(`${message}; using fallback design`);
+      return null;
+    }
+  };
+
+  const [header, footer, logo, signature] = await Promise.all([
+    load('headerImage'),
+    load('footerImage'),
+    load('logo'),
+    load('signature')
+  ]);
+  return { header, footer, logo, signature };
+}
+
+// Draws the image as large as fits in the box without stretching it, centred both ways
+export function addImageFit(doc: jsPDF, image: PdfImage, x: number, y: number, width: number, height: number) {
+  const scale = Math.min(width / image.width, height / image.height);
+  const fitWidth = image.width * scale;
+  const fitHeight = image.height * scale;
+  doc.addImage(image.dataUrl, image.format, x + (width - fitWidth) / 2, y + (height - fitHeight) / 2, fitWidth, fitHeight);
+}
@@ -1,62 +1,35 @@
-import jsPDF from 'jspdf';
+import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { Invoice } from '@/types/invoice';
-import { getStateFromGSTIN } from './utils';
-
-// Compact currency formatter for PDF tables
-function formatCompactCurrency(amount: number | string): string {
-  if (typeof amount === 'string') {
-    if (amount === '' || amount === '0') return '';
-    const numAmount = parseFloat(amount);
-    if (isNaN(numAmount)) return amount;
-    amount = numAmount;
-  }
-  if (amount === 0) return '';
-
-  // Round the amount to nearest whole number
-  const roundedAmount = Math.round(amount);
-
-  // Format as compact number without rupee symbol
-  return new Intl.NumberFormat('en-IN', {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(roundedAmount);
+import { CompanyDetails, Invoice, InvoiceTemplate } from '@/types/invoice';
+import { getDocumentFileName, downloadBlob } from './utils';
+import { getQrMatrix } from './e-invoice';
+import {
+  DocumentField,
+  DocumentRow,
+  buildInvoiceDocument,
+  formatField,
+  getTextScale,
+  createTotalsRow,
+  CARRIED_FORWARD_LABEL,
+  BROUGHT_FORWARD_LABEL
+} from './invoice-document';
+import { STANDARD_TEMPLATE, applyTemplateImages, getInvoiceTemplate, hexToRgb } from './invoice-templates';
+import { PdfAssetOptions, PdfAssets, addImageFit, preloadPdfAssets } from './pdf-assets';
+import { paginateItems, getCarriedTotals } from './pdf-pagination';
+
+const TABLE_CELL_PADDING = 2;
+
+// Smallest a table word is set at, relative to the table's font size, before it has to break mid-word
+const MIN_WORD_SCALE = 0.55;
+
+// Font size at which the longest word of the text fits the width, so text wraps between words and is never cut
+function fitWordsToWidth(doc: jsPDF, text: string, width: number, fontSize: number): number {
+  const longest = Math.max(0, ...text.split(/\s+/).map(word => doc.getStringUnitWidth(word)));
+  if (longest === 0) return fontSize;
+  const fitted = (width * doc.internal.scaleFactor) / longest;
+  return Math.max(fontSize * MIN_WORD_SCALE, Math.min(fontSize, fitted));
 }
 
-
-
-// Function to determine appropriate font size based on text length
-const getResponsiveFontSize = (text: string, maxLength: number, baseFontSize: number = 7): number => {
-  if (!text) return baseFontSize;
-
-  const textLength = text.length;
-
-  if (textLength <= maxLength) {
-    return baseFontSize; // Normal size
-  } else if (textLength <= maxLength * 1.5) {
-    return Math.max(baseFontSize - 1, 5); // Slightly smaller
-  } else if (textLength <= maxLength * 2) {
-    return Math.max(baseFontSize - 2, 4); // Smaller
-  } else {
-    return Math.max(baseFontSize - 3, 3); // Minimum readable size
-  }
-};
-
-// Column character limits for responsive font sizing
-const COLUMN_LIMITS = {
-  sno: 3,
-  town: 8,
-  location: 15,
-  hsn: 8,
-  media: 10,
-  size: 8,
-  area: 6,
-  type: 8,
-  ratePM: 10,
-  period: 20,
-  amount: 12
-};
-
 // Function to calculate optimal spacing based on content
 function calculateOptimalSpacing(invoice: Invoice) {
   const hasDisplayName = invoice.displayName && invoice.displayName.trim() !== '';
@@ -68,7 +41,7 @@ function calculateOptimalSpacing(invoice: Invoice) {
   const baseSpacing = {
     headerHeight: 20, // Reduced from 25
     titleSpacing: 8,  // Reduced from 15
-    detailsHeight: hasDisplayName || hasPODetails ? 35 : 25, // Dynamic height
+    detailsHeight: hasDisplayName || hasPODetails || invoice.eInvoice ? 35 : 25, // Dynamic height, and room for the e-invoice QR
     tableHeaderHeight: 12,
     rowHeight: 8,
     totalsHeight: 25,
@@ -79,14 +52,53 @@ function calculateOptimalSpacing(invoice: Invoice) {
 
   return {
     ...baseSpacing,
-    canFitOnePage: itemCount <= 15, // Estimate if content can fit on one page
     compactMode: itemCount <= 10 && !hasDisplayName // Ultra-compact for small invoices
   };
 }
 
-// Export function with compact mode option
-export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = false): void {
-  const doc = new jsPDF();
+// Drawn as filled squares so the QR stays vector and needs no image encoding
+function drawQrCode(doc: jsPDF, text: string, x: number, y: number, size: number) {
+  const matrix = getQrMatrix(text);
+  const cell = size / matrix.length;
+  doc.setFillColor(0, 0, 0);
+  matrix.forEach((row, rowIndex) => row.forEach((dark, colIndex) => {
+    if (dark) doc.rect(x + colIndex * cell, y + rowIndex * cell, cell, cell, 'F');
+  }));
+}
+
+// The template's header and footer images stand in for the company's
+function loadTemplateAssets(company: CompanyDetails, template: InvoiceTemplate, options: PdfAssetOptions): Promise<PdfAssets> {
+  return preloadPdfAssets(applyTemplateImages(company, template), options);
+}
+
+// Builds the invoice or note PDF in the given layout and returns its bytes; works the same in the browser and
+// in Node. Every image is resolved before drawing starts, so a missing asset fails here rather than mid-layout.
+export async function generateInvoicePDF(
+  invoice: Invoice,
+  company: CompanyDetails,
+  template: InvoiceTemplate = STANDARD_TEMPLATE,
+  options: PdfAssetOptions = {}
+): Promise<Uint8Array> {
+  const assets = await loadTemplateAssets(company, template, options);
+  return toPdfBytes(layoutInvoicePDF(invoice, company, assets, template));
+}
+
+function toPdfBytes(doc: jsPDF): Uint8Array {
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+function getPageCount(doc: jsPDF): number {
+  return (doc as unknown as { internal: { getNumberOfPages: () => number } }).internal.getNumberOfPages();
+}
+
+function layoutInvoicePDF(invoice: Invoice, company: CompanyDetails, images: PdfAssets, template: InvoiceTemplate): jsPDF {
+  const orientation = template.orientation === 'landscape' ? 'l' : 'p';
+  const doc = new jsPDF(orientation);
+  const compactMode = template.compact;
+  const font = template.font;
+  const tableFontSize = template.fontSize;
+  const headingFill = hexToRgb(template.headingColor);
+  const accent = hexToRgb(template.accentColor);
   const pageWidth = doc.internal.pageSize.width;
   const pageHeight = doc.internal.pageSize.height;
   const margin = compactMode ? 8 : 10; // Smaller margins in compact mode
@@ -94,6 +106,9 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
   // Calculate optimal spacing
   const spacing = calculateOptimalSpacing(invoice);
   const useCompactLayout = compactMode || spacing.compactMode;
+  // Every heading, label and row comes from the shared document model, as in the preview and Excel
+  const model = buildInvoiceDocument(invoice, company, template);
+  const labels = model.labels;
 
   // Page management variables (removed unused variables)
 
@@ -103,28 +118,19 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
     const headerHeight = useCompactLayout ? spacing.headerHeight : 25;
     const headerMargin = useCompactLayout ? 3 : 5;
 
-    // Load and add header image
-    const headerImg = new Image();
-    headerImg.crossOrigin = 'anonymous';
-    headerImg.onload = function() {
-      // Add header image to PDF at the very top
-      doc.addImage(headerImg, 'JPEG', headerMargin, headerMargin, pageWidth - (headerMargin * 2), headerHeight);
-    };
-
-    headerImg.onerror = function() {
-      console.warn('Could not load header image, using fallback design');
+    // Add the header image at the very top, or the drawn design when there is none
+    if (images.header) {
+      doc.addImage(images.header.dataUrl, images.header.format, headerMargin, headerMargin, pageWidth - (headerMargin * 2), headerHeight);
+    } else {
       createFallbackHeader();
-    };
-
-    // Try to load the header image
-    headerImg.src = '/header-image.jpg';
+    }
 
     function createFallbackHeader() {
       // Header design with decorative elements
       doc.rect(headerMargin, headerMargin, pageWidth - (headerMargin * 2), headerHeight);
 
       // Add decorative elements (diamond-shaped squares to represent the design)
-      doc.setFillColor(255, 140, 66); // Orange color
+      doc.setFillColor(...accent); // Template accent, orange by default
       const squareSize = 2.5;
 
       // Left side decorative pattern
@@ -144,17 +150,22 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
       doc.setLineWidth(0.5);
       doc.rect(logoX, logoY, logoWidth, logoHeight);
 
-      // Company name in logo area
+      // Company logo, or the name with its first word set large
       doc.setFillColor(0, 0, 0); // Reset to black
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'bold');
-      doc.text('DESHKAR', logoX + logoWidth / 2, logoY + 9, { align: 'center' });
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'normal');
-      doc.text('ADVERTISING', logoX + logoWidth / 2, logoY + 15, { align: 'center' });
+      if (images.logo) {
+        addImageFit(doc, images.logo, logoX + 1, logoY + 1, logoWidth - 2, logoHeight - 2);
+      } else {
+        const [firstWord, ...otherWords] = model.company.name.split(' ');
+        doc.setFontSize(14);
+        doc.setFont(font, 'bold');
+        doc.text(firstWord, logoX + logoWidth / 2, logoY + 9, { align: 'center' });
+        doc.setFontSize(10);
+        doc.setFont(font, 'normal');
+        doc.text(otherWords.join(' '), logoX + logoWidth / 2, logoY + 15, { align: 'center' });
+      }
 
       // Right side decorative pattern
-      doc.setFillColor(255, 140, 66); // Orange color
+      doc.setFillColor(...accent); // Template accent, orange by default
       doc.rect(pageWidth - headerMargin - 13, headerMargin + 6, squareSize * 1.1, squareSize * 1.1, 'F');
       doc.rect(pageWidth - headerMargin - 23, headerMargin + 10, squareSize * 1.3, squareSize * 1.3, 'F');
       doc.rect(pageWidth - headerMargin - 33, headerMargin + 4, squareSize, squareSize, 'F');
@@ -168,21 +179,12 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
     const footerMargin = 5;
     const footerY = pageHeight - footerHeight - footerMargin;
 
-    // Load and add footer image
-    const footerImg = new Image();
-    footerImg.crossOrigin = 'anonymous';
-    footerImg.onload = function() {
-      // Add footer image to PDF at the very bottom
-      doc.addImage(footerImg, 'JPEG', footerMargin, footerY, pageWidth - (footerMargin * 2), footerHeight);
-    };
-
-    footerImg.onerror = function() {
-      console.warn('Could not load footer image, using fallback design');
+    // Add the footer image at the very bottom, or the drawn design when there is none
+    if (images.footer) {
+      doc.addImage(images.footer.dataUrl, images.footer.format, footerMargin, footerY, pageWidth - (footerMargin * 2), footerHeight);
+    } else {
       createFallbackFooter();
-    };
-
-    // Try to load the footer image
-    footerImg.src = '/footer-image.jpg';
+    }
 
     function createFallbackFooter() {
       // Footer design with contact information
@@ -190,7 +192,7 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
       doc.rect(footerMargin, footerY, pageWidth - (footerMargin * 2), footerHeight);
 
       // Add decorative elements in footer
-      doc.setFillColor(255, 140, 66); // Orange color
+      doc.setFillColor(...accent); // Template accent, orange by default
       const footerSquareSize = 1.5;
 
       // Left side decorative pattern
@@ -203,18 +205,17 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
 
       // Contact Information
       doc.setFillColor(0, 0, 0); // Reset to black
-      doc.setFont('helvetica', 'normal');
+      doc.setFont(font, 'normal');
       doc.setFontSize(6);
 
       // Address
-      doc.text('R15, SP Tower 1st Floor, Anupam Nagar, Nr. Flyover, Raipur, Chhattisgarh 492007', footerMargin + 28, footerY + 8);
-
-      // Phone and Email
-      doc.text('Phone: +91 771 2538818', footerMargin + 28, footerY + 14);
-      doc.text('Email: deshkaradvertising@gmail.com', footerMargin + 78, footerY + 14);
+      doc.text(model.company.address, footerMargin + 28, footerY + 8);
 
-      // Website
-      doc.text('Website: www.deshkaradvertising.com', footerMargin + 28, footerY + 20);
+      // Phone and Email, then the website and registration numbers
+      const [phone, email, website] = model.company.contact;
+      doc.text(phone, footerMargin + 28, footerY + 14);
+      doc.text(email, footerMargin + 78, footerY + 14);
+      doc.text([website, model.company.registration].filter(Boolean).join('   '), footerMargin + 28, footerY + 20);
 
       // IOAA Membership Box
       const ioaaX = pageWidth - 80;
@@ -229,15 +230,15 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
       doc.setFontSize(5);
       doc.text('Proud Member Of', ioaaX + ioaaWidth / 2, ioaaY + 4, { align: 'center' });
       doc.setFontSize(6);
-      doc.setFont('helvetica', 'bold');
+      doc.setFont(font, 'bold');
       doc.text('INDIAN OUTDOOR', ioaaX + ioaaWidth / 2, ioaaY + 8, { align: 'center' });
       doc.text('ADVERTISING', ioaaX + ioaaWidth / 2, ioaaY + 12, { align: 'center' });
       doc.setFontSize(5);
-      doc.setFont('helvetica', 'normal');
+      doc.setFont(font, 'normal');
       doc.text('ASSOCIATION', ioaaX + ioaaWidth / 2, ioaaY + 16, { align: 'center' });
 
       // Right side decorative pattern
-      doc.setFillColor(255, 140, 66); // Orange color
+      doc.setFillColor(...accent); // Template accent, orange by default
       doc.rect(pageWidth - footerMargin - 13, footerY + 5, footerSquareSize * 1.1, footerSquareSize * 1.1, 'F');
       doc.rect(pageWidth - footerMargin - 18, footerY + 8, footerSquareSize * 1.3, footerSquareSize * 1.3, 'F');
       doc.rect(pageWidth - footerMargin - 24, footerY + 4, footerSquareSize, footerSquareSize, 'F');
@@ -248,81 +249,14 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
 
     // Add page number
     doc.setFontSize(8);
-    doc.setFont('helvetica', 'normal');
+    doc.setFont(font, 'normal');
     doc.text(`Page ${pageNumber}`, pageWidth - 30, footerY - 5);
   }
 
-  // Header Image Section - Outside invoice boundary
-  const headerHeight = 25;
-  const headerMargin = 5;
-
-  // Load and add header image
-  const headerImg = new Image();
-  headerImg.crossOrigin = 'anonymous';
-  headerImg.onload = function() {
-    // Add header image to PDF at the very top
-    doc.addImage(headerImg, 'JPEG', headerMargin, headerMargin, pageWidth - (headerMargin * 2), headerHeight);
-
-    // Continue with the rest of the PDF generation
-    generateRestOfPDF();
-  };
-
-  headerImg.onerror = function() {
-    console.warn('Could not load header image, using fallback design');
-    // Fallback header design
-    createFallbackHeader();
-    generateRestOfPDF();
-  };
-
-  // Try to load the header image
-  headerImg.src = '/header-image.jpg';
-
-  function createFallbackHeader() {
-    // Header design with decorative elements
-    doc.rect(headerMargin, headerMargin, pageWidth - (headerMargin * 2), headerHeight);
-
-    // Add decorative elements (diamond-shaped squares to represent the design)
-    doc.setFillColor(255, 140, 66); // Orange color
-    const squareSize = 2.5;
-
-    // Left side decorative pattern
-    doc.rect(headerMargin + 6, headerMargin + 6, squareSize, squareSize, 'F');
-    doc.rect(headerMargin + 13, headerMargin + 10, squareSize * 1.2, squareSize * 1.2, 'F');
-    doc.rect(headerMargin + 23, headerMargin + 4, squareSize * 0.8, squareSize * 0.8, 'F');
-    doc.rect(headerMargin + 30, headerMargin + 13, squareSize, squareSize, 'F');
-    doc.rect(headerMargin + 10, headerMargin + 18, squareSize * 1.1, squareSize * 1.1, 'F');
-    doc.rect(headerMargin + 20, headerMargin + 22, squareSize * 0.7, squareSize * 0.7, 'F');
-
-    // Center logo area with border
-    const logoX = pageWidth / 2 - 35;
-    const logoY = headerMargin + 4;
-    const logoWidth = 70;
-    const logoHeight = 18;
-    doc.setDrawColor(0, 0, 0);
-    doc.setLineWidth(0.5);
-    doc.rect(logoX, logoY, logoWidth, logoHeight);
-
-    // Company name in logo area
-    doc.setFillColor(0, 0, 0); // Reset to black
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'bold');
-    doc.text('DESHKAR', logoX + logoWidth / 2, logoY + 9, { align: 'center' });
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text('ADVERTISING', logoX + logoWidth / 2, logoY + 15, { align: 'center' });
-
-    // Right side decorative pattern
-    doc.setFillColor(255, 140, 66); // Orange color
-    doc.rect(pageWidth - headerMargin - 13, headerMargin + 6, squareSize * 1.1, squareSize * 1.1, 'F');
-    doc.rect(pageWidth - headerMargin - 23, headerMargin + 10, squareSize * 1.3, squareSize * 1.3, 'F');
-    doc.rect(pageWidth - headerMargin - 33, headerMargin + 4, squareSize, squareSize, 'F');
-    doc.rect(pageWidth - headerMargin - 18, headerMargin + 18, squareSize * 0.8, squareSize * 0.8, 'F');
-    doc.rect(pageWidth - headerMargin - 28, headerMargin + 22, squareSize * 1.2, squareSize * 1.2, 'F');
-    doc.rect(pageWidth - headerMargin - 38, headerMargin + 13, squareSize * 0.7, squareSize * 0.7, 'F');
-  }
-
   // Start first page
   addHeaderFooter(1);
+  generateRestOfPDF();
+  return doc;
 
   function generateRestOfPDF() {
     // Invoice boundary starts below header (dynamic spacing)
@@ -340,16 +274,26 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
     // Tax Invoice Title (centered at top of invoice) - dynamic sizing
     doc.setFillColor(0, 0, 0); // Reset to black
     doc.setFontSize(useCompactLayout ? 12 : 14);
-    doc.setFont('helvetica', 'bold');
+    doc.setFont(font, 'bold');
     const titleY = invoiceStartY + (useCompactLayout ? spacing.titleSpacing : 15);
-    doc.text('Tax Invoice', pageWidth / 2, titleY, { align: 'center' });
+    doc.text(labels.title, pageWidth / 2, titleY, { align: 'center' });
 
     // Draw horizontal line under title
     const lineY = titleY + (useCompactLayout ? 3 : 4);
     doc.line(margin + 2, lineY, pageWidth - margin - 2, lineY);
 
+    // IRN and acknowledgement of a registered e-invoice, just under the title
+    let irnHeight = 0;
+    if (model.eInvoice) {
+      doc.setFontSize(6);
+      doc.setFont(font, 'normal');
+      doc.text(formatField(model.eInvoice.irn), margin + 4, lineY + 3.5);
+      doc.text(model.eInvoice.acknowledgement.map(formatField).join('   '), pageWidth - margin - 4, lineY + 3.5, { align: 'right' });
+      irnHeight = 4;
+    }
+
     // Customer and PO Details Section with dynamic height
-    const detailsY = lineY + (useCompactLayout ? 4 : 5);
+    const detailsY = lineY + (useCompactLayout ? 4 : 5) + irnHeight;
     const detailsHeight = spacing.detailsHeight;
 
   // Draw main box for customer and PO details
@@ -361,602 +305,382 @@ export function generateInvoicePDF(invoice: Invoice, compactMode: boolean = fals
 
   // Left side - Customer Details Box
   doc.setFontSize(7);
-  doc.setFont('helvetica', 'normal');
-  doc.text('To,', margin + 5, detailsY + 6);
+  doc.setFont(font, 'normal');
+  doc.text(model.party.heading, margin + 5, detailsY + 6);
+
+  // Wrapped lines stop once the box is full rather than running over its border
+  const detailsBottomY = detailsY + detailsHeight - 5;
+  const writeLines = (text: string, x: number, maxWidth: number, y: number): number => {
+    doc.splitTextToSize(text, maxWidth).forEach((line: string) => {
+      if (y < detailsBottomY) {
+        doc.text(line, x, y);
+        y += 3.5;
+      }
+    });
+    return y;
+  };
+  const writeField = (field: DocumentField, x: number, maxWidth: number, y: number): number => {
+    if (!field.strong) return writeLines(formatField(field), x, maxWidth, y);
+    if (y >= detailsBottomY) return y;
+    const label = `${field.label}: `;
+    doc.setFont(font, 'normal');
+    doc.text(label, x, y);
+    doc.setFont(font, 'bold');
+    doc.text(field.value, x + doc.getTextWidth(label), y);
+    doc.setFont(font, 'normal');
+    return y + 3.5;
+  };
 
-  doc.setFont('helvetica', 'bold');
-  const customerName = invoice.billingParty.name;
   const maxLeftWidth = middleX - margin - 10;
-  const customerNameLines = doc.splitTextToSize(customerName, maxLeftWidth);
   let currentY = detailsY + 12;
-  customerNameLines.forEach((line: string) => {
-    doc.text(line, margin + 5, currentY);
-    currentY += 3.5;
-  });
-
-  doc.setFont('helvetica', 'normal');
-  // Handle long addresses by wrapping with smaller font
-  const customerAddressLines = doc.splitTextToSize(invoice.billingParty.address, maxLeftWidth);
-  customerAddressLines.forEach((line: string) => {
-    if (currentY < detailsY + detailsHeight - 5) { // Ensure we don't overflow the box
-      doc.text(line, margin + 5, currentY);
-      currentY += 3.5;
-    }
+  doc.setFont(font, 'bold');
+  currentY = writeLines(model.party.name, margin + 5, maxLeftWidth, currentY);
+  doc.setFont(font, 'normal');
+  currentY = writeLines(model.party.address, margin + 5, maxLeftWidth, currentY);
+  currentY = writeLines(model.party.cityLine, margin + 5, maxLeftWidth, currentY);
+  model.party.fields.forEach(field => {
+    currentY = writeField(field, margin + 5, maxLeftWidth, currentY);
   });
 
-  // Add remaining details with space checking
-  if (currentY < detailsY + detailsHeight - 5) {
-    const cityStateText = `${invoice.billingParty.city}, ${invoice.billingParty.state} - ${invoice.billingParty.pincode}`;
-    const cityStateLines = doc.splitTextToSize(cityStateText, maxLeftWidth);
-    cityStateLines.forEach((line: string) => {
-      if (currentY < detailsY + detailsHeight - 5) {
-        doc.text(line, margin + 5, currentY);
-        currentY += 3.5;
-      }
-    });
-  }
-
-  if (currentY < detailsY + detailsHeight - 5) {
-    doc.setFont('helvetica', 'normal');
-    doc.text('GSTIN: ', margin + 5, currentY);
-    doc.setFont('helvetica', 'bold');
-    doc.text(invoice.billingParty.gstin || '', margin + 20, currentY);
-    currentY += 3.5;
+  // Signed e-invoice QR code in the right corner of the details box
+  const qrSize = model.eInvoice ? detailsHeight - 4 : 0;
+  if (model.eInvoice) {
+    drawQrCode(doc, model.eInvoice.qrCode, pageWidth - margin - 4 - qrSize, detailsY + 2, qrSize);
   }
 
-  if (currentY < detailsY + detailsHeight - 5) {
-    const stateInfo = getStateFromGSTIN(invoice.billingParty.gstin || '');
-    const stateCode = stateInfo?.code || '00';
-    const stateText = `State: ${invoice.billingParty.state}, State Code: ${stateCode}`;
-    const stateLines = doc.splitTextToSize(stateText, maxLeftWidth);
-    stateLines.forEach((line: string) => {
-      if (currentY < detailsY + detailsHeight - 5) {
-        doc.text(line, margin + 5, currentY);
-        currentY += 3.5;
-      }
-    });
-  }
-
-  // Right side - Invoice Details Box
+  // Right side - Invoice Details Box: number, date, place of supply (it decides IGST vs CGST/SGST), the
+  // original invoice on credit/debit notes, then the PO
   const rightX = middleX + 5;
-  const maxRightWidth = pageWidth - middleX - margin - 10;
+  const maxRightWidth = pageWidth - middleX - margin - 10 - (qrSize ? qrSize + 2 : 0);
   let rightY = detailsY + 12;
-
-  doc.setFontSize(7);
-  doc.setFont('helvetica', 'normal');
-
-  // Invoice Number
-  const invoiceNoText = `Invoice No: ${invoice.invoiceNumber}`;
-  const invoiceNoLines = doc.splitTextToSize(invoiceNoText, maxRightWidth);
-  invoiceNoLines.forEach((line: string) => {
-    if (rightY < detailsY + detailsHeight - 5) {
-      doc.text(line, rightX, rightY);
-      rightY += 3.5;
-    }
-  });
-
-  // Invoice Date
-  const invoiceDateText = `Invoice Date: ${invoice.invoiceDate}`;
-  const invoiceDateLines = doc.splitTextToSize(invoiceDateText, maxRightWidth);
-  invoiceDateLines.forEach((line: string) => {
-    if (rightY < detailsY + detailsHeight - 5) {
-      doc.text(line, rightX, rightY);
-      rightY += 3.5;
-    }
+  model.details.forEach(field => {
+    rightY = writeField(field, rightX, maxRightWidth, rightY);
   });
 
-  // PO Number (if exists)
-  if (invoice.poNumber && rightY < detailsY + detailsHeight - 5) {
-    const poNoText = `PO NO.: ${invoice.poNumber}`;
-    const poNoLines = doc.splitTextToSize(poNoText, maxRightWidth);
-    poNoLines.forEach((line: string) => {
-      if (rightY < detailsY + detailsHeight - 5) {
-        doc.text(line, rightX, rightY);
-        rightY += 3.5;
-      }
-    });
-  }
-
-  // PO Date (if exists)
-  if (invoice.poDate && rightY < detailsY + detailsHeight - 5) {
-    const poDateText = `PO Date: ${invoice.poDate}`;
-    const poDateLines = doc.splitTextToSize(poDateText, maxRightWidth);
-    poDateLines.forEach((line: string) => {
-      if (rightY < detailsY + detailsHeight - 5) {
-        doc.text(line, rightX, rightY);
-        rightY += 3.5;
-      }
-    });
-  }
-
-  // Description section with box
+  // Description section with box, unless the template leaves it out
   const descY = detailsY + detailsHeight + 5;
-  const descHeight = 20;
-
-  // Draw box around description
-  doc.rect(margin + 2, descY - 2, pageWidth - (margin * 2) - 4, descHeight);
-
-  doc.setFontSize(8);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Towards the hoarding display charges at following particulars.', margin + 5, descY + 3);
+  const descHeight = model.description ? 20 : -5;
 
-  doc.setFont('helvetica', 'normal');
-  doc.text('Display : " ', margin + 5, descY + 8);
-  doc.setFont('helvetica', 'bold');
-  doc.text(invoice.displayName || invoice.billingParty.name, margin + 25, descY + 8);
-  doc.setFont('helvetica', 'normal');
-  doc.text(' "', margin + 25 + doc.getTextWidth(invoice.displayName || invoice.billingParty.name), descY + 8);
+  if (model.description) {
+    // Draw box around description
+    doc.rect(margin + 2, descY - 2, pageWidth - (margin * 2) - 4, descHeight);
 
-  doc.text(`Duration : ${invoice.duration || '37 Days'}`, margin + 5, descY + 13);
-  
-  // Combined table data with items and totals
-  const tableStartY = descY + descHeight + 5;
-  const tableData = [
-    // Main items
-    ...invoice.items.map(item => [
-      item.sno.toString(),
-      item.town,
-      item.location,
-      item.hsn,
-      item.media,
-      item.size,
-      item.area.toString(),
-      item.type,
-      formatCompactCurrency(item.ratePM),
-      item.period,
-      formatCompactCurrency(item.amount)
-    ]),
-    // Totals rows with empty cells for first 9 columns
-    ['', '', '', '', '', '', '', '', '', 'SUB TOTAL', formatCompactCurrency(invoice.subtotal)],
-    ['', '', '', '', '', '', '', '', '', 'Add : CGST @ 9%', invoice.cgst > 0 ? formatCompactCurrency(invoice.cgst) : '0'],
-    ['', '', '', '', '', '', '', '', '', 'Add : SGST @ 9%', invoice.sgst > 0 ? formatCompactCurrency(invoice.sgst) : '0'],
-    ['', '', '', '', '', '', '', '', '', 'Add : IGST @ 18%', invoice.igst > 0 ? formatCompactCurrency(invoice.igst) : '0'],
-    ['', '', '', '', '', '', '', '', '', 'Less : PO', '0'],
-    ['', '', '', '', '', '', '', '', '', 'GRAND TOTAL', formatCompactCurrency(invoice.grandTotal)]
-  ];
-
-  // Calculate available width for table
-  const availableWidth = pageWidth - (margin * 2) - 4;
-
-  // Split data for controlled pagination - max 13 rows on first page
-  const maxRowsFirstPage = 13;
-  const firstPageData = tableData.slice(0, maxRowsFirstPage);
-  const remainingData = tableData.slice(maxRowsFirstPage);
-
-  // First page table with exactly 13 rows max
-  autoTable(doc, {
-    startY: tableStartY,
-    margin: { left: margin + 2, right: margin + 2 },
-    head: [['Sr.NO', 'TOWN', 'LOCATION', 'HSN', 'MEDIA', 'SIZE', 'AREA', 'TYPE', 'RATE P.M.', 'PERIOD', 'AMOUNT']],
-    body: firstPageData,
-    theme: 'plain',
-    pageBreak: 'avoid', // Prevent auto page break
-    showHead: 'firstPage',
-    tableWidth: availableWidth,
-    tableLineColor: [0, 0, 0],
-    tableLineWidth: 0.25,
-    headStyles: {
-      fillColor: [240, 240, 240],
-      textColor: [0, 0, 0],
-      fontStyle: 'bold',
-      fontSize: 8,
-      halign: 'center',
-      cellPadding: 2,
-      overflow: 'linebreak',
-      lineColor: [0, 0, 0],
-      lineWidth: 0.25
-    },
-    styles: {
-      fontSize: 7,
-      cellPadding: 2,
-      lineColor: [0, 0, 0],
-      lineWidth: 0.25,
-      halign: 'center',
-      overflow: 'linebreak',
-      cellWidth: 'wrap',
-      textColor: [0, 0, 0]
-    },
-    alternateRowStyles: {
-      lineColor: [0, 0, 0],
-      lineWidth: 0.25
-    },
-    columnStyles: {
-      0: { halign: 'center', cellWidth: availableWidth * 0.05 },    // Sr.NO - 5%
-      1: { halign: 'center', cellWidth: availableWidth * 0.07 },    // TOWN - 7%
-      2: { halign: 'center', cellWidth: availableWidth * 0.10 },    // LOCATION - 10%
-      3: { halign: 'center', cellWidth: availableWidth * 0.06 },    // HSN - 6%
-      4: { halign: 'center', cellWidth: availableWidth * 0.07 },    // MEDIA - 7%
-      5: { halign: 'center', cellWidth: availableWidth * 0.06 },    // SIZE - 6%
-      6: { halign: 'center', cellWidth: availableWidth * 0.05 },    // AREA - 5%
-      7: { halign: 'center', cellWidth: availableWidth * 0.05 },    // TYPE - 5%
-      8: { halign: 'right', cellWidth: availableWidth * 0.08 },     // RATE P.M. - 8%
-      9: { halign: 'center', cellWidth: availableWidth * 0.19 },    // PERIOD - 19%
-      10: { halign: 'right', cellWidth: availableWidth * 0.25 }     // AMOUNT - 25%
-    },
-    didParseCell: function(data) {
-      // Force strict boundary respect and text wrapping
-      data.cell.styles.overflow = 'linebreak';
-      data.cell.styles.cellWidth = 'wrap';
-      data.cell.styles.valign = 'middle';
-
-      // Apply uniform border styling to ALL cells first
-      data.cell.styles.lineWidth = 0.25;
-      data.cell.styles.lineColor = [0, 0, 0];
-
-      // Identify totals rows (starting from invoice.items.length)
-      const totalsStartRow = invoice.items.length;
-      const isSubTotalRow = data.row.index === totalsStartRow;
-      const isGrandTotalRow = data.row.index === totalsStartRow + 5;
-      const isTotalsRow = data.row.index >= totalsStartRow;
-
-      // Style totals rows
-      if (isTotalsRow) {
-        // Hide borders for empty cells (columns 0-8)
-        if (data.column.index < 9) {
-          data.cell.styles.lineWidth = 0;
-          data.cell.styles.lineColor = [255, 255, 255]; // White borders (invisible)
-        } else {
-          // Keep uniform borders for PERIOD and AMOUNT columns
-          data.cell.styles.lineWidth = 0.25;
-          data.cell.styles.lineColor = [0, 0, 0]; // Black borders
-        }
-
-        // Style SUB TOTAL and GRAND TOTAL rows with bold and gray background
-        if (isSubTotalRow || isGrandTotalRow) {
-          if (data.column.index >= 9) { // Only for PERIOD and AMOUNT columns
-            data.cell.styles.fontStyle = 'bold';
-            data.cell.styles.fillColor = [240, 240, 240]; // Light gray background
-          }
-        }
-
-        // Align totals labels to left in PERIOD column
-        if (data.column.index === 9) {
-          data.cell.styles.halign = 'left';
-        }
-      } else {
-        // For regular item rows, apply responsive font sizing
-        if (data.cell.text && data.cell.text.length > 0) {
-          const text = data.cell.text[0];
-
-          // Get column limits and apply responsive font sizing
-          let maxLength;
-          switch (data.column.index) {
-            case 0: maxLength = COLUMN_LIMITS.sno; break;
-            case 1: maxLength = COLUMN_LIMITS.town; break;
-            case 2: maxLength = COLUMN_LIMITS.location; break;
-            case 3: maxLength = COLUMN_LIMITS.hsn; break;
-            case 4: maxLength = COLUMN_LIMITS.media; break;
-            case 5: maxLength = COLUMN_LIMITS.size; break;
-            case 6: maxLength = COLUMN_LIMITS.area; break;
-            case 7: maxLength = COLUMN_LIMITS.type; break;
-            case 8: maxLength = COLUMN_LIMITS.ratePM; break;
-            case 9: maxLength = COLUMN_LIMITS.period; break;
-            case 10: maxLength = COLUMN_LIMITS.amount; break;
-            default: maxLength = 10;
-          }
-
-          // Apply responsive font sizing - reduce font size first, then wrap if necessary
-          const responsiveFontSize = getResponsiveFontSize(text, maxLength, 7);
-          data.cell.styles.fontSize = responsiveFontSize;
-
-          // Only enable wrapping if text is extremely long (more than 3x the limit)
-          if (text.length > maxLength * 3) {
-            data.cell.styles.overflow = 'linebreak';
-            data.cell.styles.cellWidth = 'wrap';
-          } else {
-            // For moderately long text, just use smaller font and prevent wrapping
-            data.cell.styles.overflow = 'hidden';
-          }
-        }
-      }
-    }
-  });
-
-  // Add C/F text if there's remaining data
-  if (remainingData.length > 0) {
-    const firstTableFinalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+    const { heading, display, duration } = model.description;
     doc.setFontSize(8);
-    doc.setFont('helvetica', 'bold');
-    doc.text('C/F (Carried Forward)', pageWidth - 80, firstTableFinalY + 10);
-
-    // Add new page for remaining data
-    doc.addPage();
-    addHeaderFooter(2);
-
-    // Add invoice boundary for second page
-    const headerHeight = 25;
-    const headerMargin = 5;
-    const invoiceStartY = headerHeight + headerMargin + 10;
-    const footerSpace = 50;
-    const availableHeight = pageHeight - invoiceStartY - footerSpace;
+    doc.setFont(font, 'bold');
+    doc.text(heading, margin + 5, descY + 3);
 
-    doc.rect(margin, invoiceStartY, pageWidth - (margin * 2), availableHeight);
+    doc.setFont(font, 'normal');
+    doc.text(`${display.label} : " `, margin + 5, descY + 8);
+    doc.setFont(font, 'bold');
+    doc.text(display.value, margin + 25, descY + 8);
+    doc.setFont(font, 'normal');
+    doc.text(' "', margin + 25 + doc.getTextWidth(display.value), descY + 8);
 
-    // Add explicit bottom border line for continuation page
-    const continuationBottomY = invoiceStartY + availableHeight;
-    doc.setDrawColor(0, 0, 0);
-    doc.setLineWidth(0.5);
-    doc.line(margin, continuationBottomY, pageWidth - margin, continuationBottomY);
+    doc.text(`${duration.label} : ${duration.value}`, margin + 5, descY + 13);
+  }
 
-    // Add B/F text
-    doc.setFontSize(8);
-    doc.setFont('helvetica', 'bold');
-    doc.text('B/F (Brought Forward)', margin + 5, invoiceStartY + 15);
+  const itemRows = model.items;
+  const totalRows = model.totals;
+  const carriedRow = (amount: number) => createTotalsRow(model.columns, CARRIED_FORWARD_LABEL, amount, 'carry');
+  const broughtRow = (amount: number) => createTotalsRow(model.columns, BROUGHT_FORWARD_LABEL, amount, 'carry');
+  // Totals are labelled in the column before AMOUNT, with the columns before it left blank
+  const labelColumn = model.columns.length - 2;
 
-    // Continue with remaining data table
-    autoTable(doc, {
-      startY: invoiceStartY + 25,
+  // Calculate available width for table
+  const availableWidth = pageWidth - (margin * 2) - 4;
+  const invoiceBottomY = invoiceStartY + availableHeight;
+  const continuationTableY = invoiceStartY + 12;
+
+  // Draws the rows from startY and returns where the table ends; onRowHeight reports each row's measured height
+  function drawItemTable(
+    target: jsPDF,
+    rows: DocumentRow[],
+    startY: number,
+    onRowHeight?: (section: 'head' | 'body', index: number, height: number) => void
+  ): number {
+    autoTable(target, {
+      startY,
       margin: { left: margin + 2, right: margin + 2 },
-      head: [['Sr.NO', 'TOWN', 'LOCATION', 'HSN', 'MEDIA', 'SIZE', 'AREA', 'TYPE', 'RATE P.M.', 'PERIOD', 'AMOUNT']],
-      body: remainingData,
+      head: [model.columns.map(column => column.label)],
+      body: rows.map(row => row.cells.map(cell => cell.text)),
       theme: 'plain',
-      pageBreak: 'auto',
-      showHead: 'everyPage',
+      // Rows are split over pages before drawing, so each call fits on its page
+      pageBreak: 'avoid',
+      rowPageBreak: 'avoid',
+      showHead: 'firstPage',
       tableWidth: availableWidth,
       tableLineColor: [0, 0, 0],
       tableLineWidth: 0.25,
       headStyles: {
-        fillColor: [240, 240, 240],
+        fillColor: headingFill,
         textColor: [0, 0, 0],
+        font,
         fontStyle: 'bold',
-        fontSize: 8,
+        fontSize: tableFontSize + 1,
         halign: 'center',
-        cellPadding: 2,
+        cellPadding: TABLE_CELL_PADDING,
         overflow: 'linebreak',
         lineColor: [0, 0, 0],
         lineWidth: 0.25
       },
       styles: {
-        fontSize: 7,
-        cellPadding: 2,
+        font,
+        fontSize: tableFontSize,
+        cellPadding: TABLE_CELL_PADDING,
         lineColor: [0, 0, 0],
         lineWidth: 0.25,
         halign: 'center',
         overflow: 'linebreak',
-        cellWidth: 'wrap',
         textColor: [0, 0, 0]
       },
       alternateRowStyles: {
         lineColor: [0, 0, 0],
         lineWidth: 0.25
       },
-      columnStyles: {
-        0: { halign: 'center', cellWidth: availableWidth * 0.05 },    // Sr.NO - 5%
-        1: { halign: 'center', cellWidth: availableWidth * 0.07 },    // TOWN - 7%
-        2: { halign: 'center', cellWidth: availableWidth * 0.10 },    // LOCATION - 10%
-        3: { halign: 'center', cellWidth: availableWidth * 0.06 },    // HSN - 6%
-        4: { halign: 'center', cellWidth: availableWidth * 0.07 },    // MEDIA - 7%
-        5: { halign: 'center', cellWidth: availableWidth * 0.06 },    // SIZE - 6%
-        6: { halign: 'center', cellWidth: availableWidth * 0.05 },    // AREA - 5%
-        7: { halign: 'center', cellWidth: availableWidth * 0.05 },    // TYPE - 5%
-        8: { halign: 'right', cellWidth: availableWidth * 0.08 },     // RATE P.M. - 8%
-        9: { halign: 'center', cellWidth: availableWidth * 0.19 },    // PERIOD - 19%
-        10: { halign: 'right', cellWidth: availableWidth * 0.25 }     // AMOUNT - 25%
-      },
+      columnStyles: Object.fromEntries(model.columns.map((column, index) => (
+        [index, { halign: column.align, cellWidth: availableWidth * column.width }]
+      ))),
       didParseCell: function(data) {
-        // Force strict boundary respect and text wrapping
+        // Wrap within the column widths above so measured rows are the rows that get drawn
         data.cell.styles.overflow = 'linebreak';
-        data.cell.styles.cellWidth = 'wrap';
-
-        // Apply responsive font sizing for better fit
-        if (data.row.section === 'body') {
-          // For regular item rows, apply responsive font sizing
-          if (data.cell.text && data.cell.text.length > 0) {
-            const text = data.cell.text[0];
-
-            // Get column limits and apply responsive font sizing
-            let maxLength;
-            switch (data.column.index) {
-              case 0: maxLength = COLUMN_LIMITS.sno; break;
-              case 1: maxLength = COLUMN_LIMITS.town; break;
-              case 2: maxLength = COLUMN_LIMITS.location; break;
-              case 3: maxLength = COLUMN_LIMITS.hsn; break;
-              case 4: maxLength = COLUMN_LIMITS.media; break;
-              case 5: maxLength = COLUMN_LIMITS.size; break;
-              case 6: maxLength = COLUMN_LIMITS.area; break;
-              case 7: maxLength = COLUMN_LIMITS.type; break;
-              case 8: maxLength = COLUMN_LIMITS.ratePM; break;
-              case 9: maxLength = COLUMN_LIMITS.period; break;
-              case 10: maxLength = COLUMN_LIMITS.amount; break;
-              default: maxLength = 10;
-            }
-
-            // Apply responsive font sizing - reduce font size first, then wrap if necessary
-            const responsiveFontSize = getResponsiveFontSize(text, maxLength, 7);
-            data.cell.styles.fontSize = responsiveFontSize;
-
-            // Only enable wrapping if text is extremely long (more than 3x the limit)
-            if (text.length > maxLength * 3) {
-              data.cell.styles.overflow = 'linebreak';
-              data.cell.styles.cellWidth = 'wrap';
-            } else {
-              // For moderately long text, just use smaller font and prevent wrapping
-              data.cell.styles.overflow = 'hidden';
-            }
+        data.cell.styles.valign = 'middle';
+
+        // Apply uniform border styling to ALL cells first
+        data.cell.styles.lineWidth = 0.25;
+        data.cell.styles.lineColor = [0, 0, 0];
+
+        // Headings are sized to their columns the same way as the item text
+        const row = data.section === 'body'
+          ? rows[data.row.index]
+          : { kind: 'item', cells: model.columns.map(column => ({ text: column.label, scale: getTextScale(column.label, column.maxChars) })) };
+        if (row.kind !== 'item') {
+          // Hide borders for the empty cells before the label
+          if (data.column.index < labelColumn) {
+            data.cell.styles.lineWidth = 0;
+            data.cell.styles.lineColor = [255, 255, 255]; // White borders (invisible)
+          }
+
+          // SUB TOTAL, GRAND TOTAL and the running totals in bold on a gray background
+          if (row.kind !== 'total' && data.column.index >= labelColumn) {
+            data.cell.styles.fontStyle = 'bold';
+            data.cell.styles.fillColor = headingFill; // Light gray by default
+          }
+
+          // Align totals labels to the left in the column before AMOUNT
+          if (data.column.index === labelColumn) {
+            data.cell.styles.halign = 'left';
           }
+        } else {
+          // Long text is set smaller to fit its column and wraps between words; a word too wide for the
+          // column (e.g. an HSN code in a narrow one) is shrunk until it fits rather than cut off
+          const cell = row.cells[data.column.index];
+          const size = (data.section === 'head' ? tableFontSize + 1 : tableFontSize) * cell.scale;
+          const contentWidth = availableWidth * model.columns[data.column.index].width - 2 * TABLE_CELL_PADDING;
+          target.setFont(font, data.section === 'head' ? 'bold' : 'normal');
+          data.cell.styles.fontSize = fitWordsToWidth(target, cell.text, contentWidth, size);
+        }
+      },
+      didDrawCell: function(data) {
+        if (onRowHeight && data.column.index === 0 && data.section !== 'foot') {
+          onRowHeight(data.section, data.row.index, data.row.height);
         }
       }
     });
+    return (target as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
   }
 
-  // Handle multi-page with C/F and B/F for any additional pages beyond the second
-  const totalPages = (doc as unknown as { internal: { getNumberOfPages: () => number } }).internal.getNumberOfPages();
-  if (totalPages > 2) {
-    // Go through pages 3 and beyond (we already handled pages 1 and 2 manually)
-    for (let pageNum = 3; pageNum <= totalPages; pageNum++) {
-      doc.setPage(pageNum);
-      addHeaderFooter(pageNum);
-
-      // Add invoice boundary for continuation pages
-      const headerHeight = 25;
-      const headerMargin = 5;
-      const invoiceStartY = headerHeight + headerMargin + 10;
-      const footerSpace = 50;
-      const availableHeight = pageHeight - invoiceStartY - footerSpace;
+  // Amount in words, HSN summary, terms, bank details and signature; returns where the block ends
+  function drawClosing(target: jsPDF, tableEndY: number): number {
+    // Amount in Words
+    target.setFont(font, 'bold');
+    target.setFontSize(7);
+    target.text(model.amountInWords, margin + 5, tableEndY + 10);
+    let wordsEndY = tableEndY + 10;
+
+    // What the client will actually pay once they deduct TDS from the bill
+    if (model.netReceivable) {
+      wordsEndY += 4;
+      target.text(model.netReceivable, margin + 5, wordsEndY);
+    }
 
-      doc.rect(margin, invoiceStartY, pageWidth - (margin * 2), availableHeight);
+    // HSN/SAC-wise tax summary
+    let hsnFinalY = wordsEndY;
+    if (model.hsn) {
+      const hsnRows = model.hsn.rows;
+      autoTable(target, {
+        startY: wordsEndY + 3,
+        margin: { left: margin + 5 },
+        head: [model.hsn.head],
+        body: hsnRows.map(row => row.cells.map(cell => cell.text)),
+        theme: 'plain',
+        pageBreak: 'avoid',
+        tableWidth: 120,
+        headStyles: { fillColor: headingFill, fontStyle: 'bold', fontSize: 6, halign: 'center', cellPadding: 1 },
+        styles: { font, fontSize: 6, cellPadding: 1, lineColor: [0, 0, 0], lineWidth: 0.2, halign: 'right', textColor: [0, 0, 0] },
+        columnStyles: { 0: { halign: 'center' }, 2: { halign: 'center' } },
+        didParseCell: function(data) {
+          if (data.section === 'body' && hsnRows[data.row.index].kind === 'strong') {
+            data.cell.styles.fontStyle = 'bold';
+          }
+        }
+      });
+      hsnFinalY = (target as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+    }
 
-      // Add explicit bottom border line for additional continuation pages
-      const additionalBottomY = invoiceStartY + availableHeight;
-      doc.setDrawColor(0, 0, 0);
-      doc.setLineWidth(0.5);
-      doc.line(margin, additionalBottomY, pageWidth - margin, additionalBottomY);
+    // Terms and Conditions, or the reason for a credit/debit note
+    target.setFont(font, 'normal');
+    target.setFontSize(6);
+    const termsY = hsnFinalY + 6;
+    let termsEndY = termsY;
+    model.terms.forEach(term => {
+      const lines = target.splitTextToSize(term, pageWidth - (margin * 2) - 80);
+      target.text(lines, margin + 5, termsEndY);
+      termsEndY += lines.length * 3 + 1;
+    });
 
-      // Add "B/F" text at the top of continuation pages
-      doc.setFontSize(8);
-      doc.setFont('helvetica', 'bold');
-      doc.text('B/F (Brought Forward)', margin + 5, invoiceStartY + 15);
+    // Bank details for payment by transfer
+    if (model.bankDetails) {
+      target.setFont(font, 'bold');
+      target.text(model.bankDetails, margin + 5, termsEndY + 1);
+      termsEndY += 4;
+    }
 
-      // Add "C/F" text at the bottom if not the last page
-      if (pageNum < totalPages) {
-        doc.text('C/F (Carried Forward)', pageWidth - 80, invoiceStartY + availableHeight - 10);
-      }
+    // Signature block - positioned within the border
+    if (!model.signature) return termsEndY;
+    target.setFont(font, 'normal');
+    target.setFontSize(7);
+    target.text(model.signature.forCompany, pageWidth - 60, termsY + 10);
+    // Signature sits in the space between the company name and the signatory line
+    if (images.signature) {
+      addImageFit(target, images.signature, pageWidth - 60, termsY + 11, 45, 11);
     }
+    target.text(model.signature.signatory, pageWidth - 60, termsY + 25);
 
-    // Return to the last page for final content
-    doc.setPage(totalPages);
-  } else {
-    // If we only have 1 or 2 pages, make sure we're on the last page
-    doc.setPage(totalPages);
+    return Math.max(termsEndY, termsY + 27);
   }
 
-  // Get the final Y position after the combined table
-  const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY || descY + 100;
-
-  // Amount in Words
-  doc.setFont('helvetica', 'bold');
-  doc.setFontSize(7);
-  doc.text(`Total in words : Rs. ${invoice.totalInWords}.`, margin + 5, finalY + 10);
-
-  // Terms and Conditions
-  doc.setFont('helvetica', 'normal');
-  doc.setFontSize(6);
-  const termsY = finalY + 20;
-  doc.text('1. Any complaint about the advertisement must be received within 7 days from the date of bill.', margin + 5, termsY);
-  doc.text('2. Cheques/D.D.(crossed) to be drawn in favour of DESHKAR ADVERTISING, RAIPUR', margin + 5, termsY + 4);
-  doc.text('3. Interest will be charged @ 24% if the bill is not paid in 10 days.', margin + 5, termsY + 8);
-  doc.text('4. No receipt is valid unless given on official form.', margin + 5, termsY + 12);
-  doc.text('5. Subject to Raipur Jurisdiction. State: Chhattisgarh, State Code : 22', margin + 5, termsY + 16);
-  doc.text('6. Enquiry Pin Code : 492001', margin + 5, termsY + 20);
-  doc.text('7. Our PAN NO.: AKJPD0941N & Our GST NO.: 22AKJPD0941N4Z8', margin + 5, termsY + 24);
-
-  // Footer - positioned within the border
-  doc.setFont('helvetica', 'normal');
-  doc.setFontSize(7);
-    doc.text('For, DESHKAR ADVERTISING', pageWidth - 60, termsY + 10);
-    doc.text('Authorised Signatory', pageWidth - 60, termsY + 25);
-
-    // Draw explicit bottom border line to close the invoice boundary
-    const invoiceBottomY = invoiceStartY + availableHeight;
-    doc.setDrawColor(0, 0, 0);
-    doc.setLineWidth(0.5);
-    doc.line(margin, invoiceBottomY, pageWidth - margin, invoiceBottomY);
-
-    // Footer Section - Outside invoice boundary at bottom
-    const footerHeight = 25;
-    const footerMargin = 5;
-    const footerY = pageHeight - footerHeight - footerMargin;
-
-    // Load and add footer image
-    const footerImg = new Image();
-    footerImg.crossOrigin = 'anonymous';
-    footerImg.onload = function() {
-      // Add footer image to PDF at the very bottom
-      doc.addImage(footerImg, 'JPEG', footerMargin, footerY, pageWidth - (footerMargin * 2), footerHeight);
-
-      // Save PDF after footer is loaded
-      doc.save(`Invoice_${invoice.invoiceNumber}.pdf`);
-    };
-
-    footerImg.onerror = function() {
-      console.warn('Could not load footer image, using fallback design');
-      createFallbackFooter();
-      doc.save(`Invoice_${invoice.invoiceNumber}.pdf`);
-    };
-
-    // Try to load the footer image
-    footerImg.src = '/footer-image.jpg';
-
-    function createFallbackFooter() {
-      // Footer design with contact information
-      // Draw footer border
-      doc.rect(footerMargin, footerY, pageWidth - (footerMargin * 2), footerHeight);
-
-      // Add decorative elements in footer
-      doc.setFillColor(255, 140, 66); // Orange color
-      const footerSquareSize = 1.5;
+  // Measure every row and the closing block once in a scratch document, exactly as they will be drawn
+  const scratch = new jsPDF(orientation);
+  const bodyRows = [...itemRows, ...totalRows, carriedRow(invoice.subtotal), broughtRow(invoice.subtotal)];
+  const rowHeights: number[] = [];
+  let headHeight = 0;
+  drawItemTable(scratch, bodyRows, margin, (section, index, height) => {
+    if (section === 'head') {
+      headHeight = height;
+    } else {
+      rowHeights[index] = height;
+    }
+  });
+  scratch.addPage();
+  const closingHeight = rowHeights.slice(itemRows.length, itemRows.length + totalRows.length).reduce((sum, height) => sum + height, 0) +
+    drawClosing(scratch, margin) - margin;
 
-      // Left side decorative pattern
-      doc.rect(footerMargin + 6, footerY + 5, footerSquareSize, footerSquareSize, 'F');
-      doc.rect(footerMargin + 10, footerY + 8, footerSquareSize * 1.2, footerSquareSize * 1.2, 'F');
-      doc.rect(footerMargin + 16, footerY + 4, footerSquareSize * 0.8, footerSquareSize * 0.8, 'F');
-      doc.rect(footerMargin + 20, footerY + 10, footerSquareSize, footerSquareSize, 'F');
-      doc.rect(footerMargin + 8, footerY + 15, footerSquareSize * 1.1, footerSquareSize * 1.1, 'F');
-      doc.rect(footerMargin + 14, footerY + 18, footerSquareSize * 0.7, footerSquareSize * 0.7, 'F');
+  // Fill each page to its bottom border, carrying the running total of the amounts from page to page
+  const tableStartY = descY + descHeight + 5;
+  const pages = paginateItems({
+    itemHeights: rowHeights.slice(0, itemRows.length),
+    closingHeight,
+    carryHeight: rowHeights[bodyRows.length - 2],
+    broughtHeight: rowHeights[bodyRows.length - 1],
+    firstPageSpace: invoiceBottomY - tableStartY - headHeight - 2,
+    nextPageSpace: invoiceBottomY - continuationTableY - headHeight - 2
+  });
+  const carriedTotals = getCarriedTotals(invoice.items.map(item => item.amount), pages);
 
-      // Contact Information
-      doc.setFillColor(0, 0, 0); // Reset to black
-      doc.setFont('helvetica', 'normal');
-      doc.setFontSize(6);
+  let finalY = tableStartY;
+  pages.forEach((page, index) => {
+    const isLastPage = index === pages.length - 1;
+    if (index > 0) {
+      doc.addPage();
+      addHeaderFooter(index + 1);
 
-      // Address
-      doc.text('R15, SP Tower 1st Floor, Anupam Nagar, Nr. Flyover, Raipur, Chhattisgarh 492007', footerMargin + 28, footerY + 8);
+      // Invoice boundary and a reminder of which document the page continues
+      doc.setDrawColor(0, 0, 0);
+      doc.setLineWidth(0.5);
+      doc.rect(margin, invoiceStartY, pageWidth - (margin * 2), availableHeight);
+      doc.setFontSize(8);
+      doc.setFont(font, 'bold');
+      doc.text(`${labels.title} (Continued)`, margin + 5, invoiceStartY + 7);
+      doc.setFont(font, 'normal');
+      doc.text(formatField(model.details[0]), pageWidth - margin - 5, invoiceStartY + 7, { align: 'right' });
+    }
 
-      // Phone and Email
-      doc.text('Phone: +91 771 2538818', footerMargin + 28, footerY + 14);
-      doc.text('Email: deshkaradvertising@gmail.com', footerMargin + 78, footerY + 14);
+    finalY = drawItemTable(doc, [
+      ...(index > 0 ? [broughtRow(carriedTotals[index - 1])] : []),
+      ...itemRows.slice(page.start, page.end),
+      ...(isLastPage ? totalRows : [carriedRow(carriedTotals[index])])
+    ], index === 0 ? tableStartY : continuationTableY);
+  });
 
-      // Website
-      doc.text('Website: www.deshkaradvertising.com', footerMargin + 28, footerY + 20);
+  drawClosing(doc, finalY);
 
-      // IOAA Membership Box
-      const ioaaX = pageWidth - 80;
-      const ioaaY = footerY + 3;
-      const ioaaWidth = 50;
-      const ioaaHeight = 18;
+  // Close the invoice boundary on the last page
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.5);
+  doc.line(margin, invoiceBottomY, pageWidth - margin, invoiceBottomY);
+  }
+}
 
-      doc.setDrawColor(0, 0, 0);
-      doc.setLineWidth(0.3);
-      doc.rect(ioaaX, ioaaY, ioaaWidth, ioaaHeight);
+// Lays the invoice out in the template and counts the pages; images don't change the layout, so none are loaded
+export function canFitOnOnePage(
+  invoice: Invoice,
+  company: CompanyDetails,
+  template: InvoiceTemplate = STANDARD_TEMPLATE
+): boolean {
+  const noImages: PdfAssets = { header: null, footer: null, logo: null, signature: null };
+  return getPageCount(layoutInvoicePDF(invoice, company, noImages, template)) === 1;
+}
 
-      doc.setFontSize(5);
-      doc.text('Proud Member Of', ioaaX + ioaaWidth / 2, ioaaY + 4, { align: 'center' });
-      doc.setFontSize(6);
-      doc.setFont('helvetica', 'bold');
-      doc.text('INDIAN OUTDOOR', ioaaX + ioaaWidth / 2, ioaaY + 8, { align: 'center' });
-      doc.text('ADVERTISING', ioaaX + ioaaWidth / 2, ioaaY + 12, { align: 'center' });
-      doc.setFontSize(5);
-      doc.setFont('helvetica', 'normal');
-      doc.text('ASSOCIATION', ioaaX + ioaaWidth / 2, ioaaY + 16, { align: 'center' });
+// The template's bytes with its page count, for the preview's viewer and page thumbnails
+export interface RenderedPdf {
+  bytes: Uint8Array;
+  pageCount: number;
+}
 
-      // Right side decorative pattern
-      doc.setFillColor(255, 140, 66); // Orange color
-      doc.rect(pageWidth - footerMargin - 13, footerY + 5, footerSquareSize * 1.1, footerSquareSize * 1.1, 'F');
-      doc.rect(pageWidth - footerMargin - 18, footerY + 8, footerSquareSize * 1.3, footerSquareSize * 1.3, 'F');
-      doc.rect(pageWidth - footerMargin - 24, footerY + 4, footerSquareSize, footerSquareSize, 'F');
-      doc.rect(pageWidth - footerMargin - 16, footerY + 15, footerSquareSize * 0.8, footerSquareSize * 0.8, 'F');
-      doc.rect(pageWidth - footerMargin - 22, footerY + 18, footerSquareSize * 1.2, footerSquareSize * 1.2, 'F');
-      doc.rect(pageWidth - footerMargin - 28, footerY + 10, footerSquareSize * 0.7, footerSquareSize * 0.7, 'F');
-    }
-  }
+export async function renderInvoicePDF(
+  invoice: Invoice,
+  company: CompanyDetails,
+  template: InvoiceTemplate = STANDARD_TEMPLATE,
+  options: PdfAssetOptions = {}
+): Promise<RenderedPdf> {
+  const assets = await loadTemplateAssets(company, template, options);
+  const doc = layoutInvoicePDF(invoice, company, assets, template);
+  return { bytes: toPdfBytes(doc), pageCount: getPageCount(doc) };
 }
 
-// Compact PDF generation function - optimized for single page
-export function generateCompactInvoicePDF(invoice: Invoice): void {
-  generateInvoicePDF(invoice, true);
+export function toPdfBlob(bytes: Uint8Array): Blob {
+  return new Blob([bytes], { type: 'application/pdf' });
 }
 
-// Function to check if invoice can fit on one page
-export function canFitOnOnePage(invoice: Invoice): boolean {
-  const spacing = calculateOptimalSpacing(invoice);
-  return spacing.canFitOnePage;
+// Saves the PDF, in the layout the invoice was made with, under the document's file name, e.g. Invoice_DA_2026-27_0001.pdf
+export async function downloadInvoicePDF(
+  invoice: Invoice,
+  company: CompanyDetails
+): Promise<void> {
+  const template = await getInvoiceTemplate(invoice.templateId);
+  downloadBlob(toPdfBlob(await generateInvoicePDF(invoice, company, template)), getDocumentFileName(invoice, 'pdf'));
 }
 
-// Auto-detect best layout function
-export function generateOptimalInvoicePDF(invoice: Invoice): void {
-  const spacing = calculateOptimalSpacing(invoice);
-  const useCompact = spacing.canFitOnePage || spacing.compactMode;
-  generateInvoicePDF(invoice, useCompact);
+// Opens the PDF in the browser's viewer; the tab is opened before rendering so pop-up blockers allow it
+export async function openInvoicePDF(
+  invoice: Invoice,
+  company: CompanyDetails
+): Promise<void> {
+  const tab = window.open('', '_blank');
+  try {
+    const template = await getInvoiceTemplate(invoice.templateId);
+    const url = URL.createObjectURL(toPdfBlob(await generateInvoicePDF(invoice, company, template)));
+    if (tab) {
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  } catch (err) {
+    tab?.close();
+    throw err;
+  }
 }
 
 
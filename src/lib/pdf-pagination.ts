@@ -0,0 +1,64 @@
+import { toPaise, toRupees } from './money';
+
+// Items printed on one page, as indexes [start, end) into the invoice's items
+export interface PageSlice {
+  start: number;
+  end: number;
+}
+
+export interface PaginationInput {
+  itemHeights: number[]; // Measured height of each item row
+  closingHeight: number; // Totals rows and everything after the table, which stay together on the last page
+  carryHeight: number; // C/F row closing a page that continues
+  broughtHeight: number; // B/F row opening a continuation page
+  firstPageSpace: number; // Room for table rows below the column headings on the first page
+  nextPageSpace: number; // The same on continuation pages
+}
+
+/**
+ * Splits the item rows over pages, filling each page to the bottom. A page that continues keeps room for its
+ * C/F row, and the totals never go on a page by themselves: if they don't fit after the last item, that item
+ * moves over with them.
+ */
+export function paginateItems({
+  itemHeights,
+  closingHeight,
+  carryHeight,
+  broughtHeight,
+  firstPageSpace,
+  nextPageSpace
+}: PaginationInput): PageSlice[] {
+  const pages: PageSlice[] = [];
+  const count = itemHeights.length;
+  let start = 0;
+
+  for (;;) {
+    const space = pages.length === 0 ? firstPageSpace : nextPageSpace - broughtHeight;
+    const rest = itemHeights.slice(start).reduce((sum, height) => sum + height, 0);
+    if (start >= count || rest + closingHeight <= space) {
+      pages.push({ start, end: count });
+      return pages;
+    }
+
+    let end = start;
+    let used = 0;
+    while (end < count && used + itemHeights[end] + carryHeight <= space) {
+      used += itemHeights[end];
+      end++;
+    }
+    if (end === count) end--;
+    // A row taller than a whole page is still placed, on a page of its own
+    if (end <= start) end = start + 1;
+    pages.push({ start, end });
+    start = end;
+  }
+}
+
+// Running total of the item amounts at the foot of each page, carried forward to the next
+export function getCarriedTotals(amounts: number[], pages: PageSlice[]): number[] {
+  let paise = 0;
+  return pages.map(({ start, end }) => {
+    for (let i = start; i < end; i++) paise += toPaise(amounts[i]);
+    return toRupees(paise);
+  });
+}
@@ -0,0 +1,28 @@
+// Each page of a PDF drawn small as a PNG data URL, for the preview's page strip. pdf.js is loaded on first
+// use so it stays out of the main bundle, and only ever runs in the browser.
+export async function renderPdfThumbnails(bytes: Uint8Array, width: number): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  // The worker takes over the buffer it is given, so it gets a copy
+  const pdf = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+  try {
+    const thumbnails: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not available');
+      }
+      await page.render({ canvasContext: context, viewport }).promise;
+      thumbnails.push(canvas.toDataURL('image/png'));
+    }
+    return thumbnails;
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,92 @@
+import { BillingParty, CompanyDetails, Invoice, InvoiceItem, PlaceOfSupply } from '@/types/invoice';
+import { getCompanyStateCode } from './company';
+import { getStateCodeByName, getStateFromGSTIN, GST_STATE_CODES } from './utils';
+
+// The rule of section 12 of the IGST Act that fixed the place of supply
+export type PlaceOfSupplyBasis = 'site-location' | 'recipient-gstin' | 'recipient-address' | 'supplier-location';
+
+export interface PlaceOfSupplyResult {
+  placeOfSupply: PlaceOfSupply | null;
+  basis: PlaceOfSupplyBasis | null;
+  isInterstate: boolean | null; // null until both the supplier's state and the place of supply are known
+  problems: string[];
+}
+
+export const PLACE_OF_SUPPLY_BASIS_LABELS: Record<PlaceOfSupplyBasis, string> = {
+  'site-location': 'location of the hoarding site, Sec. 12(3)',
+  'recipient-gstin': 'recipient GSTIN, Sec. 12(2)(a)',
+  'recipient-address': 'recipient address on record, Sec. 12(2)(b)',
+  'supplier-location': 'our location as the recipient address is unknown, Sec. 12(2)(b)'
+};
+
+function toPlaceOfSupply(code: string): PlaceOfSupply {
+  return { state: GST_STATE_CODES[code]?.state || '', code };
+}
+
+export function formatPlaceOfSupply(placeOfSupply: PlaceOfSupply): string {
+  return `${placeOfSupply.state} (${placeOfSupply.code})`;
+}
+
+function getSiteStateCodes(items: InvoiceItem[]): string[] {
+  const codes = items.map(item => (item.state ? getStateCodeByName(item.state) : null));
+  return Array.from(new Set(codes.filter((code): code is string => !!code)));
+}
+
+export function determinePlaceOfSupply(company: CompanyDetails, party: BillingParty, items: InvoiceItem[]): PlaceOfSupplyResult {
+  const problems: string[] = [];
+  const supplierCode = getCompanyStateCode(company);
+  const gstinState = getStateFromGSTIN(party.gstin.trim());
+  const addressCode = getStateCodeByName(party.state);
+
+  if (gstinState && addressCode && gstinState.code !== addressCode) {
+    problems.push(`Recipient state ${party.state} does not match GSTIN ${party.gstin} (${gstinState.state})`);
+  }
+
+  // Hoarding space is a service directly in relation to immovable property, so the site's state wins
+  let code: string | null = null;
+  let basis: PlaceOfSupplyBasis | null = null;
+  const siteCodes = getSiteStateCodes(items);
+  if (siteCodes.length > 1) {
+    const states = siteCodes.map(siteCode => GST_STATE_CODES[siteCode].state).join(', ');
+    problems.push(`Sites are in more than one state (${states}); issue a separate invoice for each state`);
+  } else if (siteCodes.length === 1) {
+    [code, basis] = [siteCodes[0], 'site-location'];
+  } else if (gstinState) {
+    [code, basis] = [gstinState.code, 'recipient-gstin'];
+  } else if (addressCode) {
+    [code, basis] = [addressCode, 'recipient-address'];
+  } else if (supplierCode) {
+    [code, basis] = [supplierCode, 'supplier-location'];
+  }
+
+  return {
+    placeOfSupply: code ? toPlaceOfSupply(code) : null,
+    basis,
+    isInterstate: code && supplierCode ? code !== supplierCode : null,
+    problems
+  };
+}
+
+// Saved invoices carry their place of supply; older ones are worked out again from their details
+export function getInvoicePlaceOfSupply(invoice: Invoice, company: CompanyDetails): PlaceOfSupply | null {
+  return invoice.placeOfSupply || determinePlaceOfSupply(company, invoice.billingParty, invoice.items).placeOfSupply;
+}
+
+// Problems to fix before the invoice leaves the system, including a tax type that contradicts the place of supply
+export function checkPlaceOfSupply(invoice: Invoice, company: CompanyDetails): string[] {
+  const result = determinePlaceOfSupply(company, invoice.billingParty, invoice.items);
+  const problems = [...result.problems];
+  if (!result.placeOfSupply || result.isInterstate === null) return problems;
+
+  const place = formatPlaceOfSupply(result.placeOfSupply);
+  if (result.isInterstate && invoice.cgst + invoice.sgst > 0) {
+    problems.push(`Place of supply ${place} is outside ${company.state}, so IGST applies instead of CGST/SGST`);
+  }
+  if (!result.isInterstate && invoice.igst > 0) {
+    problems.push(`Place of supply ${place} is within ${company.state}, so CGST/SGST applies instead of IGST`);
+  }
+  if (invoice.placeOfSupply && invoice.placeOfSupply.code !== result.placeOfSupply.code) {
+    problems.push(`Place of supply on the invoice (${formatPlaceOfSupply(invoice.placeOfSupply)}) should be ${place}`);
+  }
+  return problems;
+}
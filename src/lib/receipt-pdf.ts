@@ -0,0 +1,95 @@
+import { jsPDF } from 'jspdf';
+import { CompanyDetails, Invoice, Payment } from '@/types/invoice';
+import { numberToWords, toFileNamePart } from './utils';
+import { formatCompanyAddress } from './company';
+import { addImageFit, preloadPdfAssets } from './pdf-assets';
+import { toPaise, toRupees } from './money';
+
+// Compact currency formatter for receipt amounts
+function formatReceiptAmount(amount: number): string {
+  const paise = toPaise(amount);
+  const digits = paise % 100 === 0 ? 0 : 2;
+  return new Intl.NumberFormat('en-IN', {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toRupees(paise));
+}
+
+// Money receipt on the official form referred to in our terms
+export async function generateReceiptPDF(payment: Payment, invoice: Invoice, company: CompanyDetails): Promise<void> {
+  const assets = await preloadPdfAssets(company);
+  const doc = new jsPDF({ orientation: 'landscape', format: 'a5' });
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const margin = 10;
+
+  // Receipt border
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.5);
+  doc.rect(margin, margin, pageWidth - (margin * 2), pageHeight - (margin * 2));
+
+  // Company heading
+  if (assets.logo) {
+    addImageFit(doc, assets.logo, margin + 4, margin + 3, 30, 16);
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(company.name, pageWidth / 2, margin + 10, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text(formatCompanyAddress(company), pageWidth / 2, margin + 15, { align: 'center' });
+  doc.text(`GSTIN: ${company.gstin} | PAN: ${company.pan}`, pageWidth / 2, margin + 19, { align: 'center' });
+
+  // Title
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('MONEY RECEIPT', pageWidth / 2, margin + 28, { align: 'center' });
+  doc.line(margin + 2, margin + 31, pageWidth - margin - 2, margin + 31);
+
+  // Receipt number and date
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Receipt No: ${payment.receiptNumber}`, margin + 5, margin + 38);
+  doc.text(`Date: ${payment.date}`, pageWidth - margin - 5, margin + 38, { align: 'right' });
+
+  // Body text
+  const instrument = payment.mode === 'Cheque'
+    ? `Cheque No. ${payment.reference}${payment.bank ? ` drawn on ${payment.bank}` : ''}`
+    : `${payment.mode}${payment.reference ? ` (Ref. ${payment.reference})` : ''}`;
+  const body = `Received with thanks from ${invoice.billingParty.name} the sum of Rupees ` +
+    `${payment.amount > 0 ? numberToWords(payment.amount) : 'Zero Only'} by ${instrument} ` +
+    `towards Invoice No. ${invoice.invoiceNumber} dated ${invoice.invoiceDate}.`;
+  doc.setFontSize(10);
+  const bodyLines = doc.splitTextToSize(body, pageWidth - (margin * 2) - 10);
+  doc.text(bodyLines, margin + 5, margin + 48);
+
+  // Amount box
+  const boxY = margin + 48 + bodyLines.length * 5 + 6;
+  doc.setLineWidth(0.3);
+  doc.rect(margin + 5, boxY, 70, 24);
+  doc.setFontSize(9);
+  doc.text('Amount Received', margin + 8, boxY + 6);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Rs. ${formatReceiptAmount(payment.amount)}`, margin + 72, boxY + 6, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.text('TDS Deducted', margin + 8, boxY + 13);
+  doc.text(`Rs. ${formatReceiptAmount(payment.tdsDeducted)}`, margin + 72, boxY + 13, { align: 'right' });
+  doc.line(margin + 5, boxY + 16, margin + 75, boxY + 16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total Settled', margin + 8, boxY + 21);
+  doc.text(`Rs. ${formatReceiptAmount(payment.amount + payment.tdsDeducted)}`, margin + 72, boxY + 21, { align: 'right' });
+
+  // Signatory
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`For, ${company.name}`, pageWidth - margin - 5, boxY + 6, { align: 'right' });
+  if (assets.signature) {
+    addImageFit(doc, assets.signature, pageWidth - margin - 45, boxY + 8, 40, 10);
+  }
+  doc.text('Authorised Signatory', pageWidth - margin - 5, boxY + 22, { align: 'right' });
+
+  doc.setFontSize(7);
+  doc.text('Subject to realisation of cheque.', margin + 5, pageHeight - margin - 4);
+
+  doc.save(`Receipt_${toFileNamePart(payment.receiptNumber)}.pdf`);
+}
@@ -0,0 +1,156 @@
+import { InvoiceFormData, InvoiceRecord, RecurringTemplate } from '@/types/invoice';
+import { getAll, getById, put, remove } from './db';
+import { calculateAmountFromDuration, calculatePeriodFromDates } from './utils';
+import { getInvoiceRecord, saveInvoiceRecord } from './invoice-register';
+import { buildInvoiceFromForm } from './invoice-builder';
+import { listCompanies, findCompany } from './company';
+
+export interface BillingCycle {
+  startDate: string;
+  duration: string; // Days, as in the form's duration field
+}
+
+export interface RecurringTemplateInput {
+  name: string;
+  endDate?: string;
+  autoGenerate: boolean;
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export async function listRecurringTemplates(): Promise<RecurringTemplate[]> {
+  const templates = await getAll<RecurringTemplate>('recurringTemplates');
+  return templates.sort((a, b) => a.nextStartDate.localeCompare(b.nextStartDate));
+}
+
+export function saveRecurringTemplate(template: RecurringTemplate): Promise<RecurringTemplate> {
+  return put<RecurringTemplate>('recurringTemplates', { ...template, updatedAt: new Date().toISOString() });
+}
+
+export function deleteRecurringTemplate(id: string): Promise<void> {
+  return remove('recurringTemplates', id);
+}
+
+// Each cycle runs for the template's duration from where the last one ended, cut short at the campaign's end
+export function getNextCycle(template: Pick<RecurringTemplate, 'formData' | 'nextStartDate' | 'endDate'>): BillingCycle | null {
+  const durationDays = parseInt(template.formData.duration);
+  if (!(durationDays > 0)) return null;
+  if (template.endDate && template.nextStartDate > template.endDate) return null;
+
+  const days = template.endDate
+    ? Math.min(durationDays, daysBetween(template.nextStartDate, template.endDate) + 1)
+    : durationDays;
+  return { startDate: template.nextStartDate, duration: String(days) };
+}
+
+// The invoice the template is made from is the first cycle, so the template starts from the one after it
+export async function createRecurringTemplate(formData: InvoiceFormData, input: RecurringTemplateInput): Promise<RecurringTemplate> {
+  const durationDays = parseInt(formData.duration);
+  if (!formData.startDate || !(durationDays > 0)) {
+    throw new Error('Set the start date and duration before making the invoice recurring');
+  }
+  if (formData.items.length === 0) {
+    throw new Error('Add the sites to bill before making the invoice recurring');
+  }
+  if (input.endDate && input.endDate < formData.startDate) {
+    throw new Error('The campaign cannot end before it starts');
+  }
+
+  const now = new Date().toISOString();
+  const template: RecurringTemplate = {
+    id: Date.now().toString(),
+    name: input.name.trim() || formData.displayName || formData.billingParty.name || 'Recurring invoice',
+    formData: { ...formData, invoiceNumber: '', eInvoice: undefined },
+    nextStartDate: addDays(formData.startDate, durationDays),
+    endDate: input.endDate || undefined,
+    autoGenerate: input.autoGenerate,
+    active: true,
+    generatedRecordIds: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  template.active = !!getNextCycle(template);
+  return saveRecurringTemplate(template);
+}
+
+// Same sites and rates with the period rolled on to the cycle; amounts are worked out again from the
+// monthly rate so a short final cycle is charged by the day
+export function rollFormData(formData: InvoiceFormData, cycle: BillingCycle): InvoiceFormData {
+  const baseId = Date.now();
+  return {
+    ...formData,
+    invoiceNumber: '',
+    invoiceDate: cycle.startDate,
+    dueDate: formData.creditDays > 0 ? addDays(cycle.startDate, formData.creditDays) : '',
+    startDate: cycle.startDate,
+    duration: cycle.duration,
+    // The PO advance was adjusted on the first invoice of the campaign
+    advance: undefined,
+    eInvoice: undefined,
+    items: formData.items.map((item, index) => ({
+      ...item,
+      id: `${baseId}-${index}`,
+      period: calculatePeriodFromDates(cycle.startDate, cycle.duration),
+      amount: item.ratePM ? calculateAmountFromDuration(item.ratePM, cycle.duration) : item.amount
+    }))
+  };
+}
+
+/**
+ * Saves the template's next cycle as a draft in the register and moves the template on to the cycle after.
+ * Drafts are saved without a number, so cycles drafted together do not all show the same one; the number is
+ * taken from the series when the draft is issued. The record id is fixed per template and cycle, so a cycle
+ * that has already been drafted is never drafted again.
+ */
+export async function generateRecurringInvoice(templateId: string): Promise<InvoiceRecord> {
+  const template = await getById<RecurringTemplate>('recurringTemplates', templateId);
+  if (!template) {
+    throw new Error('Recurring template not found');
+  }
+  const cycle = getNextCycle(template);
+  if (!cycle) {
+    throw new Error(`${template.name} has no cycles left to bill`);
+  }
+
+  const recordId = `recurring-${template.id}-${cycle.startDate}`;
+  let record = await getInvoiceRecord(recordId);
+  if (!record) {
+    const companies = await listCompanies();
+    const company = findCompany(companies, template.formData.companyId);
+    const rolled = rollFormData(template.formData, cycle);
+    const formData = { ...rolled, invoiceNumber: '' };
+    record = await saveInvoiceRecord(recordId, formData, buildInvoiceFromForm(formData, company));
+  }
+
+  const next = {
+    ...template,
+    nextStartDate: addDays(cycle.startDate, parseInt(cycle.duration)),
+    generatedRecordIds: [...template.generatedRecordIds.filter(id => id !== recordId), recordId],
+    lastGeneratedAt: new Date().toISOString()
+  };
+  await saveRecurringTemplate({ ...next, active: !!getNextCycle(next) });
+  return record;
+}
+
+// Drafts every cycle that has started on the templates set to run by themselves, catching up on any missed
+export async function generateDueRecurringInvoices(today: string = new Date().toISOString().split('T')[0]): Promise<InvoiceRecord[]> {
+  const templates = await listRecurringTemplates();
+  const records: InvoiceRecord[] = [];
+
+  for (const template of templates.filter(t => t.active && t.autoGenerate)) {
+    let current: RecurringTemplate | undefined = template;
+    while (current && current.active && current.nextStartDate <= today && getNextCycle(current)) {
+      records.push(await generateRecurringInvoice(current.id));
+      current = await getById<RecurringTemplate>('recurringTemplates', current.id);
+    }
+  }
+  return records;
+}
@@ -0,0 +1,51 @@
+import { HoardingSite, InvoiceItem } from '@/types/invoice';
+import { getAll, put, remove } from './db';
+
+export const ILLUMINATION_TYPES: HoardingSite['illumination'][] = ['Non-Lit', 'Front Lit', 'Back Lit', 'LED'];
+
+export async function listSites(): Promise<HoardingSite[]> {
+  const sites = await getAll<HoardingSite>('sites');
+  return sites.sort((a, b) => a.siteCode.localeCompare(b.siteCode, undefined, { numeric: true }));
+}
+
+export async function saveSite(site: HoardingSite): Promise<HoardingSite> {
+  if (!site.siteCode.trim()) {
+    throw new Error('Site code is required');
+  }
+  const existing = await listSites();
+  const duplicate = existing.find(other =>
+    other.id !== site.id && other.siteCode.trim().toUpperCase() === site.siteCode.trim().toUpperCase()
+  );
+  if (duplicate) {
+    throw new Error(`Site code ${site.siteCode} is already used by ${duplicate.location || duplicate.town}`);
+  }
+  return put<HoardingSite>('sites', { ...site, siteCode: site.siteCode.trim().toUpperCase() });
+}
+
+export function deleteSite(id: string): Promise<void> {
+  return remove('sites', id);
+}
+
+export function getCampaigns(sites: HoardingSite[]): string[] {
+  return Array.from(new Set(sites.map(site => site.campaign?.trim()).filter((c): c is string => !!c))).sort();
+}
+
+export function formatSiteSize(site: Pick<HoardingSite, 'width' | 'height'>): string {
+  return `${site.width}x${site.height}`;
+}
+
+// Line item fields that come straight from the site master; period and amount depend on the invoice
+export function itemFieldsFromSite(site: HoardingSite): Omit<InvoiceItem, 'id' | 'sno' | 'period' | 'amount'> {
+  return {
+    siteCode: site.siteCode,
+    town: site.town,
+    state: site.state,
+    location: site.location,
+    hsn: site.hsn,
+    media: site.media,
+    size: formatSiteSize(site),
+    area: Math.round(site.width * site.height * 100) / 100,
+    type: site.illumination,
+    ratePM: site.ratePM
+  };
+}
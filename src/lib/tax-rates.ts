@@ -0,0 +1,180 @@
+import { Invoice, InvoiceItem, RoundingPolicy, TaxCategory, TaxRateRow } from '@/types/invoice';
+import { allocatePaise, percentOf, roundToRupee, toPaise, toRupees, DEFAULT_ROUNDING_POLICY } from './money';
+import { getTaxableItems } from './discounts';
+
+// Invoices saved before the rate was stored on the invoice were all billed at 18%
+export const DEFAULT_GST_RATE = 18;
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  taxable: 'Taxable',
+  exempt: 'Exempt',
+  'zero-rated': 'Zero-rated'
+};
+
+const CATEGORY_ORDER: TaxCategory[] = ['taxable', 'zero-rated', 'exempt'];
+
+export interface InvoiceTaxes {
+  subtotal: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  roundOff: number;
+  grandTotal: number;
+  taxBreakup: TaxRateRow[];
+}
+
+// A line's share of its rate row, so per-line figures add back up to the printed totals
+export interface ItemTax extends TaxRateRow {
+  item: InvoiceItem;
+}
+
+export interface TaxLine {
+  label: string;
+  amount: number;
+}
+
+export function getItemTaxCategory(item: InvoiceItem): TaxCategory {
+  return item.taxCategory || 'taxable';
+}
+
+// Exempt and zero-rated lines are charged nothing whatever the invoice's default rate is
+export function getItemTaxRate(item: InvoiceItem, defaultRate: number): number {
+  return getItemTaxCategory(item) === 'taxable' ? item.gstRate ?? defaultRate : 0;
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100) / 100}%`;
+}
+
+interface PaiseRow {
+  category: TaxCategory;
+  rate: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Lines are grouped by category and rate and the tax is worked out in paise. Under the line policy each
+// line's tax is rounded to the rupee, under the invoice policy each group's; under round-off the tax stays
+// exact and only the grand total is rounded, so subtotal + taxes + roundOff always equals the grand total.
+// CGST and SGST are each worked out at half the rate and rounded on their own, so they are always equal
+export function calculateInvoiceTaxes(
+  items: InvoiceItem[],
+  defaultRate: number,
+  isInterstate: boolean,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+): InvoiceTaxes {
+  const roundTax = (paise: number) => (policy === 'round-off' ? paise : roundToRupee(paise));
+  const addTax = (row: PaiseRow, taxable: number) => {
+    if (isInterstate) {
+      row.igst += roundTax(percentOf(taxable, row.rate));
+      return;
+    }
+    const half = roundTax(percentOf(taxable, row.rate / 2));
+    row.cgst += half;
+    row.sgst += half;
+  };
+
+  const groups = new Map<string, PaiseRow>();
+  items.forEach(item => {
+    const category = getItemTaxCategory(item);
+    const rate = getItemTaxRate(item, defaultRate);
+    const key = `${category}|${rate}`;
+    const row = groups.get(key) || { category, rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+    const taxable = toPaise(item.amount);
+    row.taxable += taxable;
+    if (policy === 'line') addTax(row, taxable);
+    groups.set(key, row);
+  });
+  if (policy !== 'line') {
+    groups.forEach(row => addTax(row, row.taxable));
+  }
+
+  const rows = Array.from(groups.values())
+    .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.rate - b.rate);
+  const sum = (pick: (row: PaiseRow) => number) => rows.reduce((total, row) => total + pick(row), 0);
+  const subtotal = sum(row => row.taxable);
+  const beforeRounding = subtotal + sum(row => row.cgst + row.sgst + row.igst);
+  const roundOff = policy === 'round-off' ? roundToRupee(beforeRounding) - beforeRounding : 0;
+
+  return {
+    subtotal: toRupees(subtotal),
+    cgst: toRupees(sum(row => row.cgst)),
+    sgst: toRupees(sum(row => row.sgst)),
+    igst: toRupees(sum(row => row.igst)),
+    roundOff: toRupees(roundOff),
+    grandTotal: toRupees(beforeRounding + roundOff),
+    taxBreakup: rows.map(row => ({
+      category: row.category,
+      rate: row.rate,
+      taxableValue: toRupees(row.taxable),
+      cgst: toRupees(row.cgst),
+      sgst: toRupees(row.sgst),
+      igst: toRupees(row.igst)
+    }))
+  };
+}
+
+// Older invoices were billed at one rate for the whole document
+export function getTaxBreakup(invoice: Invoice): TaxRateRow[] {
+  return invoice.taxBreakup || [{
+    category: 'taxable',
+    rate: invoice.gstRate ?? DEFAULT_GST_RATE,
+    taxableValue: invoice.subtotal,
+    cgst: invoice.cgst,
+    sgst: invoice.sgst,
+    igst: invoice.igst
+  }];
+}
+
+export function allocateItemTaxes(invoice: Invoice): ItemTax[] {
+  const defaultRate = invoice.gstRate ?? DEFAULT_GST_RATE;
+  // Shares follow each line's value after discounts and commission
+  const netAmounts = getTaxableItems(invoice).map(item => toPaise(item.amount));
+  const lines: ItemTax[] = invoice.items.map(item => ({
+    item,
+    category: getItemTaxCategory(item),
+    rate: getItemTaxRate(item, defaultRate),
+    taxableValue: 0,
+    cgst: 0,
+    sgst: 0,
+    igst: 0
+  }));
+
+  getTaxBreakup(invoice).forEach(row => {
+    const rowLines = lines.filter(line => line.category === row.category && line.rate === row.rate);
+    const weights = rowLines.map(line => netAmounts[lines.indexOf(line)]);
+    const share = (amount: number) => allocatePaise(toPaise(amount), weights).map(toRupees);
+    const [taxable, cgst, sgst, igst] = [row.taxableValue, row.cgst, row.sgst, row.igst].map(share);
+    rowLines.forEach((line, index) => {
+      line.taxableValue = taxable[index];
+      line.cgst = cgst[index];
+      line.sgst = sgst[index];
+      line.igst = igst[index];
+    });
+  });
+  return lines;
+}
+
+// One line per tax and rate on the document, e.g. "CGST @ 2.5%" and "CGST @ 9%" on a mixed-rate invoice
+export function getTaxLines(invoice: Invoice): TaxLine[] {
+  const isInterstate = invoice.igst > 0 && invoice.cgst + invoice.sgst === 0;
+  return getTaxBreakup(invoice).flatMap(row => {
+    if (row.category === 'exempt') {
+      return [{ label: 'Exempt (No GST)', amount: 0 }];
+    }
+    if (row.category === 'zero-rated') {
+      return [{ label: 'IGST @ 0% (Zero-rated)', amount: 0 }];
+    }
+    if (row.igst > 0 || (isInterstate && row.cgst + row.sgst === 0)) {
+      return [{ label: `IGST @ ${formatRate(row.rate)}`, amount: row.igst }];
+    }
+    return [
+      { label: `CGST @ ${formatRate(row.rate / 2)}`, amount: row.cgst },
+      { label: `SGST @ ${formatRate(row.rate / 2)}`, amount: row.sgst }
+    ];
+  });
+}
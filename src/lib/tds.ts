@@ -0,0 +1,300 @@
+import * as XLSX from 'xlsx';
+import { Client, Invoice, InvoiceRecord, Payment, TdsCredit, TdsSection, TdsTerms } from '@/types/invoice';
+import { getAll, putMany } from './db';
+import { listInvoiceRecords } from './invoice-register';
+import { listPayments } from './payments';
+import { listClients } from './client-directory';
+import { getFinancialYear } from './invoice-numbering';
+import { isIssuedBy } from './company';
+import { getNetPayable } from './discounts';
+import { addMoney, percentOf, roundToRupee, toPaise, toRupees } from './money';
+
+// individualRate applies when the payee (the issuing company) is an individual or HUF
+export const TDS_SECTIONS: Record<TdsSection, { label: string; rate: number; individualRate?: number }> = {
+  '194C': { label: '194C – Contractors (advertising)', rate: 2, individualRate: 1 },
+  '194J': { label: '194J – Professional / technical fees', rate: 10 }
+};
+
+const TAN_PATTERN = /^[A-Z]{4}\d{5}[A-Z]$/;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export interface TdsReportRow {
+  key: string;
+  name: string;
+  tan: string;
+  section: string;
+  invoiceCount: number;
+  expected: number; // On invoices issued in the quarter
+  deducted: number; // Per the receipts recorded in the quarter
+  reported: number; // Per Form 26AS / AIS
+  difference: number; // Expected less reported
+}
+
+export interface TdsReport {
+  quarter: string;
+  from: string;
+  to: string;
+  rows: TdsReportRow[];
+  totals: Pick<TdsReportRow, 'expected' | 'deducted' | 'reported' | 'difference'>;
+}
+
+// TDS is deducted on the value before GST (CBDT Circular 23/2017) and rounded to the rupee (Sec. 288B)
+export function getExpectedTds(invoice: Pick<Invoice, 'subtotal' | 'tds'>): number {
+  if (!invoice.tds) return 0;
+  return toRupees(roundToRupee(percentOf(toPaise(invoice.subtotal), invoice.tds.rate)));
+}
+
+export function getNetReceivable(invoice: Invoice): number {
+  return addMoney(getNetPayable(invoice), -getExpectedTds(invoice));
+}
+
+// "Net receivable after TDS u/s 194C @ 2% (Rs. 2,000): Rs. 1,16,000", or nothing when no TDS is expected
+export function formatNetReceivable(invoice: Invoice, format: (amount: number) => string): string {
+  if (!invoice.tds) return '';
+  const { section, rate } = invoice.tds;
+  const tds = getExpectedTds(invoice);
+  return `Net receivable after TDS u/s ${section} @ ${rate}% (Rs. ${format(tds) || '0'}): Rs. ${format(getNetReceivable(invoice)) || '0'}`;
+}
+
+// The 4th character of a PAN is the holder's status: P for an individual, H for a HUF
+export function getDefaultTdsRate(section: TdsSection, payeePan: string): number {
+  const { rate, individualRate } = TDS_SECTIONS[section];
+  const status = payeePan.trim().toUpperCase().charAt(3);
+  return individualRate !== undefined && (status === 'P' || status === 'H') ? individualRate : rate;
+}
+
+// Clients without a rate of their own get the section's rate for the issuing company's PAN
+export function getClientTdsTerms(client: Client, payeePan: string): TdsTerms | undefined {
+  if (!client.tdsSection) return undefined;
+  return { section: client.tdsSection, rate: client.tdsRate ?? getDefaultTdsRate(client.tdsSection, payeePan) };
+}
+
+// Quarters of the Indian financial year, e.g. "2026-27 Q1" for April to June 2026
+export function getTdsQuarter(date: string): string {
+  const month = new Date(date).getMonth();
+  return `${getFinancialYear(date)} Q${Math.floor(((month + 9) % 12) / 3) + 1}`;
+}
+
+export function getQuarterRange(quarter: string): { from: string; to: string } {
+  const [financialYear, q] = quarter.split(' Q');
+  const startYear = Number(financialYear.slice(0, 4));
+  const startMonth = 3 + (Number(q) - 1) * 3; // April is month 3
+  const from = new Date(Date.UTC(startYear, startMonth, 1));
+  const to = new Date(Date.UTC(startYear, startMonth + 3, 0));
+  return { from: from.toISOString().split('T')[0], to: to.toISOString().split('T')[0] };
+}
+
+// The current quarter and the ones before it, most recent first
+export function listRecentQuarters(count: number, today: string = new Date().toISOString().split('T')[0]): string[] {
+  const quarters: string[] = [];
+  let date = today;
+  while (quarters.length < count) {
+    const quarter = getTdsQuarter(date);
+    quarters.push(quarter);
+    const { from } = getQuarterRange(quarter);
+    const previous = new Date(from);
+    previous.setDate(previous.getDate() - 1);
+    date = previous.toISOString().split('T')[0];
+  }
+  return quarters;
+}
+
+// Deductor names differ in punctuation and abbreviations between our records and the statements
+function normalizeName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/\bPRIVATE\b/g, 'PVT')
+    .replace(/\bLIMITED\b/g, 'LTD')
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+// Accepts 15-Apr-2026, 15/04/2026, 15-04-2026 and 2026-04-15
+function parseStatementDate(value: string): string {
+  const text = value.trim().toUpperCase();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const named = text.match(/^(\d{1,2})[-/ ]([A-Z]{3})[-/ ](\d{4})$/);
+  if (named && MONTHS.includes(named[2])) {
+    return `${named[3]}-${String(MONTHS.indexOf(named[2]) + 1).padStart(2, '0')}-${named[1].padStart(2, '0')}`;
+  }
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (numeric) return `${numeric[3]}-${numeric[2].padStart(2, '0')}-${numeric[1].padStart(2, '0')}`;
+  return '';
+}
+
+function parseAmount(value: string): number {
+  return Number(value.replace(/[,\s]/g, '')) || 0;
+}
+
+function findColumn(header: string[], pattern: RegExp): number {
+  return header.findIndex(cell => pattern.test(cell));
+}
+
+/**
+ * Reads the TDS entries out of a Form 26AS (Part I) or AIS export saved as CSV.
+ * Both list one row per credit under a header naming the section, date, amount paid and tax deducted.
+ * The 26AS text layout puts the deductor's name and TAN on a summary line above its rows instead of
+ * in columns, so the last TAN seen is carried down to the rows below it.
+ */
+export function parseTdsStatement(rows: string[][], companyId: string): TdsCredit[] {
+  const credits: TdsCredit[] = [];
+  let columns: Record<'section' | 'date' | 'amount' | 'deducted' | 'deposited' | 'tan' | 'name', number> | null = null;
+  let deductor = { tan: '', name: '' };
+
+  rows.forEach(row => {
+    const cells = row.map(cell => String(cell ?? '').trim());
+    const header = cells.map(cell => cell.toLowerCase());
+
+    if (findColumn(header, /section/) >= 0 && findColumn(header, /(tax|tds) deducted/) >= 0) {
+      columns = {
+        section: findColumn(header, /section/),
+        date: findColumn(header, /(transaction|payment|credit).*date|date of (payment|credit)/),
+        amount: findColumn(header, /amount (paid|credited)|paid.*credited/),
+        deducted: findColumn(header, /(tax|tds) deducted/),
+        deposited: findColumn(header, /(tax|tds) deposited/),
+        tan: findColumn(header, /\btan\b/),
+        name: findColumn(header, /name of (the )?deductor|deductor name/)
+      };
+      return;
+    }
+
+    const tanIndex = cells.findIndex(cell => TAN_PATTERN.test(cell.toUpperCase()));
+    if (tanIndex > 0 && (!columns || columns.tan < 0)) {
+      deductor = { tan: cells[tanIndex].toUpperCase(), name: cells[tanIndex - 1] };
+    }
+
+    if (!columns) return;
+    const section = cells[columns.section]?.toUpperCase().match(/19\d[A-Z]{0,2}/)?.[0];
+    const date = columns.date >= 0 ? parseStatementDate(cells[columns.date] || '') : '';
+    if (!section || !date) return;
+
+    const tan = columns.tan >= 0 ? cells[columns.tan].toUpperCase() : deductor.tan;
+    const amountPaid = columns.amount >= 0 ? parseAmount(cells[columns.amount]) : 0;
+    const tdsDeducted = parseAmount(cells[columns.deducted]);
+    credits.push({
+      id: `${companyId}|${tan}|${section}|${date}|${amountPaid}|${tdsDeducted}`,
+      companyId,
+      tan,
+      deductorName: columns.name >= 0 ? cells[columns.name] : deductor.name,
+      section,
+      date,
+      amountPaid,
+      tdsDeducted,
+      tdsDeposited: columns.deposited >= 0 ? parseAmount(cells[columns.deposited]) : tdsDeducted
+    });
+  });
+
+  return credits;
+}
+
+// Re-importing the same statement overwrites the entries rather than adding them twice
+export async function importTdsStatement(file: File, companyId: string): Promise<number> {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) return 0;
+  const rows = XLSX.utils.sheet_to_json<string[]>(ws, { header: 1, raw: false, defval: '' });
+  const credits = parseTdsStatement(rows, companyId);
+  if (credits.length === 0) {
+    throw new Error(`No TDS entries found in ${file.name}; export Part I of Form 26AS or the TDS section of the AIS as CSV`);
+  }
+  await putMany<TdsCredit>('tdsCredits', credits);
+  return credits.length;
+}
+
+// Clients are matched to statement entries by TAN when we have it, otherwise by name
+export function buildTdsReport(
+  quarter: string,
+  companyId: string,
+  records: InvoiceRecord[],
+  payments: Payment[],
+  clients: Client[],
+  credits: TdsCredit[]
+): TdsReport {
+  const { from, to } = getQuarterRange(quarter);
+  const inQuarter = (date: string) => date >= from && date <= to;
+  const rows: TdsReportRow[] = [];
+  const byTan = new Map<string, TdsReportRow>();
+  const byName = new Map<string, TdsReportRow>();
+  const clientsById = new Map(clients.map(client => [client.id, client]));
+
+  const getRow = (name: string, tan: string, section: string) => {
+    const normalized = normalizeName(name);
+    let row = (tan && byTan.get(tan)) || byName.get(normalized);
+    if (!row) {
+      row = { key: tan || normalized, name, tan, section, invoiceCount: 0, expected: 0, deducted: 0, reported: 0, difference: 0 };
+      rows.push(row);
+    }
+    row.tan = row.tan || tan;
+    row.section = row.section || section;
+    if (row.tan) byTan.set(row.tan, row);
+    byName.set(normalized, row);
+    return row;
+  };
+
+  const ownRecords = records.filter(record => record.status === 'issued' && isIssuedBy(record.invoice, companyId));
+  const clientOf = (record: InvoiceRecord) => (record.formData.clientId ? clientsById.get(record.formData.clientId) : undefined);
+
+  ownRecords
+    .filter(record => record.invoice.tds && inQuarter(record.invoice.invoiceDate))
+    .forEach(record => {
+      const row = getRow(record.invoice.billingParty.name, clientOf(record)?.tan || '', record.invoice.tds!.section);
+      row.invoiceCount += 1;
+      row.expected = addMoney(row.expected, getExpectedTds(record.invoice));
+    });
+
+  const recordsById = new Map(ownRecords.map(record => [record.id, record]));
+  payments
+    .filter(payment => payment.tdsDeducted > 0 && inQuarter(payment.date) && recordsById.has(payment.invoiceRecordId))
+    .forEach(payment => {
+      const record = recordsById.get(payment.invoiceRecordId)!;
+      const row = getRow(record.invoice.billingParty.name, clientOf(record)?.tan || '', record.invoice.tds?.section || '');
+      row.deducted = addMoney(row.deducted, payment.tdsDeducted);
+    });
+
+  credits
+    .filter(credit => credit.companyId === companyId && inQuarter(credit.date))
+    .forEach(credit => {
+      const row = getRow(credit.deductorName, credit.tan, credit.section);
+      row.reported = addMoney(row.reported, credit.tdsDeducted);
+    });
+
+  const sorted = rows
+    .map(row => ({ ...row, difference: addMoney(row.expected, -row.reported) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const totals = sorted.reduce((sum, row) => ({
+    expected: addMoney(sum.expected, row.expected),
+    deducted: addMoney(sum.deducted, row.deducted),
+    reported: addMoney(sum.reported, row.reported),
+    difference: addMoney(sum.difference, row.difference)
+  }), { expected: 0, deducted: 0, reported: 0, difference: 0 });
+
+  return { quarter, from, to, rows: sorted, totals };
+}
+
+export async function loadTdsReport(quarter: string, companyId: string): Promise<TdsReport> {
+  const [records, payments, clients, credits] = await Promise.all([
+    listInvoiceRecords('issued'),
+    listPayments(),
+    listClients(),
+    getAll<TdsCredit>('tdsCredits')
+  ]);
+  return buildTdsReport(quarter, companyId, records, payments, clients, credits);
+}
+
+export function exportTdsReportExcel(report: TdsReport): void {
+  const data = [
+    [`TDS Reconciliation for ${report.quarter} (${report.from} to ${report.to})`],
+    [],
+    ['Deductor', 'TAN', 'Section', 'Invoices', 'Expected TDS', 'Deducted per Receipts', 'Reported in 26AS/AIS', 'Difference'],
+    ...report.rows.map(row => [
+      row.name, row.tan, row.section, row.invoiceCount, row.expected, row.deducted, row.reported, row.difference
+    ]),
+    ['Total', '', '', '', report.totals.expected, report.totals.deducted, report.totals.reported, report.totals.difference]
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  ws['!cols'] = [{ wch: 35 }, { wch: 12 }, { wch: 8 }, { wch: 9 }, { wch: 14 }, { wch: 20 }, { wch: 20 }, { wch: 12 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'TDS Reconciliation');
+  XLSX.writeFile(wb, `TDS_Reconciliation_${report.quarter.replace(' ', '_')}.xlsx`);
+}
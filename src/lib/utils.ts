@@ -1,10 +1,31 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DocumentType, Invoice } from "@/types/invoice"
+import { roundMoney, toPaise, toRupees } from "./money"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+const DOCUMENT_LABELS: Record<DocumentType, { title: string; number: string; date: string; file: string }> = {
+  'invoice': { title: 'Tax Invoice', number: 'Invoice No', date: 'Invoice Date', file: 'Invoice' },
+  'credit-note': { title: 'CREDIT NOTE', number: 'Credit Note No', date: 'Credit Note Date', file: 'CreditNote' },
+  'debit-note': { title: 'DEBIT NOTE', number: 'Debit Note No', date: 'Debit Note Date', file: 'DebitNote' }
+};
+
+export function getDocumentLabels(invoice: Pick<Invoice, 'documentType'>) {
+  return DOCUMENT_LABELS[invoice.documentType || 'invoice'];
+}
+
+// Series numbers contain slashes (DA/2026-27/0001), which aren't allowed in file names
+export function toFileNamePart(value: string): string {
+  return value.replace(/[\\/:*?"<>|]/g, '-');
+}
+
+export function getDocumentFileName(invoice: Pick<Invoice, 'documentType' | 'invoiceNumber'>, extension: string): string {
+  return `${getDocumentLabels(invoice).file}_${toFileNamePart(invoice.invoiceNumber)}.${extension}`;
+}
+
 export function formatCurrency(amount: number | string): string {
   if (typeof amount === 'string') {
     if (amount === '' || amount === '0') return '';
@@ -14,13 +35,77 @@ export function formatCurrency(amount: number | string): string {
   }
   if (amount === 0) return '';
 
-  // Round the amount to nearest whole number
-  const roundedAmount = Math.round(amount);
+  // Whole rupees print without decimals; anything with paise shows both digits
+  const paise = toPaise(amount);
+  const digits = paise % 100 === 0 ? 0 : 2;
 
   return new Intl.NumberFormat('en-IN', {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(roundedAmount)
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toRupees(paise))
+}
+
+// Saves generated content (JSON, CSV) through a temporary download link
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Parses sizes like "20x10", "20 X 10" or "20'x10'" into square feet
+export function calculateAreaFromSize(size: string): number | null {
+  const match = size.match(/(\d+(?:\.\d+)?)\s*['"]?\s*[xX*×]\s*(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * parseFloat(match[2]) * 100) / 100;
+}
+
+// "01/04/2026 to 07/05/2026" for a campaign of the given number of days
+export function calculatePeriodFromDates(startDate: string, duration: string): string {
+  if (!startDate || !duration) return '';
+
+  const durationDays = parseInt(duration);
+  if (isNaN(durationDays)) return '';
+
+  const start = new Date(startDate);
+  const end = new Date(start);
+  end.setDate(start.getDate() + durationDays - 1);
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-GB', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    });
+  };
+
+  return `${formatDate(start)} to ${formatDate(end)}`;
+}
+
+// Rates are per month of 30 days, with part months charged by the day
+export function calculateAmountFromDuration(ratePM: number | string, duration: string): number {
+  if (!ratePM || !duration) return 0;
+
+  const rate = typeof ratePM === 'string' ? parseFloat(ratePM) : ratePM;
+  if (isNaN(rate)) return 0;
+
+  const durationDays = parseInt(duration);
+  if (isNaN(durationDays)) return 0;
+
+  // Calculate months and days
+  const months = Math.floor(durationDays / 30);
+  const remainingDays = durationDays % 30;
+
+  // Calculate amount: full months + proportional days
+  const monthlyAmount = months * rate;
+  const dailyRate = rate / 30;
+  const dailyAmount = remainingDays * dailyRate;
+
+  return roundMoney(monthlyAmount + dailyAmount);
 }
 
 export function numberToWords(num: number): string {
@@ -29,7 +114,11 @@ export function numberToWords(num: number): string {
   const tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
   // thousands array removed as not used in current implementation
 
-  if (num === 0) return 'Zero';
+  // Amounts with paise read as "... and Fifty Paise Only"
+  const paise = Math.abs(toPaise(num)) % 100;
+  num = Math.floor(Math.abs(toPaise(num)) / 100);
+
+  if (num === 0 && paise === 0) return 'Zero';
 
   function convertHundreds(n: number): string {
     let result = '';
@@ -77,6 +166,10 @@ export function numberToWords(num: number): string {
     result += convertHundreds(hundreds);
   }
 
+  if (paise > 0) {
+    result = result.trim() + (result.trim() ? ' and ' : '') + convertHundreds(paise) + 'Paise ';
+  }
+
   return result.trim() + ' Only';
 }
 
@@ -127,13 +220,7 @@ export function getStateFromGSTIN(gstin: string): { state: string; code: string
   return GST_STATE_CODES[stateCode] || null;
 }
 
-export function calculateGST(amount: number, gstRate: number = 18) {
-  const roundedAmount = Math.round(amount);
-  const gstAmount = Math.round((roundedAmount * gstRate) / 100);
-  return {
-    cgst: Math.round(gstAmount / 2),
-    sgst: Math.round(gstAmount / 2),
-    igst: Math.round(gstAmount),
-    total: Math.round(roundedAmount + gstAmount)
-  };
+export function getStateCodeByName(state: string): string | null {
+  const match = Object.values(GST_STATE_CODES).find(info => info.state.toLowerCase() === state.trim().toLowerCase());
+  return match ? match.code : null;
 }
@@ -1,3 +1,16 @@
+// Exempt and zero-rated lines carry no tax but are reported separately in returns
+export type TaxCategory = 'taxable' | 'exempt' | 'zero-rated';
+
+// Where GST is rounded to the rupee; see ROUNDING_POLICY_LABELS
+export type RoundingPolicy = 'line' | 'invoice' | 'round-off';
+
+export type DiscountType = 'percent' | 'flat';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percentage, or rupees for a flat discount
+}
+
 export interface InvoiceItem {
   id: string;
   sno: number;
@@ -11,6 +24,28 @@ export interface InvoiceItem {
   ratePM: number | string;
   period: string;
   amount: number;
+  siteCode?: string;
+  state?: string; // State the hoarding stands in; decides the place of supply
+  gstRate?: number; // Falls back to the invoice's default rate
+  taxCategory?: TaxCategory; // Taxable when absent
+  discount?: Discount;
+}
+
+export type Illumination = 'Non-Lit' | 'Front Lit' | 'Back Lit' | 'LED';
+
+export interface HoardingSite {
+  id: string;
+  siteCode: string;
+  town: string;
+  location: string;
+  media: string;
+  width: number; // Feet
+  height: number; // Feet
+  illumination: Illumination;
+  ratePM: number;
+  hsn: string;
+  state?: string;
+  campaign?: string; // Groups the sites booked together so they can be billed in one go
 }
 
 export interface BillingParty {
@@ -24,18 +59,123 @@ export interface BillingParty {
   email?: string;
 }
 
+// Income-tax sections clients deduct TDS under on our bills
+export type TdsSection = '194C' | '194J';
+
+export interface TdsTerms {
+  section: TdsSection;
+  rate: number;
+}
+
+export interface Client extends BillingParty {
+  id: string; // GSTIN when known, so re-saving a client updates the same entry
+  creditDays: number;
+  termsAndConditions?: string; // One term per line, replaces the invoice defaults when set
+  tdsSection?: TdsSection; // Kept flat so the client spreadsheet round-trips
+  tdsRate?: number;
+  tan?: string; // Client's TAN, to match its entries in Form 26AS
+  templateId?: string; // Invoice layout used for this client; the standard one when absent
+}
+
+export interface BankDetails {
+  bankName: string;
+  branch: string;
+  accountName: string;
+  accountNumber: string;
+  ifsc: string;
+}
+
+// Issuing entity (firm or branch with its own GSTIN) printed on every invoice, note and receipt
 export interface CompanyDetails {
+  id: string;
+  code: string; // Short prefix for the entity's number series, e.g. DA
   name: string;
   address: string;
   city: string;
   state: string;
   pincode: string;
   gstin: string;
+  pan: string;
   phone: string;
   email: string;
+  website?: string;
+  bank: BankDetails;
+  termsAndConditions: string[]; // Default terms for new invoices
+  logo?: string; // Data URL (PNG, JPEG or SVG)
+  headerImage?: string; // Data URL, or a path under /public
+  footerImage?: string;
+  signature?: string; // Data URL, printed above the signatory line
+  roundingPolicy?: RoundingPolicy; // Applied to new invoices; per-rate rounding when absent
+}
+
+export interface PlaceOfSupply {
+  state: string;
+  code: string;
+}
+
+// Lines of one category and rate added up, with the tax charged on them
+export interface TaxRateRow {
+  category: TaxCategory;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Item fields that can be printed as a column of the invoice table
+export type ItemColumnKey = 'sno' | 'town' | 'location' | 'hsn' | 'media' | 'size' | 'area' | 'type' | 'ratePM' | 'period' | 'amount';
+
+export interface TemplateColumn {
+  key: ItemColumnKey;
+  label: string;
+  width: number; // Share of the table width; a template's columns add up to 1
+}
+
+// Optional parts of the printed invoice; the e-invoice IRN and QR code are always printed when present
+export type TemplateBlock = 'description' | 'hsnSummary' | 'terms' | 'bankDetails' | 'signature';
+
+export type TemplateFont = 'helvetica' | 'times' | 'courier';
+
+// Invoice layout declared as data, so a new one needs no code change
+export interface InvoiceTemplate {
+  id: string;
+  name: string;
+  orientation: 'portrait' | 'landscape';
+  compact: boolean; // Tighter margins and spacing, to get more onto one page
+  font: TemplateFont;
+  fontSize: number; // Item table text in points; headings are a point larger
+  headingColor: string; // #rrggbb fill of the table headings and grand total rows
+  accentColor: string; // #rrggbb of the decorations in the drawn header and footer
+  columns: TemplateColumn[]; // In print order; AMOUNT is always last
+  blocks: Record<TemplateBlock, boolean>;
+  headerImage?: string; // Used instead of the company's header and footer images when set
+  footerImage?: string;
+  builtIn?: boolean; // Shipped with the app and not editable; save a copy to change it
+  updatedAt?: string;
+}
+
+export type DocumentType = 'invoice' | 'credit-note' | 'debit-note';
+
+export interface NoteReference {
+  invoiceNumber: string;
+  invoiceDate: string;
+}
+
+// Registration details returned by the Invoice Registration Portal (IRP)
+export interface EInvoiceDetails {
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  signedQrCode: string; // Signed JWT that is printed as the e-invoice QR code
+  signedInvoice?: string;
 }
 
 export interface Invoice {
+  documentType?: DocumentType; // Defaults to a tax invoice
+  originalInvoice?: NoteReference; // Set on credit and debit notes
+  noteReason?: string;
+  companyId?: string; // Issuing entity; the default company profile when absent
   invoiceNumber: string;
   invoiceDate: string;
   dueDate?: string;
@@ -45,17 +185,34 @@ export interface Invoice {
   duration?: string;
   billingParty: BillingParty;
   items: InvoiceItem[];
-  subtotal: number;
+  discount?: Discount; // Invoice-level, after line discounts
+  agencyCommissionRate?: number;
+  gstRate?: number; // Default rate for lines without their own; older saved invoices don't carry it and were billed at 18%
+  taxBreakup?: TaxRateRow[]; // Older saved invoices were billed at the single gstRate
+  subtotal: number; // Taxable value, after discounts and agency commission
   cgst: number;
   sgst: number;
   igst: number;
+  roundOff?: number; // Only under the round-off policy; subtotal + taxes + roundOff = grandTotal
   grandTotal: number;
+  roundingPolicy?: RoundingPolicy;
+  advance?: number; // Received against the PO and adjusted after GST ("Less : PO")
+  tds?: TdsTerms; // TDS the client is expected to deduct
   totalInWords: string;
   termsAndConditions: string[];
+  eInvoice?: EInvoiceDetails;
+  placeOfSupply?: PlaceOfSupply; // Decides IGST vs CGST/SGST
+  templateId?: string; // Layout the PDF is drawn with; the standard one when absent
 }
 
+export type CreditNote = Invoice & { documentType: 'credit-note'; originalInvoice: NoteReference };
+
+export type DebitNote = Invoice & { documentType: 'debit-note'; originalInvoice: NoteReference };
+
 export interface InvoiceFormData {
+  companyId?: string;
   invoiceNumber: string;
+  clientId?: string;
   invoiceDate: string;
   dueDate: string;
   creditDays: number;
@@ -66,7 +223,91 @@ export interface InvoiceFormData {
   startDate: string;
   billingParty: BillingParty;
   items: InvoiceItem[];
+  discount?: Discount;
+  agencyCommissionRate?: number;
+  advance?: number;
+  tds?: TdsTerms;
   gstRate: number;
   isInterstate: boolean;
+  roundingPolicy?: RoundingPolicy; // Drafts saved before the policy existed use per-rate rounding
   termsAndConditions: string;
+  eInvoice?: EInvoiceDetails;
+  templateId?: string;
+}
+
+export type InvoiceStatus = 'draft' | 'issued' | 'cancelled';
+
+export interface InvoiceRecord {
+  id: string;
+  status: InvoiceStatus;
+  formData: InvoiceFormData;
+  invoice: Invoice;
+  createdAt: string;
+  updatedAt: string;
+  issuedAt?: string;
+  cancelledAt?: string; // Cancelled invoices keep their number, so the series stays gapless
+  cancellationReason?: string;
+}
+
+export interface NumberSeries {
+  id: string;
+  format: string; // Tokens: {FY} for the financial year, {SEQ} for the padded sequence
+  padding: number;
+  counters: Record<string, number>; // Last issued sequence per financial year
+}
+
+export interface NoteRecord {
+  id: string;
+  originalRecordId: string;
+  note: CreditNote | DebitNote;
+  gstRate: number;
+  isInterstate: boolean;
+  interestUpTo?: string; // Set on interest debit notes: late-payment interest is billed up to this date
+  createdAt: string;
+}
+
+export type PaymentMode = 'Cheque' | 'NEFT' | 'UPI';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overdue';
+
+export interface Payment {
+  id: string;
+  invoiceRecordId: string;
+  invoiceNumber: string;
+  receiptNumber: string;
+  date: string;
+  amount: number; // Amount actually received
+  tdsDeducted: number; // Deducted by the client, settles the invoice along with the amount
+  mode: PaymentMode;
+  reference: string; // Cheque number, UTR or UPI transaction id
+  bank?: string;
+  createdAt: string;
+}
+
+// A TDS entry reported against our PAN, imported from Form 26AS or the AIS
+export interface TdsCredit {
+  id: string;
+  companyId: string;
+  tan: string;
+  deductorName: string;
+  section: string;
+  date: string; // Date of payment/credit, YYYY-MM-DD
+  amountPaid: number;
+  tdsDeducted: number;
+  tdsDeposited: number;
+}
+
+// A campaign billed cycle after cycle with the same sites and rates
+export interface RecurringTemplate {
+  id: string;
+  name: string;
+  formData: InvoiceFormData; // As on the invoice the template was made from
+  nextStartDate: string; // First day of the next cycle to bill, YYYY-MM-DD
+  endDate?: string; // Last day of the campaign; the final cycle is cut short to end on it
+  autoGenerate: boolean; // Draft the next invoice by itself once its cycle has started
+  active: boolean;
+  generatedRecordIds: string[];
+  lastGeneratedAt?: string;
+  createdAt: string;
+  updatedAt: string;
 }